@@ -0,0 +1,132 @@
+// Imports
+const fs = require('fs');
+const path = require('path');
+const { binaryExtensions } = require('./excluded-files');
+const { detectUtf16Encoding, countControlChars } = require('./encoding-detector');
+
+// ======================
+// BINARY DETECTION
+// ======================
+// A file is binary when the user's override for its extension says so, when its
+// extension is in `binaryExtensions`, or else when its first few KB look binary:
+// a known magic number, null bytes (outside UTF-16 text) or too many control characters
+// once decoded as UTF-8, or as Windows-1252 when it is not valid UTF-8.
+
+const SNIFF_LENGTH = 8 * 1024;
+const MAX_CONTROL_CHAR_RATIO = 0.1;
+const BINARY_EXTENSIONS = new Set(binaryExtensions);
+
+// File signatures, checked at the start of the file
+const MAGIC_NUMBERS = [
+  { fileType: 'PNG', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { fileType: 'JPEG', bytes: [0xff, 0xd8, 0xff] },
+  { fileType: 'GIF', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { fileType: 'PDF', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { fileType: 'ZIP', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { fileType: 'GZIP', bytes: [0x1f, 0x8b] },
+  { fileType: '7Z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { fileType: 'RAR', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] }, // Rar!
+  { fileType: 'XZ', bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { fileType: 'ELF', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { fileType: 'MACH-O', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { fileType: 'MACH-O', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+  { fileType: 'MACH-O', bytes: [0xfe, 0xed, 0xfa, 0xcf] },
+  { fileType: 'MACH-O', bytes: [0xfe, 0xed, 0xfa, 0xce] },
+  { fileType: 'CLASS', bytes: [0xca, 0xfe, 0xba, 0xbe] }, // Java classes and universal binaries
+  { fileType: 'WASM', bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { fileType: 'SQLITE', bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66] }, // SQLite f
+  { fileType: 'OGG', bytes: [0x4f, 0x67, 0x67, 0x53] }, // OggS
+  { fileType: 'RIFF', bytes: [0x52, 0x49, 0x46, 0x46] }, // WAV, AVI, WebP
+];
+
+/**
+ * Keeps the valid entries of the per-extension overrides set in the ignore settings
+ * @param {Record<string, string>} overrides - Extension (e.g. ".dat") -> 'binary' or 'text'
+ * @returns {Record<string, 'binary' | 'text'>} Keyed by lowercase extension with its dot
+ */
+function normalizeBinaryOverrides(overrides) {
+  const normalized = {};
+  Object.entries(overrides || {}).forEach(([ext, decision]) => {
+    const key = ext.trim().toLowerCase();
+    if (key.length > 1 && (decision === 'binary' || decision === 'text')) {
+      normalized[key.startsWith('.') ? key : `.${key}`] = decision;
+    }
+  });
+  return normalized;
+}
+
+function startsWithBytes(buffer, bytes) {
+  return buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte);
+}
+
+/**
+ * Checks the start of a file's content for signs of binary data
+ * @param {Buffer} buffer - The first bytes of the file
+ * @returns {{ reason: string, fileType?: string } | null} Null when it looks like text
+ */
+function sniffBinaryContent(buffer) {
+  const magic = MAGIC_NUMBERS.find(({ bytes }) => startsWithBytes(buffer, bytes));
+  if (magic) {
+    return { reason: 'magic-number', fileType: magic.fileType };
+  }
+  if (detectUtf16Encoding(buffer)) {
+    return null; // Decoded as UTF-16 by encoding-detector.js
+  }
+  if (buffer.includes(0)) {
+    return { reason: 'null-bytes' };
+  }
+
+  // Streaming leaves out a multi-byte character cut off at the end of the sample.
+  // Text that is not valid UTF-8 may still be legacy single-byte text.
+  const utf8Text = new TextDecoder('utf-8').decode(buffer, { stream: true });
+  const isValidUtf8 = !utf8Text.includes('\ufffd');
+  const text = isValidUtf8 ? utf8Text : new TextDecoder('windows-1252').decode(buffer);
+  if (text.length === 0 || countControlChars(text) / text.length <= MAX_CONTROL_CHAR_RATIO) {
+    return null;
+  }
+  return { reason: isValidUtf8 ? 'control-chars' : 'invalid-utf8' };
+}
+
+async function readFileStart(filePath) {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Decides whether a file is binary, reading its first few KB unless its extension decides.
+ * @param {Record<string, 'binary' | 'text'>} [overrides] - Normalized per-extension overrides
+ * @returns {Promise<{ isBinary: boolean, reason?: string, fileType?: string }>} `reason` is
+ * 'override', 'extension', 'magic-number', 'null-bytes', 'control-chars' or 'invalid-utf8'
+ * for binary files
+ */
+async function detectBinaryFile(filePath, overrides = {}) {
+  const ext = path.extname(filePath).toLowerCase();
+  const extFileType = ext ? ext.substring(1).toUpperCase() : undefined;
+
+  if (ext && overrides[ext]) {
+    return overrides[ext] === 'binary'
+      ? { isBinary: true, reason: 'override', fileType: extFileType }
+      : { isBinary: false };
+  }
+  if (BINARY_EXTENSIONS.has(ext)) {
+    return { isBinary: true, reason: 'extension', fileType: extFileType };
+  }
+
+  const sniffed = sniffBinaryContent(await readFileStart(filePath));
+  if (!sniffed) {
+    return { isBinary: false };
+  }
+  return { isBinary: true, reason: sniffed.reason, fileType: sniffed.fileType || extFileType };
+}
+
+module.exports = {
+  detectBinaryFile,
+  sniffBinaryContent,
+  normalizeBinaryOverrides,
+};
@@ -0,0 +1,183 @@
+// Imports
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+// ======================
+// DATA FILE SAMPLING
+// ======================
+// Large data files are included as a sample: the header plus the first and last rows
+// (or, for JSON, the structure with every array shortened), with a note of the total.
+
+const SAMPLE_ROWS = 5; // Rows kept from each end of a line-based file
+const MAX_JSON_ARRAY_ITEMS = 3; // Items kept from each JSON array
+const MAX_SAMPLE_LINE_LENGTH = 1000; // Characters kept from each sampled line
+const MAX_STREAMED_FILE_SIZE = 1024 * 1024 * 1024; // Line-based files are streamed, up to 1GB
+const MAX_PARSED_JSON_SIZE = 50 * 1024 * 1024; // JSON has to be parsed in memory
+
+const DATA_FILE_KINDS = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+  '.json': 'json',
+  '.log': 'log',
+};
+
+function getDataFileKind(filePath) {
+  return DATA_FILE_KINDS[path.extname(filePath).toLowerCase()] || null;
+}
+
+function formatCount(count) {
+  return count.toLocaleString('en-US');
+}
+
+function truncateLine(line) {
+  return line.length > MAX_SAMPLE_LINE_LENGTH
+    ? `${line.slice(0, MAX_SAMPLE_LINE_LENGTH)}... (line truncated)`
+    : line;
+}
+
+/**
+ * Lays out a line-based sample, or returns null when every row would be kept anyway.
+ * @param {string} kind - The data file kind; CSV and TSV keep their header line
+ * @param {string[]} head - The first lines of the file (header plus SAMPLE_ROWS rows)
+ * @param {string[]} tail - The last SAMPLE_ROWS lines of the file
+ * @param {number} totalLines - Number of lines in the file
+ */
+function formatLineSample(kind, head, tail, totalLines) {
+  const headerCount = kind === 'csv' || kind === 'tsv' ? 1 : 0;
+  const unit = kind === 'log' ? 'lines' : 'rows';
+  const totalRows = totalLines - headerCount;
+  const omittedRows = totalRows - SAMPLE_ROWS * 2;
+  if (omittedRows <= 0) {
+    return null;
+  }
+
+  return [
+    ...head.map(truncateLine),
+    `... (${formatCount(omittedRows)} ${unit} omitted) ...`,
+    ...tail.map(truncateLine),
+    `[Sample: ${headerCount ? 'header, ' : ''}first and last ${SAMPLE_ROWS} of ${formatCount(totalRows)} ${unit}]`,
+  ].join('\n');
+}
+
+function sampleLines(kind, content) {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const headCount = SAMPLE_ROWS + (kind === 'csv' || kind === 'tsv' ? 1 : 0);
+  return formatLineSample(
+    kind,
+    lines.slice(0, headCount),
+    lines.slice(Math.max(headCount, lines.length - SAMPLE_ROWS)),
+    lines.length
+  );
+}
+
+/**
+ * Shortens every array to MAX_JSON_ARRAY_ITEMS items, followed by a note of how many were cut.
+ * @returns {{ value: unknown, shortened: boolean }}
+ */
+function shortenJsonValue(value) {
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_JSON_ARRAY_ITEMS).map(shortenJsonValue);
+    const shortened = value.length > MAX_JSON_ARRAY_ITEMS || items.some((item) => item.shortened);
+    const sampled = items.map((item) => item.value);
+    if (value.length > MAX_JSON_ARRAY_ITEMS) {
+      sampled.push(
+        `... (${formatCount(value.length - MAX_JSON_ARRAY_ITEMS)} more of ${formatCount(value.length)} items)`
+      );
+    }
+    return { value: sampled, shortened };
+  }
+
+  if (value && typeof value === 'object') {
+    let shortened = false;
+    const sampled = {};
+    Object.keys(value).forEach((key) => {
+      const entry = shortenJsonValue(value[key]);
+      shortened = shortened || entry.shortened;
+      sampled[key] = entry.value;
+    });
+    return { value: sampled, shortened };
+  }
+
+  return { value, shortened: false };
+}
+
+function sampleJson(content) {
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null; // Not valid JSON (e.g. JSON with comments), so it cannot be sampled
+  }
+  const { value, shortened } = shortenJsonValue(parsed);
+  return shortened ? JSON.stringify(value, null, 2) : null;
+}
+
+/**
+ * Samples the content of a data file.
+ * @returns {string|null} The sample, or null when the file is not a data file or
+ * sampling would not shorten it
+ */
+function createSample(filePath, content) {
+  const kind = getDataFileKind(filePath);
+  if (!kind) {
+    return null;
+  }
+  return kind === 'json' ? sampleJson(content) : sampleLines(kind, content);
+}
+
+/**
+ * Samples a data file that is over the size limit, streaming line-based files
+ * so they never have to be held in memory.
+ * @returns {Promise<string|null>} The sample, or null when the file cannot be sampled
+ */
+async function sampleLargeFile(filePath, size) {
+  const kind = getDataFileKind(filePath);
+  if (!kind) {
+    return null;
+  }
+
+  if (kind === 'json') {
+    if (size > MAX_PARSED_JSON_SIZE) {
+      return null;
+    }
+    return sampleJson(await fs.promises.readFile(filePath, 'utf8'));
+  }
+
+  if (size > MAX_STREAMED_FILE_SIZE) {
+    return null;
+  }
+
+  const headCount = SAMPLE_ROWS + (kind === 'csv' || kind === 'tsv' ? 1 : 0);
+  const head = [];
+  const tail = [];
+  let totalLines = 0;
+  const lineReader = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lineReader) {
+    totalLines++;
+    if (head.length < headCount) {
+      head.push(truncateLine(line));
+    } else {
+      tail.push(truncateLine(line));
+      if (tail.length > SAMPLE_ROWS) {
+        tail.shift();
+      }
+    }
+  }
+
+  return formatLineSample(kind, head, tail, totalLines);
+}
+
+module.exports = {
+  createSample,
+  sampleLargeFile,
+};
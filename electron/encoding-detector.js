@@ -0,0 +1,132 @@
+// ======================
+// TEXT ENCODING DETECTION
+// ======================
+// Text files are decoded by their byte order mark when they have one. Otherwise
+// UTF-16 is recognized by its pattern of null bytes, valid UTF-8 is read as UTF-8,
+// and anything else falls back to Windows-1252 (a superset of Latin-1) as long as
+// the result reads as text.
+
+const UTF16_SAMPLE_LENGTH = 4 * 1024;
+const MAX_CONTROL_CHAR_RATIO = 0.01; // For the Windows-1252 fallback
+
+const BYTE_ORDER_MARKS = [
+  { encoding: 'utf-8-bom', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] },
+];
+
+// TextDecoder label of each detected encoding
+const DECODER_LABELS = {
+  'utf-8': 'utf-8',
+  'utf-8-bom': 'utf-8',
+  'utf-16le': 'utf-16le',
+  'utf-16be': 'utf-16be',
+  'windows-1252': 'windows-1252',
+};
+
+class UnknownEncodingError extends Error {
+  constructor() {
+    super('Could not decode the file as text (unknown encoding)');
+    this.name = 'UnknownEncodingError';
+  }
+}
+
+function detectByteOrderMark(buffer) {
+  const bom = BYTE_ORDER_MARKS.find(
+    ({ bytes }) => buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte)
+  );
+  return bom ? bom.encoding : null;
+}
+
+/**
+ * Recognizes UTF-16 text by its byte order mark, or without one by the null
+ * high bytes of its ASCII characters (every other byte)
+ * @param {Buffer} buffer - The file's content, or its first bytes
+ * @returns {'utf-16le' | 'utf-16be' | null}
+ */
+function detectUtf16Encoding(buffer) {
+  const bom = detectByteOrderMark(buffer);
+  if (bom === 'utf-16le' || bom === 'utf-16be') {
+    return bom;
+  }
+
+  const length = Math.min(buffer.length, UTF16_SAMPLE_LENGTH) & ~1; // Whole code units only
+  if (length < 4) {
+    return null;
+  }
+  let evenNulls = 0;
+  let oddNulls = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (buffer[i] === 0) evenNulls++;
+    if (buffer[i + 1] === 0) oddNulls++;
+  }
+  const units = length / 2;
+  if (oddNulls / units > 0.3 && evenNulls / units < 0.05) return 'utf-16le';
+  if (evenNulls / units > 0.3 && oddNulls / units < 0.05) return 'utf-16be';
+  return null;
+}
+
+function tryDecode(buffer, encoding) {
+  try {
+    return new TextDecoder(DECODER_LABELS[encoding], { fatal: true }).decode(buffer);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Counts the control characters that text rarely contains: those other than whitespace
+ * and escapes, plus the five bytes Windows-1252 leaves unassigned (decoded as C1 controls)
+ */
+function countControlChars(text) {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (
+      (code < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(code)) ||
+      code === 0x7f ||
+      [0x81, 0x8d, 0x8f, 0x90, 0x9d].includes(code)
+    ) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Detects the encoding of a text file and decodes it. A byte order mark is left out
+ * of the decoded content.
+ * @param {Buffer} buffer - The file's content
+ * @returns {{ content: string, textEncoding: string }} `textEncoding` is 'utf-8',
+ * 'utf-8-bom', 'utf-16le', 'utf-16be' or 'windows-1252'
+ * @throws {UnknownEncodingError} When no encoding gives readable text
+ */
+function decodeText(buffer) {
+  const detected = detectByteOrderMark(buffer) || detectUtf16Encoding(buffer);
+  if (detected) {
+    const content = tryDecode(buffer, detected);
+    if (content === null) {
+      throw new UnknownEncodingError();
+    }
+    return { content, textEncoding: detected };
+  }
+
+  const utf8Content = tryDecode(buffer, 'utf-8');
+  if (utf8Content !== null) {
+    return { content: utf8Content, textEncoding: 'utf-8' };
+  }
+
+  // Windows-1252 decodes any byte, so it only counts when the result looks like text
+  const legacyContent = tryDecode(buffer, 'windows-1252');
+  if (countControlChars(legacyContent) / legacyContent.length > MAX_CONTROL_CHAR_RATIO) {
+    throw new UnknownEncodingError();
+  }
+  return { content: legacyContent, textEncoding: 'windows-1252' };
+}
+
+module.exports = {
+  decodeText,
+  detectUtf16Encoding,
+  countControlChars,
+  UnknownEncodingError,
+};
@@ -0,0 +1,75 @@
+// Imports
+const { app } = require('electron');
+const fs = require('fs');
+const path = require('path');
+const { normalizePath } = require('./utils');
+
+// ======================
+// EXPORT TARGETS
+// ======================
+// Files the user picked in the "Save As" dialog, kept on disk (userData/export-targets.json)
+// so re-exports keep working after a restart. The renderer can only write to one of these
+// without asking, optionally with the extension switched to another output format's.
+
+const EXPORT_EXTENSIONS = ['.xml', '.md', '.json', '.txt']; // Extensions of the output formats
+const MAX_EXPORT_TARGETS = 100;
+
+let exportTargets = null; // Normalized paths, most recently picked first; loaded on first use
+
+function getTargetsFilePath() {
+  return path.join(app.getPath('userData'), 'export-targets.json');
+}
+
+function withoutExtension(filePath) {
+  const extension = path.extname(filePath);
+  return extension ? filePath.slice(0, -extension.length) : filePath;
+}
+
+async function loadExportTargets() {
+  if (exportTargets) return exportTargets;
+  try {
+    const data = JSON.parse(await fs.promises.readFile(getTargetsFilePath(), 'utf8'));
+    exportTargets = Array.isArray(data) ? data.filter((entry) => typeof entry === 'string') : [];
+  } catch {
+    exportTargets = [];
+  }
+  return exportTargets;
+}
+
+/**
+ * Remembers a file picked in the save dialog, so it can be re-exported to later
+ */
+async function rememberExportTarget(filePath) {
+  const targetPath = normalizePath(path.resolve(filePath));
+  const targets = await loadExportTargets();
+  exportTargets = [targetPath, ...targets.filter((entry) => entry !== targetPath)].slice(
+    0,
+    MAX_EXPORT_TARGETS
+  );
+  try {
+    await fs.promises.mkdir(path.dirname(getTargetsFilePath()), { recursive: true });
+    await fs.promises.writeFile(getTargetsFilePath(), JSON.stringify(exportTargets), 'utf8');
+  } catch (err) {
+    console.error('[ExportTargets] Could not save export targets:', err);
+  }
+}
+
+/**
+ * Checks whether a path was picked in the save dialog before, either as it is or with
+ * the extension of another output format
+ */
+async function isExportTarget(filePath) {
+  if (typeof filePath !== 'string' || !path.isAbsolute(filePath)) return false;
+  const targetPath = normalizePath(path.resolve(filePath));
+  const targets = await loadExportTargets();
+  if (targets.includes(targetPath)) return true;
+  return (
+    EXPORT_EXTENSIONS.includes(path.extname(targetPath).toLowerCase()) &&
+    targets.some((entry) => withoutExtension(entry) === withoutExtension(targetPath))
+  );
+}
+
+module.exports = {
+  rememberExportTarget,
+  isExportTarget,
+};
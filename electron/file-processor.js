@@ -9,7 +9,23 @@ const path = require('path');
 const os = require('os');
 const { default: PQueue } = require('p-queue');
 
-const { binaryExtensions } = require('./excluded-files');
+const { detectBinaryFile, normalizeBinaryOverrides } = require('./binary-detector');
+const { decodeText, UnknownEncodingError } = require('./encoding-detector');
+const { isNotebookFile, convertNotebook } = require('./notebook-converter');
+const { createSample, sampleLargeFile } = require('./data-sampler');
+const {
+  countEncodingTokens,
+  cancelTokenTasks,
+  TokenizationCancelledError,
+} = require('./token-pool');
+const {
+  getCachedEntry,
+  getCachedTokenCounts,
+  setCachedEntry,
+  updateCachedTokenCounts,
+  removeCachedEntry,
+  scheduleScanCacheSave,
+} = require('./scan-cache');
 const {
   normalizePath,
   ensureAbsolutePath,
@@ -27,43 +43,78 @@ const {
 
 // Configuration constants
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB max file size
+const MAX_NOTEBOOK_SIZE = 25 * 1024 * 1024; // Notebooks shrink a lot once image outputs are dropped
 const CONCURRENT_DIRS = os.cpus().length * 2; // Increase based on CPU count for better parallelism
+const MAX_CONTENT_CACHE_SIZE = 64 * 1024 * 1024; // Characters of file content kept in memory
+const CONTENT_READ_CONCURRENCY = 8; // Files read at once for `getFileContents`
 
 // Cache for file metadata
 const fileCache = new Map(); // Cache for file metadata keyed by normalized file path
-const fileTypeCache = new Map(); // Cache for binary file type detection results
+
+// Content of recently read text files, least recently used first. File data only holds
+// metadata once counted; the renderer asks for content when it needs it (see getFileContents).
+const contentCache = new Map(); // Normalized file path -> { content, sampleContent?, notebookCells? }
+let contentCacheSize = 0;
 
 // ======================
 // GLOBAL STATE
 // ======================
-let isLoadingDirectory = false;
+const loadingRoots = new Set(); // Normalized root folders being scanned
 let lastStatusUpdateTime = 0; // Throttling for status updates
 const STATUS_UPDATE_INTERVAL = 200; // ms
 
-// ======================
-// MODULE INITIALIZATION
-// ======================
-let tiktoken;
-try {
-  tiktoken = require('tiktoken');
-  console.log('Successfully loaded tiktoken module');
-} catch (err) {
-  console.error('Failed to load tiktoken module:', err);
-  tiktoken = null;
-}
-
-let encoder;
-try {
-  if (tiktoken) {
-    encoder = tiktoken.get_encoding('o200k_base'); // gpt-4o encoding
-    console.log('Tiktoken encoder initialized successfully');
-  } else {
-    throw new Error('Tiktoken module not available');
+// Tokenizer strategy for the selected model: an encoding, scaled by a ratio for
+// model families that are only estimated. Defaults to exact o200k_base counts.
+const DEFAULT_TOKENIZER = { encoding: 'o200k_base', ratio: 1 };
+const TOKENIZER_ENCODINGS = ['o200k_base', 'cl100k_base'];
+let activeTokenizer = DEFAULT_TOKENIZER;
+
+// Token counts run on the worker pool (see token-pool.js); the ones started by a scan
+// carry this tag so that stopping the scan drops those still queued.
+const FILE_PROCESSING_TAG = 'file-processing';
+
+// On-disk scan caches of the root folders being scanned or watched, keyed by normalized
+// root folder (see scan-cache.js)
+const scanCaches = new Map();
+
+// Per-extension binary/text decisions from the ignore settings (see binary-detector.js)
+let binaryOverrides = {};
+
+// Which symbolic links scans follow: none ('off'), links to files ('files'), or links to
+// files and directories ('all')
+const SYMLINK_MODES = ['off', 'files', 'all'];
+let symlinkMode = 'off';
+
+// Followed links to directories: normalized link path -> normalized real path
+const linkedDirectories = new Map();
+
+// Real paths already scanned by each running scan, keyed by normalized root folder, so
+// link cycles end and files reached through several links are only listed once
+const scanStates = new Map(); // rootDir -> { visitedDirs: Set<string>, seenFiles: Set<string> }
+
+// Called with each directory's files once they are processed, so the file list can be
+// streamed while a scan runs. Keyed by normalized root folder.
+const scannedFilesListeners = new Map();
+
+function getRootKey(rootDir) {
+  return normalizePath(ensureAbsolutePath(rootDir));
+}
+
+function isLoadingRoot(rootDir) {
+  return loadingRoots.has(getRootKey(rootDir));
+}
+
+/**
+ * Finds the scan cache of the root folder that contains a file
+ * @param {string} filePath - Normalized file path
+ */
+function getScanCacheForPath(filePath) {
+  for (const [rootDir, scanCache] of scanCaches) {
+    if (filePath === rootDir || filePath.startsWith(`${rootDir.replace(/\/$/, '')}/`)) {
+      return scanCache;
+    }
   }
-} catch (err) {
-  console.error('Failed to initialize tiktoken encoder:', err);
-  console.log('Using fallback token counter');
-  encoder = null;
+  return null;
 }
 
 // ======================
@@ -71,36 +122,317 @@ try {
 // ======================
 
 /**
- * The function `countTokens` calculates the number of tokens in a given text, handling special cases
- * and errors.
- * it, and returns the estimated token count based on text length.
+ * The function `countTokens` calculates the number of tokens in a given text with the
+ * tokenizer of the selected model (or the given tokenizer).
+ * @returns {Promise<number>}
+ */
+async function countTokens(text, tokenizer = activeTokenizer) {
+  return Math.ceil((await countEncodingTokens(text, tokenizer.encoding)) * tokenizer.ratio);
+}
+
+/**
+ * Counts a file's tokens with the active tokenizer. Counts are cached on the file
+ * data per encoding, so switching between models only recounts for a new encoding.
+ * @param {{ tokenizer?: object, tag?: string|null }} [options] - Counts tagged with
+ * FILE_PROCESSING_TAG (the default) are cancelled by `stopFileProcessing`
+ * @returns {Promise<number>}
+ */
+async function getFileTokenCount(
+  fileData,
+  { tokenizer = activeTokenizer, tag = FILE_PROCESSING_TAG } = {}
+) {
+  if (!fileData.encodingTokenCounts) {
+    fileData.encodingTokenCounts = {};
+  }
+  const counts = fileData.encodingTokenCounts;
+  if (counts[tokenizer.encoding] === undefined) {
+    const content =
+      fileData.content !== undefined
+        ? fileData.content
+        : (await getFileContent(fileData.path)).content;
+    counts[tokenizer.encoding] = await countEncodingTokens(content, tokenizer.encoding, {
+      tag,
+    });
+  }
+  return Math.ceil(counts[tokenizer.encoding] * tokenizer.ratio);
+}
+
+function getContentSize(fileContent) {
+  return (
+    fileContent.content.length + (fileContent.sampleContent ? fileContent.sampleContent.length : 0)
+  );
+}
+
+function removeCachedContent(normPath) {
+  const cached = contentCache.get(normPath);
+  if (cached) {
+    contentCache.delete(normPath);
+    contentCacheSize -= getContentSize(cached);
+  }
+}
+
+// Adds content as the most recently used, evicting the least recently used beyond the limit
+function cacheFileContent(normPath, fileContent) {
+  removeCachedContent(normPath);
+  const size = getContentSize(fileContent);
+  if (size > MAX_CONTENT_CACHE_SIZE) return;
+  contentCache.set(normPath, fileContent);
+  contentCacheSize += size;
+  for (const [cachedPath, cached] of contentCache) {
+    if (contentCacheSize <= MAX_CONTENT_CACHE_SIZE) break;
+    contentCache.delete(cachedPath);
+    contentCacheSize -= getContentSize(cached);
+  }
+}
+
+// Content fields of the file data, as returned by readFileContent
+function pickFileContent({ content, sampleContent, notebookCells }) {
+  const fileContent = { content };
+  if (sampleContent) fileContent.sampleContent = sampleContent;
+  if (notebookCells) fileContent.notebookCells = notebookCells;
+  return fileContent;
+}
+
+/**
+ * Moves a counted text file's content (sample and notebook cells included) from its file
+ * data into the content cache, so the file data kept in fileCache and sent to the renderer
+ * is only metadata. `hasSampleContent` tells whether the file can be copied in sample mode.
+ */
+function detachFileContent(fileData) {
+  cacheFileContent(fileData.path, pickFileContent(fileData));
+  fileData.hasSampleContent = !!fileData.sampleContent;
+  delete fileData.content;
+  delete fileData.sampleContent;
+  delete fileData.notebookCells;
+}
+
+/**
+ * Gets the content of a scanned text file, reading it again if it is no longer cached
+ * @returns {Promise<{ content: string, sampleContent?: string, notebookCells?: object[] }>}
+ * @throws When the file is not a text file of the current scan
  */
-function countTokens(text) {
-  if (!encoder) {
-    return Math.ceil(text.length / 4);
+async function getFileContent(filePath) {
+  const normPath = normalizePath(filePath);
+  const cached = contentCache.get(normPath);
+  if (cached) {
+    cacheFileContent(normPath, cached); // Mark as recently used
+    return cached;
+  }
+
+  const fileData = fileCache.get(normPath);
+  if (!fileData || fileData.isBinary || fileData.isSkipped) {
+    throw new Error('Not a text file of the scanned folder');
+  }
+  const fileContent = fileData.isSampled
+    ? { content: (await sampleLargeFile(normPath, fileData.size)) || '' }
+    : pickFileContent(await readFileContent(normPath));
+  cacheFileContent(normPath, fileContent);
+  return fileContent;
+}
+
+/**
+ * Gets the content of several scanned text files, for the `get-file-contents` channel
+ * @param {string[]} filePaths
+ * @returns {Promise<{ contents: Record<string, object>, errors: Record<string, string> }>}
+ * Keyed by the requested paths, with contents as returned by getFileContent
+ */
+async function getFileContents(filePaths) {
+  const contents = {};
+  const errors = {};
+  const readQueue = new PQueue({ concurrency: CONTENT_READ_CONCURRENCY });
+  await Promise.all(
+    filePaths.map((filePath) =>
+      readQueue.add(async () => {
+        try {
+          contents[filePath] = await getFileContent(filePath);
+        } catch (err) {
+          errors[filePath] = err.message;
+        }
+      })
+    )
+  );
+  return { contents, errors };
+}
+
+/**
+ * Switches the tokenizer used for all token counts and recounts the cached files.
+ * @param {{ encoding: string, ratio: number }} tokenizer - Invalid values fall back to the default
+ * @returns {Promise<Record<string, number>>} The new token count of each cached text file, keyed by path
+ */
+async function setTokenizer(tokenizer) {
+  const isValid =
+    tokenizer &&
+    TOKENIZER_ENCODINGS.includes(tokenizer.encoding) &&
+    typeof tokenizer.ratio === 'number' &&
+    tokenizer.ratio > 0;
+  activeTokenizer = isValid
+    ? { encoding: tokenizer.encoding, ratio: tokenizer.ratio }
+    : DEFAULT_TOKENIZER;
+
+  const newTokenizer = activeTokenizer;
+  const tokenCounts = {};
+  await Promise.all(
+    Array.from(fileCache.entries()).map(async ([filePath, fileData]) => {
+      if (fileData.isBinary || fileData.isSkipped) return;
+      fileData.tokenCount = await getFileTokenCount(fileData, {
+        tokenizer: newTokenizer,
+        tag: null,
+      });
+      tokenCounts[filePath] = fileData.tokenCount;
+      const scanCache = getScanCacheForPath(filePath);
+      if (scanCache) {
+        updateCachedTokenCounts(
+          scanCache,
+          safeRelativePath(scanCache.rootDir, filePath),
+          fileData.encodingTokenCounts
+        );
+      }
+    })
+  );
+  scanCaches.forEach((scanCache) => scheduleScanCacheSave(scanCache));
+  return tokenCounts;
+}
+
+// The binary override of a file's extension, recorded with its cache entry
+function getBinaryOverride(filePath) {
+  return binaryOverrides[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Builds the file data of an unchanged file from its scan cache entry, without reading
+ * or sniffing the file. Text content is loaded when it is needed (see getFileContent).
+ * @param {object} fileData - The file's data so far (name, paths, size)
+ * @param {fs.Stats} stats - The file's stats, compared with the cached ones
+ * @returns {object|null} Null when the file has to be read
+ */
+function getCachedFileData(scanCache, fileData, relativePath, stats) {
+  const entry = getCachedEntry(scanCache, relativePath, stats);
+  if (!entry || entry.binaryOverride !== getBinaryOverride(fileData.path)) {
+    return null;
+  }
+  if (entry.isBinary) {
+    return {
+      ...fileData,
+      content: '',
+      isBinary: true,
+      binaryReason: entry.binaryReason,
+      fileType: entry.fileType,
+    };
+  }
+
+  const tokenizer = activeTokenizer;
+  const tokenCounts = entry.tokenCounts || {};
+  if (tokenCounts[tokenizer.encoding] === undefined || !entry.textEncoding) {
+    return null;
+  }
+  const cachedFileData = {
+    ...fileData,
+    textEncoding: entry.textEncoding,
+    hasSampleContent: !!entry.hasSampleContent,
+    encodingTokenCounts: { ...tokenCounts },
+    tokenCount: Math.ceil(tokenCounts[tokenizer.encoding] * tokenizer.ratio),
+  };
+  delete cachedFileData.content; // As after detachFileContent
+  return cachedFileData;
+}
+
+/**
+ * Records a binary file's detection result in the scan cache
+ * @param {{ reason?: string, fileType?: string }} binary - As returned by isBinaryFile
+ */
+function setCachedBinaryEntry(scanCache, filePath, relativePath, stats, binary) {
+  setCachedEntry(scanCache, relativePath, {
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    isBinary: true,
+    binaryOverride: getBinaryOverride(filePath),
+    binaryReason: binary.reason,
+    fileType: binary.fileType,
+  });
+}
+
+/**
+ * Counts a scanned text file's tokens, reusing the counts in the scan cache when the
+ * file's content hash is unchanged, and records the result in the cache.
+ * @param {object} fileData - The file's data, with the content read by readFileContent
+ * @param {fs.Stats} stats - The file's stats, stored with the result
+ */
+async function getScannedFileTokenCount(scanCache, fileData, relativePath, stats) {
+  if (!scanCache) {
+    return getFileTokenCount(fileData);
+  }
+
+  const { tokenCounts, contentHash } = getCachedTokenCounts(
+    scanCache,
+    relativePath,
+    fileData.content
+  );
+  if (tokenCounts) {
+    fileData.encodingTokenCounts = tokenCounts;
+  }
+  const tokenCount = await getFileTokenCount(fileData);
+  setCachedEntry(scanCache, relativePath, {
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    isBinary: false,
+    binaryOverride: getBinaryOverride(fileData.path),
+    textEncoding: fileData.textEncoding,
+    hasSampleContent: !!fileData.sampleContent,
+    contentHash,
+    tokenCounts: fileData.encodingTokenCounts,
+  });
+  return tokenCount;
+}
+
+function getMaxFileSize(filePath) {
+  return isNotebookFile(filePath) ? MAX_NOTEBOOK_SIZE : MAX_FILE_SIZE;
+}
+
+/**
+ * Reads a text file's content for the prompt, decoded with its detected encoding
+ * (returned as `textEncoding`, see encoding-detector.js). Jupyter notebooks are converted
+ * to readable cells (returned as `notebookCells`); if conversion fails the raw JSON is kept.
+ * Data files also get a `sampleContent` for sample mode when sampling shortens them.
+ * @throws {UnknownEncodingError} When the file cannot be decoded as text
+ */
+async function readFileContent(filePath) {
+  const { content, textEncoding } = decodeText(await fs.promises.readFile(filePath));
+  if (!isNotebookFile(filePath)) {
+    const sampleContent = createSample(filePath, content);
+    return sampleContent ? { content, textEncoding, sampleContent } : { content, textEncoding };
   }
 
   try {
-    const cleanText = text.replace(/<\|endoftext\|>/g, '');
-    const tokens = encoder.encode(cleanText);
-    return tokens.length;
+    const notebook = convertNotebook(content);
+    return { content: notebook.content, textEncoding, notebookCells: notebook.cells };
   } catch (err) {
-    console.error('Error counting tokens:', err);
-    return Math.ceil(text.length / 4);
+    console.warn(`Could not convert notebook ${filePath}, using raw content:`, err.message);
+    return { content, textEncoding };
   }
 }
 
-// To process whether a file is binary or not.
-function isBinaryFile(filePath) {
-  const ext = path.extname(filePath).toLowerCase();
-
-  if (fileTypeCache.has(ext)) {
-    return fileTypeCache.get(ext);
+/**
+ * Completes the file data of a file over the size limit. Data files become a sample
+ * of themselves (marked `isSampled`), anything else is skipped.
+ */
+async function processLargeFile(filePath, fileData) {
+  const sample = await sampleLargeFile(filePath, fileData.size);
+  if (sample === null) {
+    return { ...fileData, isSkipped: true, error: 'File too large to process' };
   }
+  const sampledFileData = { ...fileData, content: sample, isSampled: true };
+  sampledFileData.tokenCount = await getFileTokenCount(sampledFileData);
+  detachFileContent(sampledFileData);
+  return sampledFileData;
+}
 
-  const isBinary = binaryExtensions.includes(ext);
-  fileTypeCache.set(ext, isBinary);
-  return isBinary;
+/**
+ * Decides whether a file is binary from the extension overrides, the extension list
+ * and its first few KB.
+ * @returns {Promise<{ isBinary: boolean, reason?: string, fileType?: string }>}
+ */
+function isBinaryFile(filePath) {
+  return detectBinaryFile(filePath, binaryOverrides);
 }
 
 /**
@@ -126,6 +458,7 @@ async function processSingleFile(fullPath, rootDir, ignoreFilter, ignoreMode) {
     fullPath = ensureAbsolutePath(fullPath);
     rootDir = ensureAbsolutePath(rootDir);
     const relativePath = safeRelativePath(rootDir, fullPath);
+    const scanCache = scanCaches.get(getRootKey(rootDir)) || null;
 
     if (!isValidPath(relativePath) || relativePath.startsWith('..')) {
       return null;
@@ -135,6 +468,12 @@ async function processSingleFile(fullPath, rootDir, ignoreFilter, ignoreMode) {
       return null;
     }
 
+    // Links are only listed when the symlink mode follows them
+    const linkStats = await fs.promises.lstat(fullPath);
+    if (linkStats.isSymbolicLink() && symlinkMode === 'off') {
+      return null;
+    }
+
     const stats = await fs.promises.stat(fullPath);
     const fileData = {
       name: path.basename(fullPath),
@@ -149,28 +488,52 @@ async function processSingleFile(fullPath, rootDir, ignoreFilter, ignoreMode) {
       // This check is mode-dependent (e.g., GlobalModeExclusion applies only in 'global' mode via isPathExcludedByDefaults).
       excludedByDefault: isPathExcludedByDefaults(fullPath, rootDir, ignoreMode),
     };
+    if (linkStats.isSymbolicLink()) {
+      fileData.symlinkTarget = normalizePath(await fs.promises.realpath(fullPath));
+    }
+    const linkedDirectory = findLinkedDirectory(normalizePath(path.dirname(fullPath)));
+    if (linkedDirectory) {
+      fileData.linkedDirectory = linkedDirectory;
+    }
 
-    if (stats.size > MAX_FILE_SIZE) {
-      fileData.isSkipped = true;
-      fileData.error = 'File too large to process';
-      fileCache.set(normalizePath(fullPath), fileData);
-      return fileData;
+    if (stats.size > getMaxFileSize(fullPath)) {
+      const largeFileData = await processLargeFile(fullPath, fileData);
+      fileCache.set(normalizePath(fullPath), largeFileData);
+      return largeFileData;
+    }
+
+    const cachedFileData = getCachedFileData(scanCache, fileData, relativePath, stats);
+    if (cachedFileData) {
+      fileCache.set(normalizePath(fullPath), cachedFileData);
+      return cachedFileData;
     }
 
-    const ext = path.extname(fullPath).toLowerCase();
-    if (binaryExtensions.includes(ext)) {
+    const binary = await isBinaryFile(fullPath);
+    if (binary.isBinary) {
       fileData.isBinary = true;
-      fileData.fileType = ext.toUpperCase();
+      fileData.binaryReason = binary.reason;
+      fileData.fileType = binary.fileType;
+      setCachedBinaryEntry(scanCache, fullPath, relativePath, stats, binary);
+      scheduleScanCacheSave(scanCache);
       fileCache.set(normalizePath(fullPath), fileData);
       return fileData;
     }
 
-    const content = await fs.promises.readFile(fullPath, 'utf8');
+    const { content, textEncoding, notebookCells, sampleContent } = await readFileContent(fullPath);
     console.log(
-      `[FileProcessor][processSingleFile] Read content for: ${fullPath} (Size: ${content.length})`
+      `[FileProcessor][processSingleFile] Read content for: ${fullPath} (Size: ${content.length}, ${textEncoding})`
     );
     fileData.content = content;
-    fileData.tokenCount = countTokens(content);
+    fileData.textEncoding = textEncoding;
+    if (notebookCells) {
+      fileData.notebookCells = notebookCells;
+    }
+    if (sampleContent) {
+      fileData.sampleContent = sampleContent;
+    }
+    fileData.tokenCount = await getScannedFileTokenCount(scanCache, fileData, relativePath, stats);
+    scheduleScanCacheSave(scanCache);
+    detachFileContent(fileData);
 
     // Always update the cache with the latest fileData
     fileCache.set(normalizePath(fullPath), fileData);
@@ -180,6 +543,9 @@ async function processSingleFile(fullPath, rootDir, ignoreFilter, ignoreMode) {
 
     return fileData;
   } catch (err) {
+    if (err instanceof TokenizationCancelledError) {
+      return null;
+    }
     console.error(`Error processing single file ${fullPath}:`, err);
     return {
       name: path.basename(fullPath),
@@ -196,6 +562,64 @@ async function processSingleFile(fullPath, rootDir, ignoreFilter, ignoreMode) {
   }
 }
 
+/**
+ * Sorts a directory's entries into directories and files. Symbolic links are followed
+ * according to the symlink mode; broken links and link loops are skipped.
+ * @returns {Promise<{ directories: fs.Dirent[], files: fs.Dirent[], linkTargets: Map<string, string> }>}
+ *   linkTargets holds the real path of each followed link, by entry name
+ */
+async function classifyDirents(dir, dirents) {
+  const directories = dirents.filter((dirent) => dirent.isDirectory());
+  const files = dirents.filter((dirent) => dirent.isFile());
+  const linkTargets = new Map();
+  if (symlinkMode === 'off') {
+    return { directories, files, linkTargets };
+  }
+
+  await Promise.all(
+    dirents
+      .filter((dirent) => dirent.isSymbolicLink())
+      .map(async (dirent) => {
+        const linkPath = safePathJoin(dir, dirent.name);
+        try {
+          const [stats, target] = await Promise.all([
+            fs.promises.stat(linkPath),
+            fs.promises.realpath(linkPath),
+          ]);
+          if (stats.isFile()) {
+            files.push(dirent);
+          } else if (stats.isDirectory() && symlinkMode === 'all') {
+            directories.push(dirent);
+            linkedDirectories.set(normalizePath(linkPath), normalizePath(target));
+          } else {
+            return;
+          }
+          linkTargets.set(dirent.name, normalizePath(target));
+        } catch (err) {
+          console.log('Unresolvable symbolic link, skipping:', linkPath, err.code);
+        }
+      })
+  );
+  return { directories, files, linkTargets };
+}
+
+/**
+ * Finds the nearest followed link to a directory that a path is reached through
+ * @param {string} dirPath - Normalized directory path
+ * @returns {{ path: string, target: string } | undefined}
+ */
+function findLinkedDirectory(dirPath) {
+  if (linkedDirectories.size === 0) return undefined;
+  for (let current = dirPath; current; ) {
+    const target = linkedDirectories.get(current);
+    if (target) return { path: current, target };
+    const parent = path.posix.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+  return undefined;
+}
+
 /**
  * The function `processDirectory` processes a directory by scanning its contents recursively while
  * applying ignore filters and updating progress.
@@ -312,10 +736,27 @@ async function readFilesRecursively(
   if (!ignoreFilter) {
     throw new Error('readFilesRecursively requires an ignoreFilter parameter');
   }
-  if (!isLoadingDirectory) return { results: [], progress };
-
   dir = ensureAbsolutePath(dir);
   rootDir = ensureAbsolutePath(rootDir || dir);
+  if (!isLoadingRoot(rootDir)) return { results: [], progress };
+  const scanCache = scanCaches.get(getRootKey(rootDir)) || null;
+
+  // Real path of this directory, to tell when links lead to files or directories twice
+  const scanState = scanStates.get(getRootKey(rootDir));
+  let realDir = null;
+  if (symlinkMode !== 'off' && scanState) {
+    try {
+      realDir = normalizePath(await fs.promises.realpath(dir));
+    } catch (err) {
+      console.log('Could not resolve directory, skipping:', dir, err.code);
+      return { results: [], progress };
+    }
+    if (scanState.visitedDirs.has(realDir)) {
+      console.log('Directory already scanned through another path, skipping:', dir);
+      return { results: [], progress };
+    }
+    scanState.visitedDirs.add(realDir);
+  }
 
   // Initialize queue only once at the top level call
   let shouldCleanupQueue = false;
@@ -334,17 +775,18 @@ async function readFilesRecursively(
   }
 
   let results = [];
+  const directoryFiles = []; // This directory's own files, as opposed to its subdirectories'
   let fileProcessingErrors = []; // To collect errors without stopping
 
   try {
     const dirents = await fs.promises.readdir(dir, { withFileTypes: true });
-    if (!isLoadingDirectory) return { results: [], progress };
+    if (!isLoadingRoot(rootDir)) return { results: [], progress };
 
-    const directories = dirents.filter((dirent) => dirent.isDirectory());
-    const files = dirents.filter((dirent) => dirent.isFile());
+    const { directories, files, linkTargets } = await classifyDirents(dir, dirents);
+    if (!isLoadingRoot(rootDir)) return { results: [], progress };
 
     for (let i = 0; i < directories.length; i += CONCURRENT_DIRS) {
-      if (!isLoadingDirectory) return { results: [], progress };
+      if (!isLoadingRoot(rootDir)) return { results: [], progress };
 
       const batch = directories.slice(i, Math.min(i + CONCURRENT_DIRS, directories.length));
 
@@ -373,15 +815,15 @@ async function readFilesRecursively(
       );
 
       results = results.concat(combinedResults.results);
-      if (!isLoadingDirectory) return { results: [], progress };
+      if (!isLoadingRoot(rootDir)) return { results: [], progress };
     }
 
     // Process files using the controlled concurrency queue
     for (const dirent of files) {
-      if (!isLoadingDirectory) break; // Check cancellation before adding to queue
+      if (!isLoadingRoot(rootDir)) break; // Check cancellation before adding to queue
 
       queueToUse.add(async () => {
-        if (!isLoadingDirectory) return; // Check cancellation again inside the task
+        if (!isLoadingRoot(rootDir)) return; // Check cancellation again inside the task
 
         const fullPath = safePathJoin(dir, dirent.name);
         const relativePath = safeRelativePath(rootDir, fullPath);
@@ -410,48 +852,73 @@ async function readFilesRecursively(
             return;
           }
 
+          // A file reached through several links is only listed once
+          if (realDir) {
+            const realPath =
+              linkTargets.get(dirent.name) || normalizePath(safePathJoin(realDir, dirent.name));
+            if (scanState.seenFiles.has(realPath)) {
+              console.log('File already scanned through another path, skipping:', relativePath);
+              return;
+            }
+            scanState.seenFiles.add(realPath);
+          }
+
           if (fileCache.has(fullPathNormalized)) {
             // console.log('Using cached file data for:', fullPathNormalized); // Can be noisy
-            results.push(fileCache.get(fullPathNormalized));
+            directoryFiles.push(fileCache.get(fullPathNormalized));
             progress.files++;
             return;
           }
 
-          if (isBinaryFile(fullPath)) {
-            // console.log('Binary file by extension, skipping content read:', fullPath); // Can be noisy
+          const stats = await fs.promises.stat(fullPath);
+          if (!isLoadingRoot(rootDir)) return;
+          const cachedFileData = getCachedFileData(
+            scanCache,
+            {
+              name: dirent.name,
+              path: fullPathNormalized,
+              relativePath: relativePath,
+              tokenCount: 0,
+              size: stats.size,
+              isBinary: false,
+              isSkipped: false,
+            },
+            relativePath,
+            stats
+          );
+          if (cachedFileData) {
+            fileCache.set(fullPathNormalized, cachedFileData);
+            directoryFiles.push(cachedFileData);
+            progress.files++;
+            return;
+          }
+
+          const binary = await isBinaryFile(fullPath);
+          if (!isLoadingRoot(rootDir)) return;
+          if (binary.isBinary) {
+            // console.log(`Binary file (${binary.reason}), skipping content read:`, fullPath); // Can be noisy
             const fileData = {
               name: dirent.name,
               path: fullPathNormalized,
               relativePath: relativePath,
               tokenCount: 0,
-              size: 0,
+              size: stats.size,
               content: '',
               isBinary: true,
               isSkipped: false,
-              fileType: path.extname(fullPath).substring(1).toUpperCase(),
+              binaryReason: binary.reason,
+              fileType: binary.fileType,
             };
-
-            try {
-              const stats = await fs.promises.stat(fullPath);
-              if (!isLoadingDirectory) return;
-              fileData.size = stats.size;
-            } catch (statErr) {
-              console.log('Could not get size for binary file:', fullPath, statErr.code);
-              // Still add the file entry, just with size 0
-            }
-
+            setCachedBinaryEntry(scanCache, fullPath, relativePath, stats, binary);
             fileCache.set(fullPathNormalized, fileData);
-            results.push(fileData);
+            directoryFiles.push(fileData);
             progress.files++;
             return;
           }
 
           // Process non-binary files
-          const stats = await fs.promises.stat(fullPath);
-          if (!isLoadingDirectory) return;
-
-          if (stats.size > MAX_FILE_SIZE) {
-            const fileData = {
+          if (stats.size > getMaxFileSize(fullPath)) {
+            const fileData = await processLargeFile(fullPath, {
               name: dirent.name,
               path: fullPathNormalized,
               relativePath: relativePath,
@@ -459,32 +926,53 @@ async function readFilesRecursively(
               size: stats.size,
               content: '',
               isBinary: false,
-              isSkipped: true,
-              error: 'File too large to process',
-            };
+              isSkipped: false,
+            });
+            if (!isLoadingRoot(rootDir)) return;
             fileCache.set(fullPathNormalized, fileData);
-            results.push(fileData);
+            directoryFiles.push(fileData);
             progress.files++;
             return;
           }
 
-          const fileContent = await fs.promises.readFile(fullPath, 'utf8');
-          if (!isLoadingDirectory) return;
+          const {
+            content: fileContent,
+            textEncoding,
+            notebookCells,
+            sampleContent,
+          } = await readFileContent(fullPath);
+          if (!isLoadingRoot(rootDir)) return;
 
           const fileData = {
             name: dirent.name,
             path: fullPathNormalized,
             relativePath: relativePath,
             content: fileContent, // Still loading full content for token counting
-            tokenCount: countTokens(fileContent),
+            textEncoding,
+            tokenCount: 0,
             size: stats.size,
             isBinary: false,
             isSkipped: false,
           };
+          if (notebookCells) {
+            fileData.notebookCells = notebookCells;
+          }
+          if (sampleContent) {
+            fileData.sampleContent = sampleContent;
+          }
+          fileData.tokenCount = await getScannedFileTokenCount(
+            scanCache,
+            fileData,
+            relativePath,
+            stats
+          );
+          if (!isLoadingRoot(rootDir)) return;
+          detachFileContent(fileData);
           fileCache.set(fullPathNormalized, fileData);
-          results.push(fileData);
+          directoryFiles.push(fileData);
           progress.files++;
         } catch (err) {
+          if (err instanceof TokenizationCancelledError) return;
           console.error(`Error processing file ${fullPath}:`, err.code || err.message);
           const errorData = {
             name: dirent.name,
@@ -495,15 +983,17 @@ async function readFilesRecursively(
             isBinary: false,
             isSkipped: true,
             error:
-              err.code === 'EPERM'
-                ? 'Permission denied'
-                : err.code === 'ENOENT'
-                  ? 'File not found'
-                  : err.code === 'EBUSY'
-                    ? 'File busy'
-                    : err.code === 'EMFILE'
-                      ? 'Too many open files'
-                      : 'Could not read file',
+              err instanceof UnknownEncodingError
+                ? 'Unknown text encoding'
+                : err.code === 'EPERM'
+                  ? 'Permission denied'
+                  : err.code === 'ENOENT'
+                    ? 'File not found'
+                    : err.code === 'EBUSY'
+                      ? 'File busy'
+                      : err.code === 'EMFILE'
+                        ? 'Too many open files'
+                        : 'Could not read file',
           };
           // Try to get stats even if read failed
           try {
@@ -514,7 +1004,7 @@ async function readFilesRecursively(
           }
 
           fileCache.set(fullPathNormalized, errorData);
-          results.push(errorData); // Add error entry to results
+          directoryFiles.push(errorData); // Add error entry to results
           progress.files++; // Count errors as processed files for progress
           fileProcessingErrors.push({ path: fullPathNormalized, error: err.message });
         }
@@ -522,7 +1012,7 @@ async function readFilesRecursively(
         // Throttle status updates (moved outside finally)
         const now = Date.now();
         if (now - lastStatusUpdateTime > STATUS_UPDATE_INTERVAL) {
-          if (!isLoadingDirectory) return; // Check cancellation before sending IPC
+          if (!isLoadingRoot(rootDir)) return; // Check cancellation before sending IPC
           window.webContents.send('file-processing-status', {
             status: 'processing',
             message: `Processing files (${progress.directories} dirs, ${progress.files} files)... (Press ESC to cancel)`,
@@ -540,6 +1030,16 @@ async function readFilesRecursively(
 
     // Wait for all queued file processing tasks to complete
     await queueToUse.onIdle();
+    const linkedDirectory = findLinkedDirectory(normalizePath(dir));
+    directoryFiles.forEach((fileData) => {
+      if (linkTargets.has(fileData.name)) fileData.symlinkTarget = linkTargets.get(fileData.name);
+      if (linkedDirectory) fileData.linkedDirectory = linkedDirectory;
+    });
+    results = results.concat(directoryFiles);
+    const scannedFilesListener = scannedFilesListeners.get(getRootKey(rootDir));
+    if (scannedFilesListener && isLoadingRoot(rootDir) && directoryFiles.length > 0) {
+      scannedFilesListener(directoryFiles);
+    }
 
     if (fileProcessingErrors.length > 0) {
       console.warn(`Encountered ${fileProcessingErrors.length} errors during file processing.`);
@@ -565,7 +1065,9 @@ async function readFilesRecursively(
 
 function clearFileCaches() {
   fileCache.clear();
-  fileTypeCache.clear();
+  linkedDirectories.clear();
+  contentCache.clear();
+  contentCacheSize = 0;
   console.log('Cleared all file caches');
 }
 
@@ -579,6 +1081,12 @@ function updateFileCacheEntry(filePath, fileData) {
 // Function to remove a single file from the file cache
 function removeFileCacheEntry(filePath) {
   const normPath = normalizePath(filePath);
+  const scanCache = getScanCacheForPath(normPath);
+  if (scanCache) {
+    removeCachedEntry(scanCache, safeRelativePath(scanCache.rootDir, normPath));
+    scheduleScanCacheSave(scanCache);
+  }
+  removeCachedContent(normPath);
   if (fileCache.has(normPath)) {
     fileCache.delete(normPath);
     console.log(`[FileProcessor] Removed from fileCache: ${normPath}`);
@@ -588,13 +1096,68 @@ function removeFileCacheEntry(filePath) {
 // ======================
 // STATE MANAGEMENT FUNCTIONS
 // ======================
-function startFileProcessing() {
-  isLoadingDirectory = true;
-  console.log('[FileProcessor] Started file processing state.');
+
+/**
+ * Sets the scan caches that scans and file watcher updates read from and write to, one
+ * per root folder (an empty list to stop caching)
+ * @param {Array<{ rootDir: string }>} caches
+ */
+function setScanCaches(caches) {
+  scanCaches.clear();
+  caches.forEach((scanCache) => scanCaches.set(scanCache.rootDir, scanCache));
+}
+
+/**
+ * Sets the listener that receives each directory's files during a scan of a root folder
+ * (null to stop)
+ * @param {string} rootDir - The root folder being scanned
+ * @param {((files: object[]) => void) | null} listener
+ */
+function setScannedFilesListener(rootDir, listener) {
+  if (listener) {
+    scannedFilesListeners.set(getRootKey(rootDir), listener);
+  } else {
+    scannedFilesListeners.delete(getRootKey(rootDir));
+  }
+}
+
+/**
+ * Sets the per-extension overrides of the binary detection
+ * @param {Record<string, 'binary' | 'text'>} overrides - Extension (e.g. ".dat") -> decision
+ */
+function setBinaryOverrides(overrides) {
+  binaryOverrides = normalizeBinaryOverrides(overrides);
 }
 
-function stopFileProcessing() {
-  isLoadingDirectory = false;
+/**
+ * Sets which symbolic links scans follow
+ * @param {'off' | 'files' | 'all'} mode - Invalid values fall back to 'off'
+ */
+function setSymlinkMode(mode) {
+  symlinkMode = SYMLINK_MODES.includes(mode) ? mode : 'off';
+}
+
+function startFileProcessing(rootDir) {
+  loadingRoots.add(getRootKey(rootDir));
+  scanStates.set(getRootKey(rootDir), { visitedDirs: new Set(), seenFiles: new Set() });
+  console.log(`[FileProcessor] Started file processing state for ${getRootKey(rootDir)}.`);
+}
+
+/**
+ * Stops scanning a root folder, or every root folder when none is given
+ */
+function stopFileProcessing(rootDir) {
+  if (rootDir) {
+    loadingRoots.delete(getRootKey(rootDir));
+    scanStates.delete(getRootKey(rootDir));
+  } else {
+    loadingRoots.clear();
+    scanStates.clear();
+  }
+  // Token counts are not tagged per root, so only drop the queued ones once nothing scans
+  if (loadingRoots.size === 0) {
+    cancelTokenTasks(FILE_PROCESSING_TAG);
+  }
   console.log('[FileProcessor] Stopped file processing state.');
 }
 
@@ -605,10 +1168,15 @@ module.exports = {
   readFilesRecursively,
   isBinaryFile,
   countTokens,
+  setTokenizer,
+  getFileContents,
   clearFileCaches,
+  setScanCaches,
+  setBinaryOverrides,
+  setSymlinkMode,
+  setScannedFilesListener,
   updateFileCacheEntry, // Added for export
   removeFileCacheEntry, // Renamed and added for export
   startFileProcessing,
   stopFileProcessing,
-  encoder, // Export the encoder for consistent token counting
 };
@@ -10,6 +10,8 @@ const { getUpdateStatus, resetUpdateSessionState } = require('./update-manager')
 
 // Configuration constants
 const MAX_DIRECTORY_LOAD_TIME = 300000; // 5 minutes timeout for large repositories
+const FILE_LIST_BATCH_SIZE = 500; // Files per 'file-list-batch' message while scanning
+const FILE_LIST_BATCH_INTERVAL = 250; // ms, sends smaller batches when a scan is slow
 
 // ======================
 // GLOBAL STATE
@@ -17,14 +19,17 @@ const MAX_DIRECTORY_LOAD_TIME = 300000; // 5 minutes timeout for large repositor
 /** runtime ignore-mode */
 /** @type {'automatic' | 'global'} */
 let currentIgnoreMode = 'automatic';
-let isLoadingDirectory = false;
-let loadingTimeoutId = null;
 /**
  * @typedef {Object} DirectoryLoadingProgress
  * @property {number} directories - Number of directories processed
  * @property {number} files - Number of files processed
  */
-let currentProgress = { directories: 0, files: 0 };
+/**
+ * Root folders being scanned, each with its own timeout and progress
+ * @type {Map<string, { timeoutId: NodeJS.Timeout | null, progress: DirectoryLoadingProgress }>}
+ */
+const loadingRoots = new Map();
+let nextScanId = 1; // Identifies the batches of each scan in the renderer
 
 // ======================
 // PATH UTILITIES
@@ -54,49 +59,138 @@ const {
   startFileProcessing,
   stopFileProcessing,
   countTokens, // Added countTokens
+  setTokenizer,
+  setScanCaches,
+  setBinaryOverrides,
+  setSymlinkMode,
+  setScannedFilesListener,
+  getFileContents,
 } = require('./file-processor.js');
+const { shutdownTokenPool } = require('./token-pool.js');
+const {
+  loadScanCache,
+  pruneUnseenEntries,
+  saveScanCache,
+  flushScanCaches,
+  deleteScanCache,
+} = require('./scan-cache.js');
+const { rememberExportTarget, isExportTarget } = require('./export-targets.js');
 
 // ======================
 // DIRECTORY LOADING MANAGEMENT
 // ======================
-function setupDirectoryLoadingTimeout(window, folderPath) {
-  if (loadingTimeoutId) {
-    clearTimeout(loadingTimeoutId);
-  }
+/**
+ * Picks the file data fields the renderer uses, for sending over IPC. Content is left
+ * empty: the renderer fetches it through 'get-file-contents' when it needs it.
+ */
+function serializeFileData(file, rootDir, ignoreMode) {
+  return {
+    path: file.path,
+    relativePath: file.relativePath,
+    name: file.name,
+    size: file.size,
+    isDirectory: file.isDirectory,
+    extension: path.extname(file.name).toLowerCase(),
+    excluded: isPathExcludedByDefaults(file.path, rootDir, ignoreMode),
+    content: '',
+    textEncoding: file.textEncoding,
+    tokenCount: file.tokenCount,
+    isBinary: file.isBinary,
+    binaryReason: file.binaryReason,
+    isSkipped: file.isSkipped,
+    error: file.error,
+    hasSampleContent: file.hasSampleContent,
+    isSampled: file.isSampled,
+    symlinkTarget: file.symlinkTarget,
+    linkedDirectory: file.linkedDirectory,
+  };
+}
+
+/**
+ * Streams scanned files to the renderer as 'file-list-batch' messages of up to
+ * FILE_LIST_BATCH_SIZE files, or fewer once FILE_LIST_BATCH_INTERVAL has passed
+ * @returns {{ add: (files: object[]) => void, flush: () => void }}
+ */
+function createFileListBatcher(sender, scanId, rootDir, ignoreMode) {
+  let pending = [];
+  let lastSentTime = Date.now();
+
+  const flush = () => {
+    if (pending.length > 0 && !sender.isDestroyed()) {
+      sender.send('file-list-batch', { scanId, files: pending });
+    }
+    pending = [];
+    lastSentTime = Date.now();
+  };
+
+  const add = (files) => {
+    files.forEach((file) => {
+      if (typeof file?.path !== 'string') {
+        console.warn('Invalid file object in scanned files:', file);
+        return;
+      }
+      pending.push(serializeFileData(file, rootDir, ignoreMode));
+    });
+    if (
+      pending.length >= FILE_LIST_BATCH_SIZE ||
+      Date.now() - lastSentTime >= FILE_LIST_BATCH_INTERVAL
+    ) {
+      flush();
+    }
+  };
 
-  loadingTimeoutId = setTimeout(() => {
+  return { add, flush };
+}
+
+/**
+ * Marks a root folder as loading, and cancels its loading once it runs longer than
+ * MAX_DIRECTORY_LOAD_TIME
+ * @returns {DirectoryLoadingProgress} The root folder's progress
+ */
+function startLoadingRoot(window, rootDir) {
+  finishLoadingRoot(rootDir);
+  startFileProcessing(rootDir); // Start file processor state
+
+  const progress = { directories: 0, files: 0 };
+  const timeoutId = setTimeout(() => {
     console.log(
-      `Directory loading timed out after ${MAX_DIRECTORY_LOAD_TIME / 1000} seconds: ${
-        folderPath && typeof folderPath === 'object' ? folderPath.folderPath : folderPath
-      }`
+      `Directory loading timed out after ${MAX_DIRECTORY_LOAD_TIME / 1000} seconds: ${rootDir}`
     );
     console.log(
-      `Stats at timeout: Processed ${currentProgress.directories} directories and ${currentProgress.files} files`
+      `Stats at timeout: Processed ${progress.directories} directories and ${progress.files} files`
     );
-    cancelDirectoryLoading(window, 'timeout');
+    cancelDirectoryLoading(window, 'timeout', rootDir);
   }, MAX_DIRECTORY_LOAD_TIME);
 
-  currentProgress = { directories: 0, files: 0 };
+  loadingRoots.set(rootDir, { timeoutId, progress });
+  return progress;
 }
 
-async function cancelDirectoryLoading(window, reason = 'user') {
-  await watcher.shutdownWatcher();
-  if (!isLoadingDirectory) return;
-
-  console.log(`Cancelling directory loading process (Reason: ${reason})`);
-  console.log(
-    `Stats at cancellation: Processed ${currentProgress.directories} directories and ${currentProgress.files} files`
-  );
-
-  stopFileProcessing(); // Stop file processor state
-  isLoadingDirectory = false;
+function finishLoadingRoot(rootDir) {
+  const loading = loadingRoots.get(rootDir);
+  if (!loading) return;
+  clearTimeout(loading.timeoutId);
+  loadingRoots.delete(rootDir);
+  stopFileProcessing(rootDir); // Stop file processor state
+}
 
-  if (loadingTimeoutId) {
-    clearTimeout(loadingTimeoutId);
-    loadingTimeoutId = null;
-  }
+/**
+ * Cancels the loading of a root folder, or of every root folder when none is given
+ */
+async function cancelDirectoryLoading(window, reason = 'user', rootDir = null) {
+  await watcher.shutdownWatcher(rootDir || undefined);
+  const rootDirs = rootDir ? [rootDir] : Array.from(loadingRoots.keys());
+  const cancelledRoots = rootDirs.filter((dir) => loadingRoots.has(dir));
+  if (cancelledRoots.length === 0) return;
 
-  currentProgress = { directories: 0, files: 0 };
+  console.log(`Cancelling directory loading process (Reason: ${reason})`);
+  cancelledRoots.forEach((dir) => {
+    const { progress } = loadingRoots.get(dir);
+    console.log(
+      `Stats at cancellation of ${dir}: Processed ${progress.directories} directories and ${progress.files} files`
+    );
+    finishLoadingRoot(dir);
+  });
 
   if (window && window.webContents && !window.webContents.isDestroyed()) {
     const message =
@@ -302,7 +396,7 @@ ipcMain.handle('get-token-count', async (event, textToTokenize) => {
     return { error: 'Invalid input: textToTokenize must be a string.' };
   }
   try {
-    const tokenCount = countTokens(textToTokenize);
+    const tokenCount = await countTokens(textToTokenize);
     return { tokenCount };
   } catch (error) {
     console.error('[IPC:get-token-count] Error counting tokens:', error);
@@ -310,13 +404,133 @@ ipcMain.handle('get-token-count', async (event, textToTokenize) => {
   }
 });
 
+// IPC Handler for switching the tokenizer to the selected model's strategy.
+// Returns the recounted token counts of the loaded files, keyed by path.
+ipcMain.handle('set-tokenizer', async (event, tokenizer) => {
+  try {
+    const tokenCounts = await setTokenizer(tokenizer);
+    return { tokenCounts };
+  } catch (error) {
+    console.error('[IPC:set-tokenizer] Error switching tokenizer:', error);
+    return { error: `Error switching tokenizer: ${error.message}` };
+  }
+});
+
+// IPC Handler for fetching the content of scanned text files, which the file list leaves out.
+// Returns { contents, errors } keyed by the requested paths.
+ipcMain.handle('get-file-contents', async (event, payload) => {
+  const filePaths = payload?.filePaths;
+  if (!Array.isArray(filePaths) || filePaths.some((filePath) => typeof filePath !== 'string')) {
+    console.error('[IPC:get-file-contents] Invalid filePaths received:', filePaths);
+    return { error: 'Invalid input: filePaths must be an array of strings.' };
+  }
+  try {
+    return await getFileContents(filePaths);
+  } catch (error) {
+    console.error('[IPC:get-file-contents] Error reading file contents:', error);
+    return { error: `Error reading file contents: ${error.message}` };
+  }
+});
+
+// IPC Handler for exporting the assembled content to a file.
+// Writes straight to `filePath` when given, otherwise asks for one with the save dialog.
+ipcMain.handle('export-content', async (event, payload) => {
+  const { content, filePath, defaultPath, extension } = payload || {};
+  if (typeof content !== 'string') {
+    console.error('[IPC:export-content] Invalid content received:', typeof content);
+    return { error: 'Invalid input: content must be a string.' };
+  }
+  try {
+    let targetPath = filePath;
+    // Re-exports may only write to files the user picked in the save dialog before
+    if (targetPath && !(await isExportTarget(targetPath))) {
+      console.warn('[IPC:export-content] Rejected export to an unknown path:', targetPath);
+      return { error: 'The file was not chosen in the save dialog. Use "Save As" instead.' };
+    }
+    if (!targetPath) {
+      const filters = [{ name: 'All Files', extensions: ['*'] }];
+      if (extension) {
+        filters.unshift({ name: `${extension.toUpperCase()} Files`, extensions: [extension] });
+      }
+      const result = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender), {
+        title: 'Save As',
+        defaultPath,
+        filters,
+      });
+      if (result.canceled || !result.filePath) {
+        return { canceled: true };
+      }
+      targetPath = result.filePath;
+    }
+    await fs.promises.writeFile(targetPath, content, 'utf8');
+    await rememberExportTarget(targetPath);
+    return { filePath: targetPath };
+  } catch (error) {
+    console.error('[IPC:export-content] Error writing export file:', error);
+    return { error: `Error exporting content: ${error.message}` };
+  }
+});
+
+/**
+ * Scans one root folder of the workspace, streaming its files to the renderer
+ * @returns {Promise<{ rootDir: string, files: object[], ignoreFilter: object } | null>}
+ *   null when the scan was cancelled
+ */
+async function scanRootFolder(sender, window, rootDir, scanId, payload) {
+  console.log(`Loading ignore patterns for: ${rootDir} in mode: ${payload.ignoreMode}`);
+  let ignoreFilter;
+  if (payload.ignoreMode === 'global') {
+    console.log('Using global ignore filter with custom ignores:', payload.customIgnores);
+    ignoreFilter = createGlobalIgnoreFilter(payload.customIgnores);
+  } else {
+    // Default to automatic
+    console.log('Using automatic ignore filter (loading .gitignore)');
+    ignoreFilter = await loadAutomaticModeIgnoreFilter(rootDir, window);
+  }
+  if (!ignoreFilter) {
+    throw new Error(`Failed to load ignore patterns for ${rootDir}`);
+  }
+  console.log('Ignore patterns loaded successfully');
+
+  // Stream each directory's files to the renderer as soon as they are processed
+  const batcher = createFileListBatcher(
+    sender,
+    scanId,
+    rootDir,
+    payload.ignoreMode ?? currentIgnoreMode
+  );
+  setScannedFilesListener(rootDir, batcher.add);
+
+  try {
+    const { results: files } = await readFilesRecursively(
+      rootDir,
+      rootDir, // rootDir is the same as the initial dir for top-level call
+      ignoreFilter,
+      window,
+      loadingRoots.get(rootDir)?.progress,
+      rootDir, // currentDir is also the same for top-level
+      payload?.ignoreMode ?? currentIgnoreMode,
+      null // fileQueue
+    );
+
+    if (!loadingRoots.has(rootDir)) {
+      // Cancelled: the renderer keeps the batches it already received
+      return null;
+    }
+    batcher.flush();
+    return { rootDir, files, ignoreFilter };
+  } finally {
+    setScannedFilesListener(rootDir, null);
+  }
+}
+
 ipcMain.on('request-file-list', async (event, payload) => {
   console.log('Received request-file-list payload:', payload); // Log the entire payload
 
   // Always clear file caches before scanning
   clearFileCaches();
 
-  if (isLoadingDirectory) {
+  if (loadingRoots.size > 0) {
     console.log('Already processing a directory, ignoring new request for:', payload);
     const window = BrowserWindow.fromWebContents(event.sender);
     if (window && window.webContents && !window.webContents.isDestroyed()) {
@@ -328,146 +542,132 @@ ipcMain.on('request-file-list', async (event, payload) => {
     return;
   }
 
+  // The root folders of the workspace (older renderers send a single folderPath)
+  const rootDirs = (
+    Array.isArray(payload.folderPaths) ? payload.folderPaths : [payload.folderPath]
+  ).filter((rootDir) => typeof rootDir === 'string' && rootDir);
+  if (rootDirs.length === 0) {
+    event.sender.send('file-processing-status', {
+      status: 'error',
+      message: 'Error: No folder to scan',
+    });
+    return;
+  }
+
+  const window = BrowserWindow.fromWebContents(event.sender);
   try {
-    isLoadingDirectory = true;
-    startFileProcessing(); // Start file processor state
-    setupDirectoryLoadingTimeout(BrowserWindow.fromWebContents(event.sender), payload.folderPath);
+    rootDirs.forEach((rootDir) => startLoadingRoot(window, rootDir));
 
     event.sender.send('file-processing-status', {
       status: 'processing',
       message: 'Scanning directory structure... (Press ESC to cancel)',
     });
 
-    currentProgress = { directories: 0, files: 0 };
-
     // Clear ignore cache if ignore settings were modified
     if (payload.ignoreSettingsModified) {
       console.log('Clearing ignore cache due to modified ignore settings');
       clearIgnoreCaches();
     }
 
-    console.log(
-      `Loading ignore patterns for: ${payload.folderPath} in mode: ${payload.ignoreMode}`
-    );
-    let ignoreFilter;
-    if (payload.ignoreMode === 'global') {
-      console.log('Using global ignore filter with custom ignores:', payload.customIgnores);
-      ignoreFilter = createGlobalIgnoreFilter(payload.customIgnores);
-    } else {
-      // Default to automatic
-      console.log('Using automatic ignore filter (loading .gitignore)');
-      ignoreFilter = await loadAutomaticModeIgnoreFilter(
-        payload.folderPath,
-        BrowserWindow.fromWebContents(event.sender)
-      );
-    }
-    if (!ignoreFilter) {
-      throw new Error('Failed to load ignore patterns');
-    }
-    console.log('Ignore patterns loaded successfully');
+    // Per-extension binary/text decisions from the ignore settings
+    setBinaryOverrides(payload.binaryOverrides);
 
-    const { results: files } = await readFilesRecursively(
-      payload.folderPath,
-      payload.folderPath, // rootDir is the same as the initial dir for top-level call
-      ignoreFilter,
-      BrowserWindow.fromWebContents(event.sender),
-      currentProgress,
-      payload.folderPath, // currentDir is also the same for top-level
-      payload?.ignoreMode ?? currentIgnoreMode,
-      null, // fileQueue
-      watcher.shutdownWatcher,
-      watcher.initializeWatcher
-    );
+    // Which symbolic links the scan follows
+    setSymlinkMode(payload.symlinkMode);
 
-    if (!isLoadingDirectory) {
-      return;
-    }
+    // Reuse the token counts of files unchanged since each folder was last scanned
+    const scanCaches = await Promise.all(rootDirs.map((rootDir) => loadScanCache(rootDir)));
+    setScanCaches(scanCaches);
 
-    if (loadingTimeoutId) {
-      clearTimeout(loadingTimeoutId);
-      loadingTimeoutId = null;
+    // The batches of every root folder belong to the same scan
+    const scanId = nextScanId++;
+    const scans = await Promise.all(
+      rootDirs.map((rootDir) => scanRootFolder(event.sender, window, rootDir, scanId, payload))
+    );
+    if (scans.some((scan) => !scan)) {
+      // The renderer keeps the files it received, but needs to know this scan ended
+      const fileCount = scans.reduce((count, scan) => count + (scan ? scan.files.length : 0), 0);
+      event.sender.send('file-list-complete', { scanId, fileCount, cancelled: true });
+      return;
     }
-    stopFileProcessing(); // Stop file processor state
-    isLoadingDirectory = false;
+    rootDirs.forEach(finishLoadingRoot);
 
+    const fileCount = scans.reduce((count, scan) => count + scan.files.length, 0);
     event.sender.send('file-processing-status', {
       status: 'complete',
-      message: `Found ${files.length} files`,
+      message: `Found ${fileCount} files`,
     });
+    event.sender.send('file-list-complete', { scanId, fileCount });
 
-    const serializedFiles = files
-      .filter((file) => {
-        if (typeof file?.path !== 'string') {
-          console.warn('Invalid file object in files array:', file);
-          return false;
-        }
-        return true;
-      })
-      .map((file) => {
-        return {
-          path: file.path,
-          relativePath: file.relativePath,
-          name: file.name,
-          size: file.size,
-          isDirectory: file.isDirectory,
-          extension: path.extname(file.name).toLowerCase(),
-          excluded: isPathExcludedByDefaults(
-            file.path,
-            payload.folderPath,
-            payload.ignoreMode ?? currentIgnoreMode
-          ),
-          content: file.content,
-          tokenCount: file.tokenCount,
-          isBinary: file.isBinary,
-          isSkipped: file.isSkipped,
-          error: file.error,
-        };
-      });
-
-    event.sender.send('file-list-data', serializedFiles);
+    // The scan came across every file, so entries of deleted files can go
+    scanCaches.forEach((scanCache) => {
+      pruneUnseenEntries(scanCache);
+      saveScanCache(scanCache);
+    });
 
-    // After sending file-list-data, start watcher for the root folder
-    // Use the same ignoreFilter as used for the scan
-    // Pass rootDir as payload.folderPath
-    watcher.initializeWatcher(
-      payload.folderPath, // rootDir
-      BrowserWindow.fromWebContents(event.sender),
-      ignoreFilter,
-      // For defaultIgnoreFilterInstance, use the system default filter
-      require('./ignore-manager.js').systemDefaultFilter,
-      // processSingleFileCallback
-      (filePath) =>
-        require('./file-processor.js').processSingleFile(
-          filePath,
-          payload.folderPath,
-          ignoreFilter,
-          payload?.ignoreMode ?? currentIgnoreMode
-        )
-    );
+    // After sending the file list, start a watcher for each root folder, using the same
+    // ignoreFilter as its scan. Watchers of root folders no longer open are stopped first.
+    await watcher.shutdownWatcher();
+    const ignoreMode = payload?.ignoreMode ?? currentIgnoreMode;
+    scans.forEach(({ rootDir, ignoreFilter }) => {
+      watcher.initializeWatcher(
+        rootDir,
+        window,
+        ignoreFilter,
+        // For defaultIgnoreFilterInstance, use the system default filter
+        require('./ignore-manager.js').systemDefaultFilter,
+        // processSingleFileCallback
+        async (filePath) => {
+          const fileData = await require('./file-processor.js').processSingleFile(
+            filePath,
+            rootDir,
+            ignoreFilter,
+            ignoreMode
+          );
+          return fileData && serializeFileData(fileData, rootDir, ignoreMode);
+        },
+        { followSymlinks: payload.symlinkMode === 'all' }
+      );
+    });
   } catch (err) {
     console.error('Error processing file list:', err);
-    stopFileProcessing(); // Stop file processor state
-    isLoadingDirectory = false;
-
-    if (loadingTimeoutId) {
-      clearTimeout(loadingTimeoutId);
-      loadingTimeoutId = null;
-    }
+    rootDirs.forEach(finishLoadingRoot);
 
     event.sender.send('file-processing-status', {
       status: 'error',
       message: `Error: ${err.message}`,
     });
   } finally {
-    stopFileProcessing(); // Ensure file processor state is reset
-    isLoadingDirectory = false;
-    if (loadingTimeoutId) {
-      clearTimeout(loadingTimeoutId);
-      loadingTimeoutId = null;
-    }
+    rootDirs.forEach(finishLoadingRoot); // Ensure file processor state is reset
+  }
+});
+
+// IPC Handler for the "rebuild cache" action: deletes a folder's scan cache.
+// The renderer rescans the folder afterwards if it is open.
+ipcMain.handle('rebuild-scan-cache', async (event, folderPath) => {
+  if (typeof folderPath !== 'string' || !folderPath) {
+    return { error: 'Invalid folder path' };
+  }
+  try {
+    await deleteScanCache(folderPath);
+    return { success: true };
+  } catch (error) {
+    console.error('[IPC:rebuild-scan-cache] Error deleting scan cache:', error);
+    return { error: `Error deleting scan cache: ${error.message}` };
   }
 });
 
+// OpenRouter lists prices as strings in USD per token. Negative prices mean the price
+// depends on the model a router picks, so those are treated as unknown.
+function parseModelPricing(pricing) {
+  const prompt = parseFloat(pricing?.prompt);
+  const completion = parseFloat(pricing?.completion);
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+    return undefined;
+  }
+  return { prompt, completion };
+}
+
 // Handle fetch-models request from renderer
 ipcMain.handle('fetch-models', async () => {
   try {
@@ -490,7 +690,7 @@ ipcMain.handle('fetch-models', async () => {
         name: apiModel.name || apiModel.id,
         description: apiModel.description || '',
         context_length: apiModel.context_length || 0,
-        pricing: apiModel.pricing || '',
+        pricing: parseModelPricing(apiModel.pricing),
         available: apiModel.available !== false,
       }));
 
@@ -572,10 +772,12 @@ function createWindow() {
 
   app.on('before-quit', async () => {
     await watcher.shutdownWatcher();
+    await flushScanCaches();
   });
 
   app.on('will-quit', () => {
     resetUpdateSessionState();
+    shutdownTokenPool();
   });
 
   app.on('window-all-closed', async () => {
@@ -588,7 +790,7 @@ function createWindow() {
   // handle Escape locally (only when focused), not globally
   mainWindow.webContents.on('before-input-event', (event, input) => {
     // only intercept Esc when our window is focused and a load is in progress
-    if (input.key === 'Escape' && isLoadingDirectory) {
+    if (input.key === 'Escape' && loadingRoots.size > 0) {
       cancelDirectoryLoading(mainWindow);
       event.preventDefault(); // stop further in-app handling
     }
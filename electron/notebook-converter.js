@@ -0,0 +1,158 @@
+// Imports
+const path = require('path');
+
+// ======================
+// JUPYTER NOTEBOOK CONVERSION
+// ======================
+// Notebooks are stored as JSON with base64 image outputs, which wastes tokens.
+// They are converted to percent-format cells ("# %%" headers, as used by Jupytext),
+// with markdown commented out and outputs reduced to trimmed text.
+
+const MAX_OUTPUT_LINES = 20; // Lines kept per cell's outputs
+const MAX_OUTPUT_LINE_LENGTH = 300; // Characters kept per output line
+
+// Kernel languages whose line comments start with "//" (everything else uses "#")
+const SLASH_COMMENT_LANGUAGES = [
+  'c',
+  'c++',
+  'csharp',
+  'c#',
+  'go',
+  'java',
+  'javascript',
+  'kotlin',
+  'rust',
+  'scala',
+  'swift',
+  'typescript',
+];
+
+const ANSI_ESCAPE_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g; // eslint-disable-line no-control-regex
+
+function isNotebookFile(filePath) {
+  return path.extname(filePath).toLowerCase() === '.ipynb';
+}
+
+// Notebook text fields are either a string or an array of lines
+function joinText(text) {
+  return Array.isArray(text) ? text.join('') : text || '';
+}
+
+function splitLines(text) {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function getCommentPrefix(notebook) {
+  const metadata = notebook.metadata || {};
+  const language = (
+    (metadata.kernelspec && metadata.kernelspec.language) ||
+    (metadata.language_info && metadata.language_info.name) ||
+    'python'
+  ).toLowerCase();
+  return SLASH_COMMENT_LANGUAGES.includes(language) ? '//' : '#';
+}
+
+/**
+ * Reduces a single cell output to plain text lines.
+ * Images and other rich outputs are replaced with placeholders.
+ */
+function formatOutput(output) {
+  switch (output.output_type) {
+    case 'stream':
+      return splitLines(joinText(output.text));
+    case 'execute_result':
+    case 'display_data': {
+      const data = output.data || {};
+      const mimeTypes = Object.keys(data);
+      const images = mimeTypes.filter((mimeType) => mimeType.startsWith('image/'));
+      if (images.length > 0) {
+        // The text/plain fallback of an image is just its repr, e.g. "<Figure size 640x480>"
+        return images.map((mimeType) => `[image output: ${mimeType}]`);
+      }
+      if (data['text/plain'] !== undefined) {
+        return splitLines(joinText(data['text/plain']));
+      }
+      return mimeTypes.map((mimeType) => `[${mimeType} output]`);
+    }
+    case 'error':
+      return [`${output.ename || 'Error'}: ${output.evalue || ''}`.trim()];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Collects the text of a code cell's outputs, trimmed to MAX_OUTPUT_LINES
+ */
+function formatOutputs(outputs) {
+  const lines = (outputs || [])
+    .flatMap(formatOutput)
+    .map((line) => line.replace(ANSI_ESCAPE_PATTERN, ''))
+    .map((line) =>
+      line.length > MAX_OUTPUT_LINE_LENGTH ? `${line.slice(0, MAX_OUTPUT_LINE_LENGTH)}...` : line
+    );
+
+  if (lines.length > MAX_OUTPUT_LINES) {
+    const hiddenCount = lines.length - MAX_OUTPUT_LINES;
+    return [...lines.slice(0, MAX_OUTPUT_LINES), `... (${hiddenCount} more lines)`];
+  }
+  return lines;
+}
+
+/**
+ * Converts the raw JSON of a notebook into readable text cells.
+ * Throws if the content is not a valid notebook.
+ * @param {string} rawContent - The .ipynb file contents
+ * @returns {{ content: string, cells: object[] }} The converted text and, for each cell,
+ * its type and 1-based line span in that text (outputStartLine marks the "Output:" line).
+ */
+function convertNotebook(rawContent) {
+  const notebook = JSON.parse(rawContent);
+  if (!notebook || !Array.isArray(notebook.cells)) {
+    throw new Error('Not a Jupyter notebook: missing cells');
+  }
+
+  const prefix = getCommentPrefix(notebook);
+  const comment = (line) => (line ? `${prefix} ${line}` : prefix);
+  const lines = [];
+  const cells = [];
+
+  notebook.cells.forEach((cell) => {
+    const type = ['markdown', 'code'].includes(cell.cell_type) ? cell.cell_type : 'raw';
+    const source = joinText(cell.source);
+    if (lines.length > 0) {
+      lines.push('');
+    }
+
+    const notebookCell = { type, startLine: lines.length + 1, endLine: 0 };
+    lines.push(type === 'code' ? `${prefix} %%` : `${prefix} %% [${type}]`);
+    if (source) {
+      const sourceLines = splitLines(source);
+      lines.push(...(type === 'code' ? sourceLines : sourceLines.map(comment)));
+    }
+
+    if (type === 'code') {
+      notebookCell.executionCount =
+        typeof cell.execution_count === 'number' ? cell.execution_count : null;
+      const outputLines = formatOutputs(cell.outputs);
+      if (outputLines.length > 0) {
+        notebookCell.outputStartLine = lines.length + 1;
+        lines.push(comment('Output:'), ...outputLines.map(comment));
+      }
+    }
+
+    notebookCell.endLine = lines.length;
+    cells.push(notebookCell);
+  });
+
+  return { content: lines.join('\n'), cells };
+}
+
+module.exports = {
+  isNotebookFile,
+  convertNotebook,
+};
@@ -59,6 +59,8 @@ contextBridge.exposeInMainWorld('electron', {
     const validChannels = [
       'folder-selected',
       'file-list-data',
+      'file-list-batch',
+      'file-list-complete',
       'file-processing-status',
       'startup-mode',
       'file-added',
@@ -96,6 +98,8 @@ contextBridge.exposeInMainWorld('electron', {
       const validChannels = [
         'folder-selected',
         'file-list-data',
+        'file-list-batch',
+        'file-list-complete',
         'file-processing-status',
         'startup-mode',
         'file-added',
@@ -113,6 +117,10 @@ contextBridge.exposeInMainWorld('electron', {
         'check-for-updates',
         'get-token-count',
         'fetch-models',
+        'export-content',
+        'set-tokenizer',
+        'rebuild-scan-cache',
+        'get-file-contents',
       ]; // Added 'fetch-models'
       if (validChannels.includes(channel)) {
         return ipcRenderer.invoke(channel, data);
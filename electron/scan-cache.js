@@ -0,0 +1,246 @@
+// Imports
+const { app } = require('electron');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { normalizePath } = require('./utils');
+
+// ======================
+// PERSISTENT SCAN CACHE
+// ======================
+// Scan results are kept on disk per root folder (under userData/scan-cache), so reopening
+// a folder only reads files whose size and modification time changed, and only
+// re-tokenizes those whose content hash changed too. Token counts are stored per
+// encoding, so a count is never reused for another tokenizer.
+
+const CACHE_FORMAT_VERSION = 2; // Bump when the entry layout or the token counting changes
+const MAX_ENTRIES_PER_ROOT = 200000;
+const MAX_CACHED_ROOTS = 30;
+const MAX_TOTAL_CACHE_SIZE = 200 * 1024 * 1024; // Bytes on disk across all roots
+const SAVE_DELAY = 5000; // ms, batches the updates made by the file watcher
+
+const loadedCaches = new Map(); // Cache file path -> the cache loaded from it most recently
+const pendingSaves = new Map(); // Cache file path -> { cache, timeoutId }
+
+function getCacheDir() {
+  return path.join(app.getPath('userData'), 'scan-cache');
+}
+
+function getCacheFilePath(rootDir) {
+  const rootHash = crypto.createHash('sha1').update(normalizePath(rootDir)).digest('hex');
+  return path.join(getCacheDir(), `${rootHash}.json`);
+}
+
+function hashContent(content) {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function createEmptyCache(rootDir) {
+  return { rootDir: normalizePath(rootDir), entries: new Map(), seen: new Set() };
+}
+
+/**
+ * Loads the scan cache of a root folder. A missing, unreadable or outdated cache
+ * file gives an empty cache.
+ * @returns {Promise<{ rootDir: string, entries: Map<string, object>, seen: Set<string> }>}
+ */
+async function loadScanCache(rootDir) {
+  const cache = createEmptyCache(rootDir);
+  loadedCaches.set(getCacheFilePath(rootDir), cache);
+  try {
+    const raw = await fs.promises.readFile(getCacheFilePath(rootDir), 'utf8');
+    const data = JSON.parse(raw);
+    if (data.version !== CACHE_FORMAT_VERSION || data.rootDir !== cache.rootDir) {
+      console.log(`[ScanCache] Discarding outdated cache for ${cache.rootDir}`);
+      return cache;
+    }
+    Object.entries(data.entries || {}).forEach(([relativePath, entry]) => {
+      cache.entries.set(relativePath, entry);
+    });
+    console.log(`[ScanCache] Loaded ${cache.entries.size} entries for ${cache.rootDir}`);
+  } catch (err) {
+    if (err.code !== 'ENOENT') {
+      console.warn(`[ScanCache] Could not load cache for ${cache.rootDir}:`, err.message);
+    }
+  }
+  return cache;
+}
+
+/**
+ * Looks up the cached entry of a file whose stat is unchanged.
+ * @param {fs.Stats} stats - The file's current stats
+ * @returns {object|null} The entry, as stored by setCachedEntry
+ */
+function getCachedEntry(cache, relativePath, stats) {
+  if (!cache) return null;
+  cache.seen.add(relativePath);
+  const entry = cache.entries.get(relativePath);
+  if (!entry || entry.size !== stats.size || entry.mtimeMs !== stats.mtimeMs) {
+    return null;
+  }
+  return entry;
+}
+
+/**
+ * Looks up the cached token counts of a text file by content hash, for files that were
+ * touched without changing (e.g. by a branch switch).
+ * @returns {{ tokenCounts: Record<string, number> | null, contentHash: string }}
+ */
+function getCachedTokenCounts(cache, relativePath, content) {
+  const contentHash = hashContent(content);
+  const previous = cache ? cache.entries.get(relativePath) : null;
+  const tokenCounts =
+    previous && previous.contentHash === contentHash && previous.tokenCounts
+      ? { ...previous.tokenCounts }
+      : null;
+  return { tokenCounts, contentHash };
+}
+
+/**
+ * Records a file's scan result in the cache
+ * @param {{ size: number, mtimeMs: number, isBinary: boolean, binaryOverride?: string,
+ *   binaryReason?: string, fileType?: string, textEncoding?: string,
+ *   hasSampleContent?: boolean, contentHash?: string, tokenCounts?: Record<string, number> }} entry
+ * `binaryOverride` is the override of the file's extension the decision was made with
+ */
+function setCachedEntry(cache, relativePath, entry) {
+  if (!cache) return;
+  cache.seen.add(relativePath);
+  if (!cache.entries.has(relativePath) && cache.entries.size >= MAX_ENTRIES_PER_ROOT) {
+    return;
+  }
+  cache.entries.set(relativePath, entry);
+}
+
+/**
+ * Adds token counts of another encoding to an entry, e.g. after the tokenizer changed
+ */
+function updateCachedTokenCounts(cache, relativePath, tokenCounts) {
+  const entry = cache ? cache.entries.get(relativePath) : null;
+  if (entry && !entry.isBinary) {
+    entry.tokenCounts = { ...entry.tokenCounts, ...tokenCounts };
+  }
+}
+
+function removeCachedEntry(cache, relativePath) {
+  if (cache) {
+    cache.entries.delete(relativePath);
+  }
+}
+
+/**
+ * Drops the entries of files that a complete scan did not come across
+ */
+function pruneUnseenEntries(cache) {
+  cache.entries.forEach((entry, relativePath) => {
+    if (!cache.seen.has(relativePath)) {
+      cache.entries.delete(relativePath);
+    }
+  });
+}
+
+// Removes the least recently written cache files beyond the size limits
+async function enforceCacheLimits() {
+  const cacheDir = getCacheDir();
+  const names = await fs.promises.readdir(cacheDir);
+  const files = [];
+  for (const name of names) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      const stats = await fs.promises.stat(path.join(cacheDir, name));
+      files.push({ name, size: stats.size, mtimeMs: stats.mtimeMs });
+    } catch {
+      /* removed in the meantime */
+    }
+  }
+
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  let totalSize = 0;
+  for (let i = 0; i < files.length; i++) {
+    totalSize += files[i].size;
+    if (i >= MAX_CACHED_ROOTS || totalSize > MAX_TOTAL_CACHE_SIZE) {
+      await fs.promises.rm(path.join(cacheDir, files[i].name), { force: true });
+      console.log(`[ScanCache] Evicted ${files[i].name} to stay within the cache limits`);
+    }
+  }
+}
+
+/**
+ * Writes the cache to disk, replacing the previous file in one step
+ */
+async function saveScanCache(cache) {
+  const filePath = getCacheFilePath(cache.rootDir);
+  const pending = pendingSaves.get(filePath);
+  if (pending) {
+    clearTimeout(pending.timeoutId);
+    pendingSaves.delete(filePath);
+  }
+
+  try {
+    await fs.promises.mkdir(getCacheDir(), { recursive: true });
+    const data = {
+      version: CACHE_FORMAT_VERSION,
+      rootDir: cache.rootDir,
+      updatedAt: Date.now(),
+      entries: Object.fromEntries(cache.entries),
+    };
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+    await enforceCacheLimits();
+  } catch (err) {
+    console.error(`[ScanCache] Could not save cache for ${cache.rootDir}:`, err);
+  }
+}
+
+/**
+ * Saves the cache after SAVE_DELAY, combining the updates made in the meantime
+ */
+function scheduleScanCacheSave(cache) {
+  if (!cache) return;
+  const filePath = getCacheFilePath(cache.rootDir);
+  if (pendingSaves.has(filePath)) return;
+  const timeoutId = setTimeout(() => saveScanCache(cache), SAVE_DELAY);
+  pendingSaves.set(filePath, { cache, timeoutId });
+}
+
+/**
+ * Saves every cache with a scheduled save right away (e.g. before quitting)
+ */
+async function flushScanCaches() {
+  const pending = Array.from(pendingSaves.values());
+  await Promise.all(pending.map(({ cache }) => saveScanCache(cache)));
+}
+
+/**
+ * Deletes the cache of a root folder, so its next scan reads and counts every file again
+ */
+async function deleteScanCache(rootDir) {
+  const filePath = getCacheFilePath(rootDir);
+  const pending = pendingSaves.get(filePath);
+  if (pending) {
+    clearTimeout(pending.timeoutId);
+    pendingSaves.delete(filePath);
+  }
+  // Empty the loaded cache too, so a later save cannot bring the old entries back
+  const loadedCache = loadedCaches.get(filePath);
+  if (loadedCache) {
+    loadedCache.entries.clear();
+  }
+  await fs.promises.rm(filePath, { force: true });
+  console.log(`[ScanCache] Deleted cache for ${normalizePath(rootDir)}`);
+}
+
+module.exports = {
+  loadScanCache,
+  getCachedEntry,
+  getCachedTokenCounts,
+  setCachedEntry,
+  updateCachedTokenCounts,
+  removeCachedEntry,
+  pruneUnseenEntries,
+  saveScanCache,
+  scheduleScanCacheSave,
+  flushScanCaches,
+  deleteScanCache,
+};
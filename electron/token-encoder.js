@@ -0,0 +1,58 @@
+// ======================
+// TIKTOKEN ENCODERS
+// ======================
+// Shared by the token worker threads and by the main process fallback
+// used when worker threads are unavailable.
+
+let tiktoken;
+try {
+  tiktoken = require('tiktoken');
+  console.log('Successfully loaded tiktoken module');
+} catch (err) {
+  console.error('Failed to load tiktoken module:', err);
+  tiktoken = null;
+}
+
+// Encoders by encoding name, created on first use (null when an encoding failed to load)
+const encoders = new Map();
+
+function getEncoder(encoding) {
+  if (!encoders.has(encoding)) {
+    try {
+      if (!tiktoken) {
+        throw new Error('Tiktoken module not available');
+      }
+      encoders.set(encoding, tiktoken.get_encoding(encoding));
+      console.log(`Tiktoken encoder ${encoding} initialized successfully`);
+    } catch (err) {
+      console.error(`Failed to initialize tiktoken encoder ${encoding}:`, err);
+      console.log('Using fallback token counter');
+      encoders.set(encoding, null);
+    }
+  }
+  return encoders.get(encoding);
+}
+
+/**
+ * Counts tokens with a single tiktoken encoding, falling back to an estimate
+ * based on text length when the encoder is unavailable.
+ */
+function countEncodingTokens(text, encoding) {
+  const encoder = getEncoder(encoding);
+  if (!encoder) {
+    return Math.ceil(text.length / 4);
+  }
+
+  try {
+    const cleanText = text.replace(/<\|endoftext\|>/g, '');
+    const tokens = encoder.encode(cleanText);
+    return tokens.length;
+  } catch (err) {
+    console.error('Error counting tokens:', err);
+    return Math.ceil(text.length / 4);
+  }
+}
+
+module.exports = {
+  countEncodingTokens,
+};
@@ -0,0 +1,204 @@
+// Imports
+const crypto = require('crypto');
+const os = require('os');
+const path = require('path');
+const { Worker } = require('worker_threads');
+const { countEncodingTokens: countEncodingTokensSync } = require('./token-encoder');
+
+// ======================
+// TOKEN WORKER POOL
+// ======================
+// Tokenizing runs on worker threads so big scans don't block the main process.
+// Counts are cached by content hash. Texts are always encoded in one piece: tokens merge
+// across any split point, so summing the counts of parts would not be exact.
+
+const POOL_SIZE = Math.max(1, Math.min(os.cpus().length - 1, 4));
+const MAX_CACHE_ENTRIES = 50000;
+
+class TokenizationCancelledError extends Error {
+  constructor() {
+    super('Tokenization cancelled');
+    this.name = 'TokenizationCancelledError';
+  }
+}
+
+const tokenCountCache = new Map(); // `${encoding}:${sha1}` -> count, least recently used first
+const inFlightCounts = new Map(); // Same keys -> the task counting it, so identical texts are counted once
+const queue = []; // Tasks waiting for a free worker: { id, key, text, encoding, waiters }
+const workers = []; // { worker, task, completedTasks }
+let nextTaskId = 0;
+let workersUnavailable = false; // Set when workers cannot start; tasks then run on the main thread
+let isShuttingDown = false;
+
+function createWorker() {
+  const entry = {
+    worker: new Worker(path.join(__dirname, 'token-worker.js')),
+    task: null,
+    completedTasks: 0,
+  };
+
+  entry.worker.on('message', ({ id, count }) => {
+    const task = entry.task;
+    entry.task = null;
+    entry.completedTasks++;
+    if (task && task.id === id) {
+      settleTask(task, count);
+    }
+    runQueuedTasks();
+  });
+
+  entry.worker.on('error', (err) => {
+    console.error('[TokenPool] Worker error:', err);
+    if (entry.completedTasks === 0) {
+      // The worker could not even start (e.g. tiktoken failed to load in it)
+      workersUnavailable = true;
+    }
+    const task = entry.task;
+    entry.task = null;
+    if (task && task.retried) {
+      // Failed on two workers, so count it here rather than crash another one
+      settleTask(task, countEncodingTokensSync(task.text, task.encoding));
+    } else if (task) {
+      task.retried = true;
+      queue.unshift(task);
+    }
+  });
+
+  entry.worker.on('exit', () => {
+    const index = workers.indexOf(entry);
+    if (index !== -1) {
+      workers.splice(index, 1);
+    }
+    if (!isShuttingDown) {
+      runQueuedTasks();
+    }
+  });
+
+  return entry;
+}
+
+function ensureWorkers() {
+  if (workersUnavailable || isShuttingDown) return;
+  try {
+    while (workers.length < POOL_SIZE) {
+      workers.push(createWorker());
+    }
+  } catch (err) {
+    console.error('[TokenPool] Could not start token workers, counting on the main thread:', err);
+    workersUnavailable = true;
+  }
+}
+
+/**
+ * Hands queued tasks to idle workers, or counts them on the main thread
+ * when no workers are available.
+ */
+function runQueuedTasks() {
+  ensureWorkers();
+
+  if (workersUnavailable) {
+    while (queue.length > 0) {
+      const task = queue.shift();
+      settleTask(task, countEncodingTokensSync(task.text, task.encoding));
+    }
+    return;
+  }
+
+  workers.forEach((entry) => {
+    if (entry.task || queue.length === 0) return;
+    const task = queue.shift();
+    entry.task = task;
+    entry.worker.postMessage({ id: task.id, text: task.text, encoding: task.encoding });
+  });
+}
+
+function getCacheKey(text, encoding) {
+  return `${encoding}:${crypto.createHash('sha1').update(text).digest('hex')}`;
+}
+
+function cacheCount(key, count) {
+  tokenCountCache.delete(key);
+  tokenCountCache.set(key, count);
+  if (tokenCountCache.size > MAX_CACHE_ENTRIES) {
+    tokenCountCache.delete(tokenCountCache.keys().next().value);
+  }
+}
+
+// Caches a task's count and hands it to everyone waiting for it
+function settleTask(task, count) {
+  inFlightCounts.delete(task.key);
+  cacheCount(task.key, count);
+  task.waiters.forEach((waiter) => waiter.resolve(count));
+}
+
+/**
+ * Counts the tokens of a text with one encoding on the worker pool, cached by content hash.
+ * Callers counting the same text share one task, each with their own tag.
+ * @param {string} text - The text to count
+ * @param {string} encoding - The tiktoken encoding name
+ * @param {{ tag?: string }} [options] - Tagged counts can be cancelled together with `cancelTokenTasks`
+ * @returns {Promise<number>} Rejects with `TokenizationCancelledError` when cancelled
+ */
+function countEncodingTokens(text, encoding, { tag } = {}) {
+  if (!text) {
+    return Promise.resolve(0);
+  }
+
+  const key = getCacheKey(text, encoding);
+  if (tokenCountCache.has(key)) {
+    const count = tokenCountCache.get(key);
+    cacheCount(key, count); // Mark as recently used
+    return Promise.resolve(count);
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter = { tag, resolve, reject };
+    const inFlightTask = inFlightCounts.get(key);
+    if (inFlightTask) {
+      inFlightTask.waiters.push(waiter);
+      return;
+    }
+    const task = { id: nextTaskId++, key, text, encoding, waiters: [waiter] };
+    inFlightCounts.set(key, task);
+    queue.push(task);
+    runQueuedTasks();
+  });
+}
+
+/**
+ * Rejects the counts with the given tag. Other callers waiting for the same text still get
+ * their count; a queued task nobody waits for anymore is dropped.
+ */
+function cancelTokenTasks(tag) {
+  inFlightCounts.forEach((task) => {
+    const cancelled = task.waiters.filter((waiter) => waiter.tag === tag);
+    if (cancelled.length === 0) return;
+    task.waiters = task.waiters.filter((waiter) => waiter.tag !== tag);
+    cancelled.forEach((waiter) => waiter.reject(new TokenizationCancelledError()));
+
+    const queueIndex = queue.indexOf(task);
+    if (task.waiters.length === 0 && queueIndex !== -1) {
+      queue.splice(queueIndex, 1);
+      inFlightCounts.delete(task.key);
+    }
+  });
+}
+
+/**
+ * Stops the worker threads, rejecting any queued tasks
+ */
+async function shutdownTokenPool() {
+  isShuttingDown = true;
+  queue.splice(0).forEach((task) => {
+    inFlightCounts.delete(task.key);
+    task.waiters.forEach((waiter) => waiter.reject(new TokenizationCancelledError()));
+  });
+  await Promise.all(workers.map((entry) => entry.worker.terminate()));
+}
+
+module.exports = {
+  countEncodingTokens,
+  cancelTokenTasks,
+  shutdownTokenPool,
+  TokenizationCancelledError,
+};
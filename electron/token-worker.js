@@ -0,0 +1,7 @@
+// Worker thread that counts tokens for the token pool (see token-pool.js)
+const { parentPort } = require('worker_threads');
+const { countEncodingTokens } = require('./token-encoder');
+
+parentPort.on('message', ({ id, text, encoding }) => {
+  parentPort.postMessage({ id, count: countEncodingTokens(text, encoding) });
+});
@@ -4,34 +4,45 @@ const { debounce } = require('lodash');
 const { normalizePath, safeRelativePath } = require('./utils.js');
 const { removeFileCacheEntry } = require('./file-processor.js'); // Changed import
 
-let currentWatcher = null;
-let changeDebounceMap = new Map();
+// One watcher per root folder of the workspace, keyed by normalized root folder
+const watchers = new Map(); // rootDir -> { watcher, changeDebounceMap }
 
-async function shutdownWatcher() {
-  if (!currentWatcher) return;
+async function shutdownRootWatcher(rootKey) {
+  const entry = watchers.get(rootKey);
+  if (!entry) return;
+  watchers.delete(rootKey);
 
-  console.log('[WatcherModule] Attempting to stop existing watcher...');
+  console.log(`[WatcherModule] Attempting to stop existing watcher for: ${rootKey}`);
 
   try {
-    await currentWatcher.close();
+    await entry.watcher.close();
     console.log('[WatcherModule] Existing watcher stopped successfully.');
   } catch (error) {
     console.error('[WatcherModule] Error stopping watcher:', error);
   } finally {
-    changeDebounceMap.clear();
-    currentWatcher = null;
+    entry.changeDebounceMap.clear();
   }
 }
 
+/**
+ * Stops the watcher of a root folder, or every watcher when no root folder is given
+ * @param {string} [rootDir]
+ */
+async function shutdownWatcher(rootDir) {
+  const rootKeys = rootDir ? [normalizePath(rootDir)] : Array.from(watchers.keys());
+  await Promise.all(rootKeys.map(shutdownRootWatcher));
+}
+
 async function initializeWatcher(
   rootDir, // Parameter name is rootDir
   window,
   ignoreFilter,
   defaultIgnoreFilterInstance,
-  processSingleFileCallback
+  processSingleFileCallback,
+  { followSymlinks = true } = {} // Whether linked directories are watched, as the scan follows them
 ) {
-  // Shutdown existing watcher (Checklist Item 36)
-  await shutdownWatcher();
+  // Shutdown existing watcher of this root folder (Checklist Item 36)
+  await shutdownWatcher(rootDir);
 
   // Logging start attempt (Checklist Item 38)
   console.log(`[WatcherModule] Attempting to start watcher for folder: ${rootDir}`);
@@ -71,6 +82,7 @@ async function initializeWatcher(
     // Set other options (Checklist Items 50-52)
     ignoreInitial: true,
     persistent: true,
+    followSymlinks,
     awaitWriteFinish: {
       stabilityThreshold: 2000,
       pollInterval: 100,
@@ -78,14 +90,15 @@ async function initializeWatcher(
   };
 
   // Instantiate watcher (Checklist Item 54)
+  let currentWatcher;
+  const changeDebounceMap = new Map();
   try {
     currentWatcher = chokidar.watch(rootDir, watcherOptions);
   } catch (error) {
     console.error('[WatcherModule] Chokidar watch instantiation failed:', error);
-    currentWatcher = null;
-    await shutdownWatcher();
     return;
   }
+  watchers.set(normalizePath(rootDir), { watcher: currentWatcher, changeDebounceMap });
 
   // Error event handler (Checklist Item 56)
   currentWatcher.on('error', (error) => {
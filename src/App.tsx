@@ -1,14 +1,16 @@
 /* ============================== IMPORTS ============================== */
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import ConfirmUseFolderModal from './components/ConfirmUseFolderModal';
 import Sidebar from './components/Sidebar';
 import FileList from './components/FileList';
-import { FileData, IgnoreMode } from './types/FileTypes';
+import TokenTreemap from './components/TokenTreemap';
+import { FileData, FileListBatch, FileListComplete, IgnoreMode } from './types/FileTypes';
 import { ThemeProvider } from './context/ThemeContext';
 import IgnoreListModal from './components/IgnoreListModal';
 import ThemeToggle from './components/ThemeToggle';
 import UpdateModal from './components/UpdateModal';
 import { useIgnorePatterns } from './hooks/useIgnorePatterns';
+import { useFileContents } from './hooks/useFileContents';
 import UserInstructions from './components/UserInstructions';
 import { STORAGE_KEY_TASK_TYPE } from './types/TaskTypes';
 import {
@@ -19,6 +21,12 @@ import {
   XCircle,
   RefreshCw,
   FilterX,
+  Layers,
+  FileCode,
+  Save,
+  FileDown,
+  LayoutGrid,
+  FolderPlus,
 } from 'lucide-react';
 import CustomTaskTypeModal from './components/CustomTaskTypeModal';
 import TaskTypeSelector from './components/TaskTypeSelector';
@@ -27,21 +35,71 @@ import { Workspace } from './types/WorkspaceTypes';
 import CopyHistoryModal, { CopyHistoryItem } from './components/CopyHistoryModal';
 import CopyHistoryButton from './components/CopyHistoryButton';
 import ModelDropdown from './components/ModelDropdown';
+import FitToBudgetModal from './components/FitToBudgetModal';
+import MultiPartCopyModal from './components/MultiPartCopyModal';
+import SecretReviewModal from './components/SecretReviewModal';
+import TemplateEditorModal from './components/TemplateEditorModal';
 import ToggleSwitch from './components/base/ToggleSwitch';
 
 /**
  * Import path utilities for handling file paths across different operating systems.
  * While not all utilities are used directly, they're kept for consistency and future use.
  */
-import { normalizePath, arePathsEqual, isSubPath, join, dirname } from './utils/pathUtils';
+import {
+  normalizePath,
+  arePathsEqual,
+  getPathKey,
+  isSubPath,
+  join,
+  dirname,
+  basename,
+  replaceExtension,
+} from './utils/pathUtils';
 
 /**
  * Import utility functions for content formatting and language detection.
  * The contentFormatUtils module handles content assembly and applies language detection
  * via the languageUtils module internally.
  */
-import { formatBaseFileContent, formatUserInstructionsBlock } from './utils/contentFormatUtils';
+import {
+  assembleContent,
+  buildFormatContext,
+  prepareFileContent,
+  needsFilePreparation,
+} from './utils/contentFormatUtils';
+import { OUTPUT_FORMATS, getOutputFormat, isOutputFormatId } from './utils/outputFormatUtils';
+import { splitContentIntoParts } from './utils/multiPartUtils';
+import { DEFAULT_TOKENIZER, describeTokenizer, getTokenizerForModel } from './utils/tokenizerUtils';
+import { estimateCost } from './utils/costUtils';
+import { overlapsWorkspaceRoots } from './utils/workspaceUtils';
+import { formatLineRanges, normalizeLineRanges, parseLineRangeInput } from './utils/lineRangeUtils';
+import {
+  scanCopyContent,
+  scanFileForSecrets,
+  redactSecrets,
+  redactFormatContext,
+} from './utils/secretScanUtils';
 import type { UpdateDisplayState } from './types/UpdateTypes';
+import { ModelInfo } from './types/ModelTypes';
+import { DEFAULT_EXPECTED_OUTPUT_TOKENS } from './types/CostTypes';
+import {
+  ContentPart,
+  DEFAULT_PART_TOKEN_LIMIT,
+  MIN_PART_TOKEN_LIMIT,
+} from './types/MultiPartTypes';
+import { CompressionOptions, DEFAULT_COMPRESSION_OPTIONS } from './types/CompressionTypes';
+import { FileInclusionMode } from './types/OutlineTypes';
+import { LineRange } from './types/LineRangeTypes';
+import { SecretFinding } from './types/SecretTypes';
+import { OutputTemplate } from './types/TemplateTypes';
+import { TokenizerStrategy } from './types/TokenizerTypes';
+import {
+  InstructionPlacement,
+  OutputFormatContext,
+  OutputFormatId,
+  DEFAULT_INSTRUCTION_PLACEMENT,
+  DEFAULT_OUTPUT_FORMAT,
+} from './types/OutputFormatTypes';
 
 /* ============================== GLOBAL DECLARATIONS ============================== */
 
@@ -52,6 +110,7 @@ import type { UpdateDisplayState } from './types/UpdateTypes';
  */
 const STORAGE_KEYS = {
   SELECTED_FOLDER: 'pastemax-selected-folder',
+  EXTRA_FOLDERS: 'pastemax-extra-folders',
   SELECTED_FILES: 'pastemax-selected-files',
   SORT_ORDER: 'pastemax-sort-order',
   SEARCH_TERM: 'pastemax-search-term',
@@ -59,10 +118,24 @@ const STORAGE_KEYS = {
   IGNORE_MODE: 'pastemax-ignore-mode',
   IGNORE_SETTINGS_MODIFIED: 'pastemax-ignore-settings-modified',
   INCLUDE_BINARY_PATHS: 'pastemax-include-binary-paths',
+  INCLUDE_LINE_NUMBERS: 'pastemax-include-line-numbers',
+  SHOW_TREE_TOKEN_COUNTS: 'pastemax-show-tree-token-counts',
+  SHOW_OMITTED_FILES: 'pastemax-show-omitted-files',
+  COMPRESSION_OPTIONS: 'pastemax-compression-options',
+  FILE_MODES: 'pastemax-file-modes',
+  LINE_RANGES: 'pastemax-line-ranges',
   TASK_TYPE: STORAGE_KEY_TASK_TYPE,
   WORKSPACES: 'pastemax-workspaces',
   CURRENT_WORKSPACE: 'pastemax-current-workspace',
   COPY_HISTORY: 'pastemax-copy-history',
+  EXPORT_PATHS: 'pastemax-export-paths',
+  OUTPUT_FORMAT: 'pastemax-output-format',
+  PINNED_FILES: 'pastemax-pinned-files',
+  PART_TOKEN_LIMIT: 'pastemax-part-token-limit',
+  OUTPUT_TEMPLATES: 'pastemax-output-templates',
+  ACTIVE_TEMPLATE: 'pastemax-active-template',
+  INSTRUCTION_PLACEMENT: 'pastemax-instruction-placement',
+  EXPECTED_OUTPUT_TOKENS: 'pastemax-expected-output-tokens',
 };
 
 /* ============================== MAIN APP COMPONENT ============================== */
@@ -77,9 +150,11 @@ const STORAGE_KEYS = {
 const App = (): JSX.Element => {
   /* ============================== STATE: Load initial state from localStorage ============================== */
   const savedFolder = localStorage.getItem(STORAGE_KEYS.SELECTED_FOLDER);
+  const savedExtraFolders = localStorage.getItem(STORAGE_KEYS.EXTRA_FOLDERS);
   const savedFiles = localStorage.getItem(STORAGE_KEYS.SELECTED_FILES);
   const savedSortOrder = localStorage.getItem(STORAGE_KEYS.SORT_ORDER);
   const savedSearchTerm = localStorage.getItem(STORAGE_KEYS.SEARCH_TERM);
+  const savedPinnedFiles = localStorage.getItem(STORAGE_KEYS.PINNED_FILES);
   // const savedTaskType = localStorage.getItem(STORAGE_KEYS.TASK_TYPE); // Removed this line
   // const savedIgnoreMode = localStorage.getItem(STORAGE_KEYS.IGNORE_MODE); no longer needed
 
@@ -87,6 +162,14 @@ const App = (): JSX.Element => {
   const [selectedFolder, setSelectedFolder] = useState(
     savedFolder ? normalizePath(savedFolder) : null
   );
+  // More root folders of a multi-root workspace, scanned and shown after the selected folder
+  const [extraFolders, setExtraFolders] = useState(
+    (savedExtraFolders ? JSON.parse(savedExtraFolders).map(normalizePath) : []) as string[]
+  );
+  const rootFolders = useMemo(
+    () => (selectedFolder ? [selectedFolder, ...extraFolders] : []),
+    [selectedFolder, extraFolders]
+  );
   const isElectron = window.electron !== undefined;
   const [allFiles, setAllFiles] = useState([] as FileData[]);
 
@@ -140,6 +223,8 @@ const App = (): JSX.Element => {
     closeIgnoreViewer,
     ignoreMode,
     customIgnores,
+    binaryOverrides,
+    symlinkMode,
     ignoreSettingsModified,
     resetIgnoreSettingsModified,
   } = useIgnorePatterns(selectedFolder, isElectron);
@@ -148,7 +233,16 @@ const App = (): JSX.Element => {
   const [selectedFiles, setSelectedFiles] = useState(
     (savedFiles ? JSON.parse(savedFiles).map(normalizePath) : []) as string[]
   );
+  const [pinnedFiles, setPinnedFiles] = useState(
+    (savedPinnedFiles ? JSON.parse(savedPinnedFiles).map(normalizePath) : []) as string[]
+  );
   const [sortOrder, setSortOrder] = useState(savedSortOrder || 'tokens-desc');
+
+  /* ============================== STATE: File Contents ============================== */
+  // The scan sends metadata only; the content of selected files is loaded on demand
+  const { filesWithContent, isLoadingFileContents, invalidateFileContent, clearFileContents } =
+    useFileContents(allFiles, selectedFiles, isElectron);
+
   const [searchTerm, setSearchTerm] = useState(savedSearchTerm || '');
   const [expandedNodes, setExpandedNodes] = useState({} as Record<string, boolean>);
   const [selectedFolderNode, setSelectedFolderNode] = useState<string | null>(null);
@@ -167,9 +261,91 @@ const App = (): JSX.Element => {
   const [includeBinaryPaths, setIncludeBinaryPaths] = useState(
     localStorage.getItem(STORAGE_KEYS.INCLUDE_BINARY_PATHS) === 'true'
   );
+  const [includeLineNumbers, setIncludeLineNumbers] = useState(
+    localStorage.getItem(STORAGE_KEYS.INCLUDE_LINE_NUMBERS) === 'true'
+  );
+  const [showTreeTokenCounts, setShowTreeTokenCounts] = useState(
+    localStorage.getItem(STORAGE_KEYS.SHOW_TREE_TOKEN_COUNTS) === 'true'
+  );
+  const [showOmittedFiles, setShowOmittedFiles] = useState(
+    localStorage.getItem(STORAGE_KEYS.SHOW_OMITTED_FILES) === 'true'
+  );
+  const [compressionOptions, setCompressionOptions] = useState(() => {
+    const savedOptions = localStorage.getItem(STORAGE_KEYS.COMPRESSION_OPTIONS);
+    if (savedOptions) {
+      try {
+        return {
+          ...DEFAULT_COMPRESSION_OPTIONS,
+          ...JSON.parse(savedOptions),
+        } as CompressionOptions;
+      } catch {
+        return DEFAULT_COMPRESSION_OPTIONS;
+      }
+    }
+    return DEFAULT_COMPRESSION_OPTIONS;
+  });
+  // Per-file full/outline inclusion mode, keyed by file path (missing means full)
+  const [fileModes, setFileModes] = useState(() => {
+    const savedModes = localStorage.getItem(STORAGE_KEYS.FILE_MODES);
+    if (savedModes) {
+      try {
+        return JSON.parse(savedModes) as Record<string, FileInclusionMode>;
+      } catch {
+        return {} as Record<string, FileInclusionMode>;
+      }
+    }
+    return {} as Record<string, FileInclusionMode>;
+  });
+  // Line ranges of partially included files, keyed by file path (missing means the whole file)
+  const [lineRanges, setLineRanges] = useState(() => {
+    const savedRanges = localStorage.getItem(STORAGE_KEYS.LINE_RANGES);
+    if (savedRanges) {
+      try {
+        return JSON.parse(savedRanges) as Record<string, LineRange[]>;
+      } catch {
+        return {} as Record<string, LineRange[]>;
+      }
+    }
+    return {} as Record<string, LineRange[]>;
+  });
+  // Token counts of selected files after outline mode and compression, keyed by file path
+  const [adjustedTokenCounts, setAdjustedTokenCounts] = useState({} as Record<string, number>);
+  const [outputFormat, setOutputFormat] = useState(() => {
+    const savedFormat = localStorage.getItem(STORAGE_KEYS.OUTPUT_FORMAT);
+    return (isOutputFormatId(savedFormat) ? savedFormat : DEFAULT_OUTPUT_FORMAT) as OutputFormatId;
+  });
+  const [instructionPlacement, setInstructionPlacement] = useState(() => {
+    const savedPlacement = localStorage.getItem(STORAGE_KEYS.INSTRUCTION_PLACEMENT);
+    return (
+      savedPlacement === 'top' || savedPlacement === 'bottom' || savedPlacement === 'both'
+        ? savedPlacement
+        : DEFAULT_INSTRUCTION_PLACEMENT
+    ) as InstructionPlacement;
+  });
+  // User-defined output templates; the active one replaces the output format when set
+  const [outputTemplates, setOutputTemplates] = useState(() => {
+    const savedTemplates = localStorage.getItem(STORAGE_KEYS.OUTPUT_TEMPLATES);
+    if (savedTemplates) {
+      try {
+        return JSON.parse(savedTemplates) as OutputTemplate[];
+      } catch {
+        return [] as OutputTemplate[];
+      }
+    }
+    return [] as OutputTemplate[];
+  });
+  const [activeTemplateId, setActiveTemplateId] = useState(
+    () => localStorage.getItem(STORAGE_KEYS.ACTIVE_TEMPLATE) || null
+  );
+  const activeTemplate = useMemo(
+    () =>
+      outputTemplates.find((template: OutputTemplate) => template.id === activeTemplateId) || null,
+    [outputTemplates, activeTemplateId]
+  );
 
   /* ============================== STATE: UI Controls ============================== */
   const [sortDropdownOpen, setSortDropdownOpen] = useState(false);
+  const [showTreemap, setShowTreemap] = useState(false);
   const [isSafeMode, setIsSafeMode] = useState(false);
   const [selectedTaskType, setSelectedTaskType] = useState('');
   const [isCustomTaskTypeModalOpen, setIsCustomTaskTypeModalOpen] = useState(false);
@@ -177,8 +353,8 @@ const App = (): JSX.Element => {
   /* ============================== STATE: User Instructions ============================== */
   const [userInstructions, setUserInstructions] = useState('');
   const [totalFormattedContentTokens, setTotalFormattedContentTokens] = useState(0);
-  const [cachedBaseContentString, setCachedBaseContentString] = useState('');
-  const [cachedBaseContentTokens, setCachedBaseContentTokens] = useState(0);
+  // Selected files prepared for copying, cached so only the layout is redone per keystroke
+  const [formatContext, setFormatContext] = useState(null as OutputFormatContext | null);
   /**
    * State variable used to trigger data re-fetching when its value changes.
    * The `reloadTrigger` is incremented whenever a refresh of the file list or
@@ -202,10 +378,65 @@ const App = (): JSX.Element => {
   });
   const [isCopyHistoryModalOpen, setIsCopyHistoryModalOpen] = useState(false);
 
+  /* ============================== STATE: Export ============================== */
+  // Last export path per workspace (or per folder outside a workspace), for one-click re-export
+  const [exportPaths, setExportPaths] = useState(() => {
+    const savedPaths = localStorage.getItem(STORAGE_KEYS.EXPORT_PATHS);
+    if (savedPaths) {
+      try {
+        return JSON.parse(savedPaths) as Record<string, string>;
+      } catch {
+        return {} as Record<string, string>;
+      }
+    }
+    return {} as Record<string, string>;
+  });
+
+  /* ============================== STATE: Multi-Part Copy ============================== */
+  const [isMultiPartModalOpen, setIsMultiPartModalOpen] = useState(false);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const [partTokenLimit, setPartTokenLimit] = useState(() => {
+    const savedLimit = parseInt(localStorage.getItem(STORAGE_KEYS.PART_TOKEN_LIMIT) || '', 10);
+    return isNaN(savedLimit) ? DEFAULT_PART_TOKEN_LIMIT : savedLimit;
+  });
+  // Limit the parts are sized for, lowered when a counted part turns out over the real limit
+  const [partSizingLimit, setPartSizingLimit] = useState(partTokenLimit);
+  // Token counts of the current parts, once counted with the selected model's tokenizer
+  const [partTokenCounts, setPartTokenCounts] = useState(null as number[] | null);
+
+  /* ============================== STATE: Fit To Budget ============================== */
+  const [fitBudgetModel, setFitBudgetModel] = useState(null as ModelInfo | null);
+  const [secretReview, setSecretReview] = useState(
+    null as {
+      findings: SecretFinding[];
+      render: (findingsToRedact: SecretFinding[]) => string; // Output with the findings redacted
+      resolve: (content: string | null) => void; // Receives the output, or null when cancelled
+      actionLabel: string;
+    } | null
+  );
+
   const [selectedModelId, setSelectedModelId] = useState(() => {
     const savedModelId = localStorage.getItem('pastemax-selected-model');
     return savedModelId || '';
   });
+  const tokenizer = useMemo(() => getTokenizerForModel(selectedModelId), [selectedModelId]);
+  // Tokenizer the current token counts were made with, once the main process has switched
+  const [countedTokenizer, setCountedTokenizer] = useState(DEFAULT_TOKENIZER as TokenizerStrategy);
+
+  /* ============================== STATE: Cost Estimate ============================== */
+  // Info (including pricing) of the selected model, reported by the model dropdown
+  const [selectedModelInfo, setSelectedModelInfo] = useState(undefined as ModelInfo | undefined);
+  const [expectedOutputTokens, setExpectedOutputTokens] = useState(() => {
+    const savedTokens = parseInt(
+      localStorage.getItem(STORAGE_KEYS.EXPECTED_OUTPUT_TOKENS) || '',
+      10
+    );
+    return isNaN(savedTokens) ? DEFAULT_EXPECTED_OUTPUT_TOKENS : savedTokens;
+  });
+  const costEstimate = useMemo(
+    () => estimateCost(selectedModelInfo, totalFormattedContentTokens, expectedOutputTokens),
+    [selectedModelInfo, totalFormattedContentTokens, expectedOutputTokens]
+  );
 
   // Utility function to clear all saved state and reset the app
   const clearSavedState = useCallback(() => {
@@ -215,7 +446,12 @@ const App = (): JSX.Element => {
       STORAGE_KEYS.IGNORE_MODE,
       STORAGE_KEYS.IGNORE_SETTINGS_MODIFIED,
       STORAGE_KEYS.WORKSPACES,
+      STORAGE_KEYS.EXPORT_PATHS,
       STORAGE_KEYS.TASK_TYPE,
+      STORAGE_KEYS.OUTPUT_FORMAT,
+      STORAGE_KEYS.OUTPUT_TEMPLATES,
+      STORAGE_KEYS.ACTIVE_TEMPLATE,
+      STORAGE_KEYS.INSTRUCTION_PLACEMENT,
     ];
 
     Object.values(STORAGE_KEYS).forEach((key) => {
@@ -229,8 +465,12 @@ const App = (): JSX.Element => {
 
     // Reset all state to initial values
     setSelectedFolder(null);
+    setExtraFolders([]);
     setAllFiles([]);
     setSelectedFiles([]);
+    setPinnedFiles([]);
+    setFileModes({});
+    setLineRanges({});
     setDisplayedFiles([]);
     setSearchTerm('');
     setSortOrder('tokens-desc');
@@ -302,11 +542,31 @@ const App = (): JSX.Element => {
     }
   }, [selectedFolder]);
 
+  // Persist the extra root folders when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.EXTRA_FOLDERS, JSON.stringify(extraFolders));
+  }, [extraFolders]);
+
   // Persist selected files when they change
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.SELECTED_FILES, JSON.stringify(selectedFiles));
   }, [selectedFiles]);
 
+  // Persist multi-part token limit when it changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PART_TOKEN_LIMIT, String(partTokenLimit));
+  }, [partTokenLimit]);
+
+  // Persist expected output tokens when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.EXPECTED_OUTPUT_TOKENS, String(expectedOutputTokens));
+  }, [expectedOutputTokens]);
+
+  // Persist pinned files when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PINNED_FILES, JSON.stringify(pinnedFiles));
+  }, [pinnedFiles]);
+
   // Persist sort order when it changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.SORT_ORDER, sortOrder);
@@ -327,6 +587,76 @@ const App = (): JSX.Element => {
     localStorage.setItem(STORAGE_KEYS.INCLUDE_BINARY_PATHS, String(includeBinaryPaths));
   }, [includeBinaryPaths]);
 
+  // Persist includeLineNumbers when it changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.INCLUDE_LINE_NUMBERS, String(includeLineNumbers));
+  }, [includeLineNumbers]);
+
+  // Persist file tree options when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.SHOW_TREE_TOKEN_COUNTS, String(showTreeTokenCounts));
+  }, [showTreeTokenCounts]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.SHOW_OMITTED_FILES, String(showOmittedFiles));
+  }, [showOmittedFiles]);
+
+  // Persist compression options when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.COMPRESSION_OPTIONS, JSON.stringify(compressionOptions));
+  }, [compressionOptions]);
+
+  // Persist file inclusion modes when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.FILE_MODES, JSON.stringify(fileModes));
+  }, [fileModes]);
+
+  // Persist line ranges when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.LINE_RANGES, JSON.stringify(lineRanges));
+  }, [lineRanges]);
+
+  // Forget the line ranges of files that are no longer selected
+  useEffect(() => {
+    setLineRanges((prev: Record<string, LineRange[]>) => {
+      const stalePaths = Object.keys(prev).filter(
+        (path: string) => !selectedFiles.some((selected: string) => arePathsEqual(selected, path))
+      );
+      if (stalePaths.length === 0) return prev;
+      const updated = { ...prev };
+      stalePaths.forEach((path: string) => delete updated[path]);
+      return updated;
+    });
+  }, [selectedFiles]);
+
+  // Persist export paths when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.EXPORT_PATHS, JSON.stringify(exportPaths));
+  }, [exportPaths]);
+
+  // Persist output format when it changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.OUTPUT_FORMAT, outputFormat);
+  }, [outputFormat]);
+
+  // Persist instruction placement when it changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.INSTRUCTION_PLACEMENT, instructionPlacement);
+  }, [instructionPlacement]);
+
+  // Persist output templates and the active template when they change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.OUTPUT_TEMPLATES, JSON.stringify(outputTemplates));
+  }, [outputTemplates]);
+
+  useEffect(() => {
+    if (activeTemplateId) {
+      localStorage.setItem(STORAGE_KEYS.ACTIVE_TEMPLATE, activeTemplateId);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.ACTIVE_TEMPLATE);
+    }
+  }, [activeTemplateId]);
+
   // Persist task type when it changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.TASK_TYPE, selectedTaskType);
@@ -387,7 +717,7 @@ const App = (): JSX.Element => {
   /**
    * Effect hook for loading file list data when dependencies change.
    * Handles debouncing requests and prevents duplicate requests when ignoreSettingsModified is reset.
-   * @dependencies selectedFolder, isElectron, isSafeMode, ignoreMode, customIgnores, ignoreSettingsModified, reloadTrigger
+   * @dependencies selectedFolder, rootFolders, isElectron, isSafeMode, ignoreMode, customIgnores, binaryOverrides, symlinkMode, ignoreSettingsModified, reloadTrigger
    */
   useEffect(() => {
     if (!isElectron || !selectedFolder || isSafeMode) {
@@ -418,16 +748,20 @@ const App = (): JSX.Element => {
 
     const timer = setTimeout(() => {
       console.log('[useEffect] Sending request-file-list with payload:', {
-        folderPath: selectedFolder,
+        folderPaths: rootFolders,
         ignoreMode,
         customIgnores,
+        binaryOverrides,
+        symlinkMode,
         ignoreSettingsModified, // Send the current state
       });
       lastSentIgnoreSettingsModifiedRef.current = ignoreSettingsModified;
       window.electron.ipcRenderer.send('request-file-list', {
-        folderPath: selectedFolder,
+        folderPaths: rootFolders,
         ignoreMode,
         customIgnores,
+        binaryOverrides,
+        symlinkMode,
         ignoreSettingsModified, // Send the current state
       });
       // Reset ignoreSettingsModified *after* sending the request that uses it.
@@ -442,10 +776,13 @@ const App = (): JSX.Element => {
     };
   }, [
     selectedFolder,
+    rootFolders,
     isElectron,
     isSafeMode,
     ignoreMode,
     customIgnores,
+    binaryOverrides,
+    symlinkMode,
     ignoreSettingsModified,
     reloadTrigger,
     resetIgnoreSettingsModified,
@@ -485,9 +822,11 @@ const App = (): JSX.Element => {
       // Update state - main data loading is handled by separate useEffect
       setSelectedFolder(normalizedFolderPath);
 
-      // Clear selections if folder changed
-      if (!arePathsEqual(normalizedFolderPath, selectedFolder)) {
+      // Clear selections and the other root folders if folder changed
+      const isNewFolder = !arePathsEqual(normalizedFolderPath, selectedFolder);
+      if (isNewFolder) {
         setSelectedFiles([]);
+        setExtraFolders([]);
       }
 
       // Update current workspace's folder path if a workspace is active
@@ -495,7 +834,12 @@ const App = (): JSX.Element => {
         setWorkspaces((prevWorkspaces: Workspace[]) => {
           const updatedWorkspaces = prevWorkspaces.map((workspace: Workspace) =>
             workspace.id === currentWorkspaceId
-              ? { ...workspace, folderPath: normalizedFolderPath, lastUsed: Date.now() }
+              ? {
+                  ...workspace,
+                  folderPath: normalizedFolderPath,
+                  ...(isNewFolder && { extraFolderPaths: [] }),
+                  lastUsed: Date.now(),
+                }
               : workspace
           );
           // Save to localStorage
@@ -507,8 +851,56 @@ const App = (): JSX.Element => {
     [selectedFolder, allFiles, processingStatus, currentWorkspaceId]
   );
 
-  // The handleFileListData function is implemented as stableHandleFileListData below
-  // with proper dependency tracking
+  /**
+   * Adds a root folder to the workspace, next to the selected folder. Folders that are
+   * already in the workspace, or inside or around one of its folders, are refused.
+   * @param folderPath - The path of the folder to add
+   * @dependencies selectedFolder, rootFolders, extraFolders, currentWorkspaceId, handleFolderSelected
+   */
+  const handleRootFolderAdded = useCallback(
+    (folderPath: string) => {
+      if (!selectedFolder) {
+        handleFolderSelected(folderPath);
+        return;
+      }
+
+      const normalizedFolderPath = normalizePath(folderPath);
+      if (overlapsWorkspaceRoots(normalizedFolderPath, rootFolders)) {
+        setProcessingStatus({
+          status: 'error',
+          message: `${normalizedFolderPath} overlaps a folder that is already open`,
+        });
+        return;
+      }
+
+      const updatedExtraFolders = [...extraFolders, normalizedFolderPath];
+      setExtraFolders(updatedExtraFolders);
+
+      if (currentWorkspaceId) {
+        setWorkspaces((prevWorkspaces: Workspace[]) => {
+          const updatedWorkspaces = prevWorkspaces.map((workspace: Workspace) =>
+            workspace.id === currentWorkspaceId
+              ? { ...workspace, extraFolderPaths: updatedExtraFolders, lastUsed: Date.now() }
+              : workspace
+          );
+          localStorage.setItem(STORAGE_KEYS.WORKSPACES, JSON.stringify(updatedWorkspaces));
+          return updatedWorkspaces;
+        });
+      }
+    },
+    [selectedFolder, rootFolders, extraFolders, currentWorkspaceId, handleFolderSelected]
+  );
+
+  // The file list handlers are implemented as stableHandleFileListBatch and
+  // stableHandleFileListComplete below with proper dependency tracking
+
+  // The scan whose batches are arriving, whether it selects its files as they arrive
+  // (when nothing was selected before it), and the paths it has delivered so far
+  const fileListScanRef = useRef({
+    scanId: null as number | null,
+    autoSelect: false,
+    paths: [] as string[],
+  });
 
   const handleProcessingStatus = useCallback(
     (status: { status: 'idle' | 'processing' | 'complete' | 'error'; message: string }) => {
@@ -521,51 +913,83 @@ const App = (): JSX.Element => {
   // Removed listenersAddedRef as it's no longer needed with the new IPC listener implementation
 
   // Memoize handlers with stable dependencies
+  // Whether the open folder dialog was opened to add a root folder to the workspace
+  const isAddingRootFolderRef = useRef(false);
+
   const stableHandleFolderSelected = useCallback(
     (folderPath: string) => {
-      handleFolderSelected(folderPath);
+      if (isAddingRootFolderRef.current) {
+        isAddingRootFolderRef.current = false;
+        handleRootFolderAdded(folderPath);
+      } else {
+        handleFolderSelected(folderPath);
+      }
     },
-    [handleFolderSelected]
+    [handleFolderSelected, handleRootFolderAdded]
   );
 
-  const stableHandleFileListData = useCallback(
-    (files: FileData[]) => {
-      setAllFiles((prevFiles: FileData[]) => {
-        if (files.length !== prevFiles.length) {
-          console.debug(
-            '[handleFileListData] Updating files from',
-            prevFiles.length,
-            'to',
-            files.length
-          );
-        }
-        return files;
-      });
-
-      setProcessingStatus({
-        status: 'complete',
-        message: `Loaded ${files.length} files`,
-      });
+  const stableHandleFileListBatch = useCallback(
+    ({ scanId, files }: FileListBatch) => {
+      const scan = fileListScanRef.current;
+      const isNewScan = scan.scanId !== scanId;
+      if (isNewScan) {
+        // If we have previous selections, preserve them; otherwise select eligible files
+        fileListScanRef.current = { scanId, autoSelect: selectedFiles.length === 0, paths: [] };
+        clearFileContents();
+      }
+      const { autoSelect, paths } = fileListScanRef.current;
+      paths.push(...files.map((file: FileData) => file.path));
 
-      setSelectedFiles((prevSelected: string[]) => {
-        // If we have previous selections, preserve all existing selections
-        if (prevSelected.length > 0) {
-          // Only filter out files that no longer exist in the new list
-          return prevSelected.filter((selectedPath: string) =>
-            files.some((file) => arePathsEqual(file.path, selectedPath))
-          );
-        }
+      // The first batch of a scan replaces the previous scan's files
+      setAllFiles((prevFiles: FileData[]) => (isNewScan ? files : [...prevFiles, ...files]));
 
-        // No previous selections - select all eligible files
-        return files
+      if (autoSelect) {
+        const eligiblePaths = files
           .filter(
             (file: FileData) =>
               !file.isSkipped && !file.excludedByDefault && (includeBinaryPaths || !file.isBinary)
           )
           .map((file: FileData) => file.path);
+        setSelectedFiles((prevSelected: string[]) => [...prevSelected, ...eligiblePaths]);
+      }
+    },
+    [includeBinaryPaths, selectedFiles.length, clearFileContents]
+  );
+
+  const stableHandleFileListComplete = useCallback(
+    ({ scanId, fileCount, cancelled }: FileListComplete) => {
+      const scan = fileListScanRef.current;
+      if (cancelled) {
+        // Keep the files and selection received so far; a later scan replaces them
+        if (scan.scanId === scanId) {
+          setProcessingStatus({
+            status: 'idle',
+            message: `Loading cancelled after ${scan.paths.length} files`,
+          });
+        }
+        return;
+      }
+      if (scan.scanId !== scanId) {
+        // The scan found no files, so no batch replaced the previous scan's files
+        fileListScanRef.current = { scanId, autoSelect: false, paths: [] };
+        setAllFiles([]);
+      }
+
+      setProcessingStatus({
+        status: 'complete',
+        message: `Loaded ${fileCount} files`,
       });
+
+      // Only filter out selected files that no longer exist in the new list. A selection
+      // made from this scan's own files needs no check.
+      const { autoSelect, paths } = fileListScanRef.current;
+      if (autoSelect) return;
+      const scannedPaths = new Set(paths.map(getPathKey));
+      setSelectedFiles((prevSelected: string[]) =>
+        prevSelected.filter((selectedPath: string) => scannedPaths.has(getPathKey(selectedPath)))
+      );
     },
-    [includeBinaryPaths]
+    []
   );
 
   const stableHandleProcessingStatus = useCallback(handleProcessingStatus, [
@@ -581,15 +1005,19 @@ const App = (): JSX.Element => {
 
   // Refs to always point to latest handler logic
   const stableHandleFolderSelectedRef = useRef(stableHandleFolderSelected);
-  const stableHandleFileListDataRef = useRef(stableHandleFileListData);
+  const stableHandleFileListBatchRef = useRef(stableHandleFileListBatch);
+  const stableHandleFileListCompleteRef = useRef(stableHandleFileListComplete);
   const stableHandleProcessingStatusRef = useRef(stableHandleProcessingStatus);
 
   useEffect(() => {
     stableHandleFolderSelectedRef.current = stableHandleFolderSelected;
   }, [stableHandleFolderSelected]);
   useEffect(() => {
-    stableHandleFileListDataRef.current = stableHandleFileListData;
-  }, [stableHandleFileListData]);
+    stableHandleFileListBatchRef.current = stableHandleFileListBatch;
+  }, [stableHandleFileListBatch]);
+  useEffect(() => {
+    stableHandleFileListCompleteRef.current = stableHandleFileListComplete;
+  }, [stableHandleFileListComplete]);
   useEffect(() => {
     stableHandleProcessingStatusRef.current = stableHandleProcessingStatus;
   }, [stableHandleProcessingStatus]);
@@ -602,9 +1030,14 @@ const App = (): JSX.Element => {
       stableHandleFolderSelectedRef.current(folderPath);
     };
 
-    const handleFileListDataIPC = (files: FileData[]) => {
-      console.log('[IPC] Received file-list-data:', files.length, 'files');
-      stableHandleFileListDataRef.current(files);
+    const handleFileListBatchIPC = (batch: FileListBatch) => {
+      console.log('[IPC] Received file-list-batch:', batch.files.length, 'files');
+      stableHandleFileListBatchRef.current(batch);
+    };
+
+    const handleFileListCompleteIPC = (payload: FileListComplete) => {
+      console.log('[IPC] Received file-list-complete:', payload.fileCount, 'files');
+      stableHandleFileListCompleteRef.current(payload);
     };
 
     type ProcessingStatusIPCHandler = (payload: FileProcessingStatusIPCPayload) => void;
@@ -639,13 +1072,15 @@ const App = (): JSX.Element => {
     };
 
     window.electron.ipcRenderer.on('folder-selected', handleFolderSelectedIPC);
-    window.electron.ipcRenderer.on('file-list-data', handleFileListDataIPC);
+    window.electron.ipcRenderer.on('file-list-batch', handleFileListBatchIPC);
+    window.electron.ipcRenderer.on('file-list-complete', handleFileListCompleteIPC);
     window.electron.ipcRenderer.on('file-processing-status', handleProcessingStatusIPC);
     window.electron.ipcRenderer.on('ignore-mode-updated', handleBackendModeUpdateIPC);
 
     return () => {
       window.electron.ipcRenderer.removeListener('folder-selected', handleFolderSelectedIPC);
-      window.electron.ipcRenderer.removeListener('file-list-data', handleFileListDataIPC);
+      window.electron.ipcRenderer.removeListener('file-list-batch', handleFileListBatchIPC);
+      window.electron.ipcRenderer.removeListener('file-list-complete', handleFileListCompleteIPC);
       window.electron.ipcRenderer.removeListener(
         'file-processing-status',
         handleProcessingStatusIPC
@@ -700,6 +1135,7 @@ const App = (): JSX.Element => {
   const openFolder = () => {
     if (isElectron) {
       console.log('Opening folder dialog');
+      isAddingRootFolderRef.current = false;
       setProcessingStatus({ status: 'idle', message: 'Select a folder...' });
       // Send the last selected folder to the main process for smarter defaultPath logic
       window.electron.ipcRenderer.send('open-folder', {
@@ -710,6 +1146,16 @@ const App = (): JSX.Element => {
     }
   };
 
+  // Opens the folder dialog to add another root folder to the workspace
+  const addRootFolder = () => {
+    if (!isElectron) return;
+    isAddingRootFolderRef.current = true;
+    setProcessingStatus({ status: 'idle', message: 'Select a folder to add...' });
+    window.electron.ipcRenderer.send('open-folder', {
+      lastSelectedFolder: selectedFolder,
+    });
+  };
+
   // Apply filters and sorting to files
   const applyFiltersAndSort = useCallback(
     (files: FileData[], sort: string, filter: string) => {
@@ -748,8 +1194,8 @@ const App = (): JSX.Element => {
 
   // Apply filters and sort whenever relevant state changes
   useEffect(() => {
-    applyFiltersAndSort(allFiles, sortOrder, searchTerm);
-  }, [applyFiltersAndSort, allFiles, sortOrder, searchTerm]); // Added all dependencies
+    applyFiltersAndSort(filesWithContent, sortOrder, searchTerm);
+  }, [applyFiltersAndSort, filesWithContent, sortOrder, searchTerm]); // Added all dependencies
 
   // File event handlers with proper typing
   const handleFileAdded = useCallback((newFile: FileData) => {
@@ -764,24 +1210,29 @@ const App = (): JSX.Element => {
     });
   }, []);
 
-  const handleFileUpdated = useCallback((updatedFile: FileData) => {
-    console.log('[IPC] Received file-updated:', updatedFile);
-    setAllFiles((prevFiles: FileData[]) => {
-      const newAllFiles = prevFiles.map((file) =>
-        arePathsEqual(file.path, updatedFile.path) ? updatedFile : file
-      );
-      console.log(
-        `[IPC] file-updated: Count remains: ${newAllFiles.length}, Updated path: ${updatedFile.path}`
-      );
-      return newAllFiles;
-    });
-  }, []);
+  const handleFileUpdated = useCallback(
+    (updatedFile: FileData) => {
+      console.log('[IPC] Received file-updated:', updatedFile);
+      invalidateFileContent(updatedFile.path);
+      setAllFiles((prevFiles: FileData[]) => {
+        const newAllFiles = prevFiles.map((file) =>
+          arePathsEqual(file.path, updatedFile.path) ? updatedFile : file
+        );
+        console.log(
+          `[IPC] file-updated: Count remains: ${newAllFiles.length}, Updated path: ${updatedFile.path}`
+        );
+        return newAllFiles;
+      });
+    },
+    [invalidateFileContent]
+  );
 
   const handleFileRemoved = useCallback(
     (filePathData: { path: string; relativePath: string } | string) => {
       const path = typeof filePathData === 'object' ? filePathData.path : filePathData;
       const normalizedPath = normalizePath(path);
       console.log('[IPC] Received file-removed:', filePathData);
+      invalidateFileContent(normalizedPath);
 
       setAllFiles((prevFiles: FileData[]) => {
         const newAllFiles = prevFiles.filter((file) => !arePathsEqual(file.path, normalizedPath));
@@ -801,7 +1252,7 @@ const App = (): JSX.Element => {
         return newSelected;
       });
     },
-    []
+    [invalidateFileContent]
   );
 
   // Stable IPC listeners
@@ -847,6 +1298,94 @@ const App = (): JSX.Element => {
     });
   };
 
+  // Toggle whether a file is pinned (pinned files are always kept when fitting to a budget)
+  const togglePinnedFile = useCallback((filePath: string) => {
+    const normalizedPath = normalizePath(filePath);
+    setPinnedFiles((prev: string[]) =>
+      prev.some((path) => arePathsEqual(path, normalizedPath))
+        ? prev.filter((path: string) => !arePathsEqual(path, normalizedPath))
+        : [...prev, normalizedPath]
+    );
+  }, []);
+
+  // Switch a file between full and outline inclusion
+  const setFileMode = useCallback((filePath: string, mode: FileInclusionMode) => {
+    setFileModes((prev: Record<string, FileInclusionMode>) => {
+      const updated = { ...prev };
+      if (mode === 'full') {
+        delete updated[filePath];
+      } else {
+        updated[filePath] = mode;
+      }
+      return updated;
+    });
+  }, []);
+
+  // Replace the line ranges of a file; an empty list includes the whole file again
+  const setFileLineRanges = useCallback((filePath: string, ranges: LineRange[]) => {
+    setLineRanges((prev: Record<string, LineRange[]>) => {
+      const updated = { ...prev };
+      if (ranges.length === 0) {
+        delete updated[filePath];
+      } else {
+        updated[filePath] = normalizeLineRanges(ranges);
+      }
+      return updated;
+    });
+  }, []);
+
+  // Add a range typed as `path:10-80`, selecting the file if needed.
+  // The path may be absolute or relative to one of the root folders.
+  const addTypedLineRange = (input: string): boolean => {
+    const parsed = parseLineRangeInput(input);
+    if (!parsed) {
+      setProcessingStatus({
+        status: 'error',
+        message: 'Enter a line range as path:start-end, e.g. src/App.tsx:10-80',
+      });
+      return false;
+    }
+
+    const candidates = [
+      parsed.path,
+      ...rootFolders.map((rootFolder: string) => join(rootFolder, parsed.path)),
+    ];
+    const file = filesWithContent.find((f: FileData) =>
+      candidates.some((candidate: string) => candidate && arePathsEqual(f.path, candidate))
+    );
+    if (!file || file.isBinary || file.isSkipped) {
+      setProcessingStatus({
+        status: 'error',
+        message: `No selectable text file found at ${parsed.path}`,
+      });
+      return false;
+    }
+
+    // Ranges are clamped to the file's length once its content is loaded
+    const lineCount = file.isContentLoaded ? file.content.split('\n').length : undefined;
+    const ranges = normalizeLineRanges(
+      [...(lineRanges[file.path] || []), ...parsed.ranges],
+      lineCount
+    );
+    if (ranges.length === 0) {
+      setProcessingStatus({
+        status: 'error',
+        message: `${file.name} only has ${lineCount} lines`,
+      });
+      return false;
+    }
+
+    if (!selectedFiles.some((path: string) => arePathsEqual(path, file.path))) {
+      setSelectedFiles((prev: string[]) => [...prev, normalizePath(file.path)]);
+    }
+    setFileLineRanges(file.path, ranges);
+    setProcessingStatus({
+      status: 'complete',
+      message: `Including lines ${formatLineRanges(ranges)} of ${file.name}`,
+    });
+    return true;
+  };
+
   // Toggle folder selection (select/deselect all files in folder)
   const toggleFolderSelection = (folderPath: string, isSelected: boolean) => {
     // Normalize the folder path for cross-platform compatibility
@@ -941,22 +1480,21 @@ const App = (): JSX.Element => {
   };
 
   /**
-   * State for storing user instructions
-   * This text will be appended at the end of all copied content
-   * to provide context or special notes to recipients
+   * Assembles the final content for copying from the cached prepared files.
+   * The token count is taken from the same function, so it matches what gets copied.
+   * @returns {string} The content ready for copying
+   * @throws {TemplateError} When the active template is invalid
    */
-
-  /**
-   * Assembles the final content for copying using cached base content
-   * @returns {string} The concatenated content ready for copying
-   */
-  const getSelectedFilesContent = () => {
-    return (
-      cachedBaseContentString +
-      (cachedBaseContentString && userInstructions.trim() ? '\n\n' : '') +
-      formatUserInstructionsBlock(userInstructions)
-    );
-  };
+  const getSelectedFilesContent = useCallback(
+    () =>
+      assembleContent(formatContext, {
+        userInstructions,
+        outputFormat,
+        instructionPlacement,
+        template: activeTemplate ? activeTemplate.source : undefined,
+      }),
+    [formatContext, userInstructions, outputFormat, instructionPlacement, activeTemplate]
+  );
 
   // Handle select all files
   const selectAllFiles = () => {
@@ -1024,15 +1562,17 @@ const App = (): JSX.Element => {
 
   // Helper function to get all directory node IDs from the current file list
   const getAllDirectoryNodeIds = useCallback(() => {
-    if (!selectedFolder || !allFiles.length) {
+    if (!rootFolders.length || !allFiles.length) {
       return [];
     }
-    const directoryPaths = new Set<string>();
+    // With several root folders, each root folder is a node of its own
+    const directoryPaths = new Set<string>(rootFolders.length > 1 ? rootFolders : []);
     allFiles.forEach((file) => {
       if (!file.path) return;
 
-      const normalizedSelectedFolder = selectedFolder ? normalizePath(selectedFolder) : '';
       const normalizedFilePath = normalizePath(file.path);
+      const normalizedSelectedFolder =
+        rootFolders.find((rootFolder: string) => isSubPath(rootFolder, normalizedFilePath)) || '';
 
       const relativePath =
         normalizedSelectedFolder && isSubPath(normalizedSelectedFolder, normalizedFilePath)
@@ -1057,7 +1597,7 @@ const App = (): JSX.Element => {
 
     const nodeIds = Array.from(directoryPaths).map((dirPath) => `node-${dirPath}`);
     return nodeIds;
-  }, [allFiles, selectedFolder]);
+  }, [allFiles, rootFolders]);
 
   const collapseSelectedFolder = useCallback(() => {
     if (!selectedFolderNode) return;
@@ -1133,78 +1673,169 @@ const App = (): JSX.Element => {
     setLastExpandCollapseWasSelected(false);
   }, [selectedFolderNode, lastExpandCollapseWasSelected, expandSelectedFolder, setExpandedNodes]);
 
-  // Cache base content when file selections or formatting options change
+  // What the selected files are prepared from, also used as is when content is copied
+  const formatContextParams = useMemo(
+    () => ({
+      files: filesWithContent,
+      selectedFiles,
+      sortOrder,
+      includeFileTree,
+      includeBinaryPaths,
+      includeLineNumbers,
+      compression: compressionOptions,
+      fileModes,
+      lineRanges,
+      selectedFolder,
+      rootFolders,
+      showTreeTokenCounts,
+      showOmittedFiles,
+      preparedTokenCounts: adjustedTokenCounts,
+    }),
+    [
+      filesWithContent,
+      selectedFiles,
+      sortOrder,
+      includeFileTree,
+      includeBinaryPaths,
+      includeLineNumbers,
+      compressionOptions,
+      fileModes,
+      lineRanges,
+      selectedFolder,
+      rootFolders,
+      showTreeTokenCounts,
+      showOmittedFiles,
+      adjustedTokenCounts,
+    ]
+  );
+
+  // Prepare the selected files for the token count and previews when the selection or
+  // formatting options change
   useEffect(() => {
-    const updateBaseContent = async () => {
-      const baseContent = formatBaseFileContent({
-        files: allFiles,
-        selectedFiles,
-        sortOrder,
-        includeFileTree,
-        includeBinaryPaths,
-        selectedFolder,
-      });
+    const debounceTimer = setTimeout(() => {
+      setFormatContext(buildFormatContext(formatContextParams));
+    }, 300);
+    return () => clearTimeout(debounceTimer);
+  }, [formatContextParams]);
 
-      setCachedBaseContentString(baseContent);
+  // Count tokens with the selected model's tokenizer, applying the recounted file tokens
+  useEffect(() => {
+    if (!isElectron) return;
 
-      if (isElectron && baseContent) {
-        try {
-          const result = await window.electron.ipcRenderer.invoke('get-token-count', baseContent);
-          if (result?.tokenCount !== undefined) {
-            setCachedBaseContentTokens(result.tokenCount);
-          }
-        } catch (error) {
-          console.error('Error getting base content token count:', error);
-          setCachedBaseContentTokens(0);
+    let isCurrent = true;
+    window.electron.ipcRenderer
+      .invoke('set-tokenizer', { encoding: tokenizer.encoding, ratio: tokenizer.ratio })
+      .then((result: { tokenCounts?: Record<string, number>; error?: string }) => {
+        if (!isCurrent) return;
+        if (result?.error) {
+          console.error('Error switching tokenizer:', result.error);
+          return;
         }
-      } else {
-        setCachedBaseContentTokens(0);
-      }
+        const tokenCounts = result?.tokenCounts || {};
+        setAllFiles((prev: FileData[]) =>
+          prev.map((file: FileData) =>
+            tokenCounts[file.path] !== undefined && tokenCounts[file.path] !== file.tokenCount
+              ? { ...file, tokenCount: tokenCounts[file.path] }
+              : file
+          )
+        );
+        setCountedTokenizer(tokenizer);
+      })
+      .catch((error: unknown) => console.error('Error switching tokenizer:', error));
+
+    return () => {
+      isCurrent = false;
     };
+  }, [tokenizer, isElectron]);
 
-    const debounceTimer = setTimeout(updateBaseContent, 300);
+  // Count tokens of each selected file after line ranges, outline mode and compression,
+  // so file cards show what will actually be copied
+  useEffect(() => {
+    const updateAdjustedTokenCounts = async () => {
+      const textFiles = filesWithContent.filter(
+        (file: FileData) =>
+          !file.isBinary &&
+          file.isContentLoaded &&
+          needsFilePreparation({
+            compression: compressionOptions,
+            mode: fileModes[file.path],
+            lineRanges: lineRanges[file.path],
+          }) &&
+          selectedFiles.some((path: string) => arePathsEqual(path, file.path))
+      );
+
+      const counts: Record<string, number> = {};
+      await Promise.all(
+        textFiles.map(async (file: FileData) => {
+          const compressed = prepareFileContent(file, {
+            compression: compressionOptions,
+            mode: fileModes[file.path],
+            lineRanges: lineRanges[file.path],
+          });
+          if (compressed === file.content) {
+            counts[file.path] = file.tokenCount;
+            return;
+          }
+          if (!isElectron) {
+            counts[file.path] = Math.ceil(compressed.length / 4);
+            return;
+          }
+          try {
+            const result = await window.electron.ipcRenderer.invoke('get-token-count', compressed);
+            counts[file.path] = result?.tokenCount ?? file.tokenCount;
+          } catch (error) {
+            console.error('Error getting adjusted token count:', error);
+          }
+        })
+      );
+
+      setAdjustedTokenCounts(counts);
+    };
+
+    const debounceTimer = setTimeout(updateAdjustedTokenCounts, 300);
     return () => clearTimeout(debounceTimer);
   }, [
-    allFiles,
+    filesWithContent,
     selectedFiles,
-    sortOrder,
-    includeFileTree,
-    includeBinaryPaths,
-    selectedFolder,
+    compressionOptions,
+    fileModes,
+    lineRanges,
     isElectron,
+    countedTokenizer,
   ]);
 
-  // Calculate total tokens when user instructions change
+  // Count the tokens of the exact content that would be copied
   useEffect(() => {
     const calculateAndSetTokenCount = async () => {
-      const instructionsBlock = formatUserInstructionsBlock(userInstructions);
+      if (!isElectron) {
+        setTotalFormattedContentTokens(0);
+        return;
+      }
 
-      if (isElectron) {
-        try {
-          let totalTokens = cachedBaseContentTokens;
-
-          // Only calculate instruction tokens if there are instructions
-          if (instructionsBlock) {
-            const instructionResult = await window.electron.ipcRenderer.invoke(
-              'get-token-count',
-              instructionsBlock
-            );
-            totalTokens += instructionResult?.tokenCount || 0;
-          }
+      let content = '';
+      try {
+        content = getSelectedFilesContent();
+      } catch (error) {
+        console.error('Error rendering output template:', error);
+      }
 
-          setTotalFormattedContentTokens(totalTokens);
-        } catch (error) {
-          console.error('Error getting token count:', error);
-          setTotalFormattedContentTokens(0);
-        }
-      } else {
+      if (!content) {
+        setTotalFormattedContentTokens(0);
+        return;
+      }
+
+      try {
+        const result = await window.electron.ipcRenderer.invoke('get-token-count', content);
+        setTotalFormattedContentTokens(result?.tokenCount || 0);
+      } catch (error) {
+        console.error('Error getting token count:', error);
         setTotalFormattedContentTokens(0);
       }
     };
 
     const debounceTimer = setTimeout(calculateAndSetTokenCount, 150);
     return () => clearTimeout(debounceTimer);
-  }, [userInstructions, cachedBaseContentTokens, isElectron]);
+  }, [getSelectedFilesContent, isElectron, countedTokenizer]);
 
   // ============================== Update Modal State ==============================
   const [isUpdateModalOpen, setIsUpdateModalOpen] = useState(false);
@@ -1311,12 +1942,19 @@ const App = (): JSX.Element => {
 
     // If the workspace has a folder associated with it
     if (workspace.folderPath) {
-      // Only reload if it's different from the current folder
-      if (!arePathsEqual(workspace.folderPath, selectedFolder)) {
+      const workspaceRootFolders = [workspace.folderPath, ...(workspace.extraFolderPaths || [])];
+      // Only reload if its folders are different from the current ones
+      if (
+        workspaceRootFolders.length !== rootFolders.length ||
+        workspaceRootFolders.some(
+          (folderPath: string, index: number) => !arePathsEqual(folderPath, rootFolders[index])
+        )
+      ) {
         console.log(`Switching to workspace folder: ${workspace.folderPath}`);
 
         // First set the selected folder
         setSelectedFolder(workspace.folderPath);
+        setExtraFolders(workspace.extraFolderPaths || []);
         localStorage.setItem(STORAGE_KEYS.SELECTED_FOLDER, workspace.folderPath);
 
         // Request file data from the main process (if in Electron)
@@ -1328,15 +1966,18 @@ const App = (): JSX.Element => {
 
           // Ensure we're sending the updated folder path to the main process
           window.electron.ipcRenderer.send('request-file-list', {
-            folderPath: workspace.folderPath,
+            folderPaths: workspaceRootFolders,
             ignoreMode,
             customIgnores,
+            binaryOverrides,
+            symlinkMode,
           });
         }
       }
     } else {
       // Clear current selection if workspace has no folder
       setSelectedFolder(null);
+      setExtraFolders([]);
       localStorage.removeItem(STORAGE_KEYS.SELECTED_FOLDER);
       setSelectedFiles([]);
       setAllFiles([]);
@@ -1456,6 +2097,14 @@ const App = (): JSX.Element => {
       return filteredWorkspaces;
     });
 
+    // Forget where the deleted workspace was last exported
+    setExportPaths((prev: Record<string, string>) => {
+      if (!(workspaceId in prev)) return prev;
+      const updated = { ...prev };
+      delete updated[workspaceId];
+      return updated;
+    });
+
     // (Removed workspaceManagerVersion increment)
 
     // If deleting current workspace, clear current selection
@@ -1482,11 +2131,41 @@ const App = (): JSX.Element => {
   };
 
   // Handler to update a workspace's folder path
+  // Delete the scan caches of a workspace's folders, and rescan them if they are open
+  const handleRebuildWorkspaceCache = async (workspaceId: string) => {
+    const workspace = workspaces.find((w: Workspace) => w.id === workspaceId);
+    if (!workspace?.folderPath) return;
+
+    for (const folderPath of [workspace.folderPath, ...(workspace.extraFolderPaths || [])]) {
+      const result = await window.electron.ipcRenderer.invoke('rebuild-scan-cache', folderPath);
+      if (result?.error) {
+        setProcessingStatus({ status: 'error', message: result.error });
+        return;
+      }
+    }
+
+    if (arePathsEqual(workspace.folderPath, selectedFolder)) {
+      setIsWorkspaceManagerOpen(false);
+      setReloadTrigger((prev: number) => prev + 1);
+    } else {
+      setProcessingStatus({
+        status: 'complete',
+        message: `Scan cache of ${workspace.name} cleared, it is rebuilt when the folder is opened`,
+      });
+      setTimeout(() => {
+        setProcessingStatus({ status: 'idle', message: '' });
+      }, 2000);
+    }
+  };
+
   const handleUpdateWorkspaceFolder = (workspaceId: string, folderPath: string | null) => {
+    // Setting the open folder keeps the folders added next to it
+    const extraFolderPaths =
+      folderPath && arePathsEqual(folderPath, selectedFolder) ? extraFolders : [];
     setWorkspaces((prevWorkspaces: Workspace[]) => {
       const updatedWorkspaces = prevWorkspaces.map((workspace: Workspace) =>
         workspace.id === workspaceId
-          ? { ...workspace, folderPath, lastUsed: Date.now() }
+          ? { ...workspace, folderPath, extraFolderPaths, lastUsed: Date.now() }
           : workspace
       );
       localStorage.setItem(STORAGE_KEYS.WORKSPACES, JSON.stringify(updatedWorkspaces));
@@ -1503,6 +2182,7 @@ const App = (): JSX.Element => {
         // Clear folder selection in localStorage and state
         localStorage.removeItem(STORAGE_KEYS.SELECTED_FOLDER);
         setSelectedFolder(null);
+        setExtraFolders([]);
         setSelectedFiles([]);
         setAllFiles([]);
         setProcessingStatus({
@@ -1513,30 +2193,70 @@ const App = (): JSX.Element => {
     }
   };
 
+  // Handler to remove an extra root folder from a workspace
+  const handleRemoveWorkspaceFolder = (workspaceId: string, folderPath: string) => {
+    const workspace = workspaces.find((w: Workspace) => w.id === workspaceId);
+    const extraFolderPaths = (workspace?.extraFolderPaths || []).filter(
+      (extraFolderPath: string) => !arePathsEqual(extraFolderPath, folderPath)
+    );
+    setWorkspaces((prevWorkspaces: Workspace[]) => {
+      const updatedWorkspaces = prevWorkspaces.map((w: Workspace) =>
+        w.id === workspaceId ? { ...w, extraFolderPaths, lastUsed: Date.now() } : w
+      );
+      localStorage.setItem(STORAGE_KEYS.WORKSPACES, JSON.stringify(updatedWorkspaces));
+      return updatedWorkspaces;
+    });
+
+    // If it is the current workspace, stop showing the folder's files
+    if (currentWorkspaceId === workspaceId) {
+      setExtraFolders(extraFolderPaths);
+      setSelectedFiles((prev: string[]) =>
+        prev.filter((filePath: string) => !isSubPath(folderPath, filePath))
+      );
+    }
+  };
+
   // Get current workspace name for display
   const currentWorkspaceName = currentWorkspaceId
     ? workspaces.find((w: Workspace) => w.id === currentWorkspaceId)?.name || 'Untitled'
     : null;
 
   // Handle copying content to clipboard
-  const handleCopy = async () => {
-    if (selectedFiles.length === 0) return;
+  // Add a copy or export to the front of the copy history. Exports only record their
+  // file, since they are meant for content too large to keep around.
+  const addToCopyHistory = (
+    label: string,
+    details: Pick<CopyHistoryItem, 'content' | 'filePath' | 'costEstimate'>
+  ) => {
+    const newHistoryItem: CopyHistoryItem = {
+      timestamp: Date.now(),
+      label,
+      ...details,
+    };
 
+    setCopyHistory((prevHistory: CopyHistoryItem[]) => {
+      const updatedHistory = [newHistoryItem, ...prevHistory].slice(0, 20); // Keep last 20 items
+      try {
+        localStorage.setItem(STORAGE_KEYS.COPY_HISTORY, JSON.stringify(updatedHistory));
+      } catch (error) {
+        // The history is still kept for this session when storage is full
+        console.error('Failed to save copy history to localStorage:', error);
+      }
+      return updatedHistory;
+    });
+  };
+
+  // Write the final content to the clipboard and record it in the history
+  const copyContent = async (content: string) => {
     try {
-      const content = getSelectedFilesContent();
       await navigator.clipboard.writeText(content);
       setProcessingStatus({ status: 'complete', message: 'Copied to clipboard!' });
 
       // Add to copy history
-      const newHistoryItem: CopyHistoryItem = {
+      addToCopyHistory(`${selectedFiles.length} files`, {
         content,
-        timestamp: Date.now(),
-        label: `${selectedFiles.length} files`,
-      };
-
-      const updatedHistory = [newHistoryItem, ...copyHistory].slice(0, 20); // Keep last 20 items
-      setCopyHistory(updatedHistory);
-      localStorage.setItem(STORAGE_KEYS.COPY_HISTORY, JSON.stringify(updatedHistory));
+        costEstimate: costEstimate || undefined,
+      });
 
       // Reset the status after 2 seconds
       setTimeout(() => {
@@ -1548,6 +2268,319 @@ const App = (): JSX.Element => {
     }
   };
 
+  // Exports are keyed by workspace, falling back to the folder when no workspace is open
+  const exportPathKey = currentWorkspaceId || selectedFolder;
+  const lastExportPath = exportPathKey ? exportPaths[exportPathKey] : undefined;
+  // Templates are free-form, so their output is saved as plain text
+  const exportExtension = activeTemplate ? 'txt' : getOutputFormat(outputFormat).fileExtension;
+  const reexportPath = lastExportPath ? replaceExtension(lastExportPath, exportExtension) : null;
+
+  // Write the final content to a file and record it in the history.
+  // Without a file path the user picks one in the save dialog.
+  const exportContent = async (content: string, filePath?: string) => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke('export-content', {
+        content,
+        filePath,
+        defaultPath: reexportPath || `${basename(selectedFolder) || 'pastemax'}.${exportExtension}`,
+        extension: exportExtension,
+      });
+      if (result?.canceled) return;
+      if (!result?.filePath) {
+        throw new Error(result?.error || 'No file was written');
+      }
+
+      setProcessingStatus({ status: 'complete', message: `Saved to ${result.filePath}` });
+      addToCopyHistory(`${selectedFiles.length} files`, {
+        filePath: result.filePath,
+        costEstimate: costEstimate || undefined,
+      });
+      if (exportPathKey) {
+        setExportPaths((prev: Record<string, string>) => ({
+          ...prev,
+          [exportPathKey]: result.filePath,
+        }));
+      }
+
+      // Reset the status after 2 seconds
+      setTimeout(() => {
+        setProcessingStatus({ status: 'idle', message: '' });
+      }, 2000);
+    } catch (err) {
+      console.error('Failed to export:', err);
+      const reason = err instanceof Error ? `: ${err.message}` : '';
+      setProcessingStatus({ status: 'error', message: `Failed to save to file${reason}` });
+    }
+  };
+
+  /**
+   * Lets the user review secrets found in what is about to leave the app. Every copy
+   * and export goes through here, so nothing skips the review.
+   * @param render Builds the output with the given findings redacted from its inputs
+   * @returns The output, or null when the review was cancelled
+   */
+  const reviewSecrets = useCallback(
+    (
+      findings: SecretFinding[],
+      render: (findingsToRedact: SecretFinding[]) => string,
+      actionLabel: string
+    ): Promise<string | null> =>
+      findings.length === 0
+        ? Promise.resolve(render([]))
+        : new Promise((resolve) => setSecretReview({ findings, render, resolve, actionLabel })),
+    []
+  );
+
+  // Copy one file's content from its card, after the same review as a full copy
+  const handleCopyFile = useCallback(
+    async (filePath: string): Promise<boolean> => {
+      const file = filesWithContent.find((candidate: FileData) =>
+        arePathsEqual(candidate.path, filePath)
+      );
+      if (!file || !file.isContentLoaded) return false;
+
+      const findings = scanCopyContent([file], '', [file]);
+      const content = await reviewSecrets(
+        findings,
+        (findingsToRedact: SecretFinding[]) => redactSecrets(file.content, findingsToRedact),
+        'Copy'
+      );
+      if (content === null) return false;
+
+      try {
+        await navigator.clipboard.writeText(content);
+        return true;
+      } catch (err) {
+        console.error('Failed to copy:', err);
+        setProcessingStatus({ status: 'error', message: 'Failed to copy to clipboard' });
+        return false;
+      }
+    },
+    [filesWithContent, reviewSecrets]
+  );
+
+  // Scan the content for secrets before it leaves the app and ask for a review if any are found
+  const handleOutput = async (destination: 'clipboard' | 'file', filePath?: string) => {
+    if (selectedFiles.length === 0) return;
+    if (isLoadingFileContents) {
+      setProcessingStatus({ status: 'processing', message: 'Loading file contents...' });
+      return;
+    }
+
+    // Built from the current selection, as the debounced formatContext may lag behind it
+    const copyContext = buildFormatContext(formatContextParams);
+    const assembleOptions = {
+      outputFormat,
+      instructionPlacement,
+      template: activeTemplate ? activeTemplate.source : undefined,
+    };
+    // Secrets are redacted from the files and instructions before the format escapes them
+    const render = (findingsToRedact: SecretFinding[]) =>
+      assembleContent(redactFormatContext(copyContext, findingsToRedact), {
+        ...assembleOptions,
+        userInstructions: redactSecrets(userInstructions, findingsToRedact),
+      });
+
+    try {
+      render([]);
+    } catch (error) {
+      // Saved templates are validated, but may have been edited outside the app
+      const message = error instanceof Error ? error.message : String(error);
+      setProcessingStatus({ status: 'error', message: `Template error: ${message}` });
+      return;
+    }
+
+    const findings = scanCopyContent(copyContext?.files || [], userInstructions, selectedFileData);
+    const content = await reviewSecrets(findings, render, destination === 'file' ? 'Save' : 'Copy');
+    if (content === null) return;
+
+    if (destination === 'file') {
+      await exportContent(content, filePath);
+    } else {
+      await copyContent(content);
+    }
+  };
+
+  const handleCopy = () => handleOutput('clipboard');
+
+  // Hand the reviewed output, with the chosen findings redacted, back to the copy or export
+  const handleSecretReviewCopy = (findingsToRedact: SecretFinding[]) => {
+    if (!secretReview) return;
+    secretReview.resolve(secretReview.render(findingsToRedact));
+    setSecretReview(null);
+  };
+
+  const handleSecretReviewCancel = () => {
+    secretReview?.resolve(null);
+    setSecretReview(null);
+  };
+
+  // Render a template being edited with the current selection for the preview
+  const renderTemplatePreview = useCallback(
+    (source: string) => assembleContent(formatContext, { userInstructions, template: source }),
+    [formatContext, userInstructions]
+  );
+
+  // Save edited templates, clearing the active template if it was deleted
+  const handleTemplatesChange = (templates: OutputTemplate[]) => {
+    setOutputTemplates(templates);
+    if (activeTemplateId && !templates.some((template) => template.id === activeTemplateId)) {
+      setActiveTemplateId(null);
+    }
+  };
+
+  // The format picker lists the built-in formats and then the saved templates
+  const handleOutputFormatChange = (value: string) => {
+    if (value.startsWith('template:')) {
+      setActiveTemplateId(value.slice('template:'.length));
+    } else {
+      setActiveTemplateId(null);
+      setOutputFormat(value as OutputFormatId);
+    }
+  };
+
+  // Everything the parts are built from, so a reviewed part can be built again with redactions
+  const multiPartParams = useMemo(
+    () => ({
+      files: filesWithContent,
+      selectedFiles,
+      sortOrder,
+      includeFileTree,
+      includeBinaryPaths,
+      includeLineNumbers,
+      compression: compressionOptions,
+      fileModes,
+      lineRanges,
+      selectedFolder,
+      rootFolders,
+      userInstructions,
+      outputFormat,
+      instructionPlacement,
+      showTreeTokenCounts,
+      showOmittedFiles,
+      tokenLimit: partSizingLimit,
+    }),
+    [
+      filesWithContent,
+      selectedFiles,
+      sortOrder,
+      includeFileTree,
+      includeBinaryPaths,
+      includeLineNumbers,
+      compressionOptions,
+      fileModes,
+      lineRanges,
+      selectedFolder,
+      rootFolders,
+      userInstructions,
+      outputFormat,
+      instructionPlacement,
+      showTreeTokenCounts,
+      showOmittedFiles,
+      partSizingLimit,
+    ]
+  );
+
+  // Parts are only built while the multi-part dialog is open
+  const multiPartContent = useMemo(
+    () => (isMultiPartModalOpen ? splitContentIntoParts(multiPartParams) : []),
+    [isMultiPartModalOpen, multiPartParams]
+  );
+
+  // Size parts for the chosen limit again whenever it changes or the dialog is opened
+  useEffect(() => {
+    setPartSizingLimit(partTokenLimit);
+  }, [partTokenLimit, isMultiPartModalOpen]);
+
+  // Count each finished part with the selected model's tokenizer. Parts are sized with
+  // estimates, so when one is over the limit they are split again for a lower limit.
+  useEffect(() => {
+    setPartTokenCounts(null);
+    if (!isElectron || multiPartContent.length === 0) return;
+
+    let isCurrent = true;
+    Promise.all(
+      multiPartContent.map(async (part: ContentPart) => {
+        const result = await window.electron.ipcRenderer.invoke('get-token-count', part.content);
+        return (result?.tokenCount as number | undefined) ?? part.estimatedTokens;
+      })
+    )
+      .then((counts: number[]) => {
+        if (!isCurrent) return;
+        const largestCount = Math.max(...counts);
+        if (largestCount > partTokenLimit && partSizingLimit > MIN_PART_TOKEN_LIMIT) {
+          setPartSizingLimit(
+            Math.max(
+              Math.floor(partSizingLimit * (partTokenLimit / largestCount) * 0.95),
+              MIN_PART_TOKEN_LIMIT
+            )
+          );
+          return;
+        }
+        setPartTokenCounts(counts);
+      })
+      .catch((error: unknown) => console.error('Error counting part tokens:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [multiPartContent, isElectron, partTokenLimit, partSizingLimit, countedTokenizer]);
+
+  // Parts with their counted tokens, once known
+  const countedParts = useMemo(
+    () =>
+      partTokenCounts
+        ? multiPartContent.map((part: ContentPart, index: number) => ({
+            ...part,
+            estimatedTokens: partTokenCounts[index],
+          }))
+        : multiPartContent,
+    [multiPartContent, partTokenCounts]
+  );
+
+  // Copy a single part of a multi-part copy and record it in the history
+  const handleCopyPart = async (part: ContentPart): Promise<boolean> => {
+    const findings = scanCopyContent(part.files, part.userInstructions, selectedFileData);
+    // The split does not depend on redactions, so the part is built again from the same files
+    const content = await reviewSecrets(
+      findings,
+      (findingsToRedact: SecretFinding[]) =>
+        findingsToRedact.length > 0
+          ? splitContentIntoParts({ ...multiPartParams, findingsToRedact })[part.index - 1].content
+          : part.content,
+      'Copy'
+    );
+    if (content === null) return false;
+
+    try {
+      await navigator.clipboard.writeText(content);
+      setProcessingStatus({
+        status: 'complete',
+        message: `Copied part ${part.index} of ${part.total} to clipboard!`,
+      });
+      // The expected response comes after the last part, so only that part counts output
+      const partCost = estimateCost(
+        selectedModelInfo,
+        part.estimatedTokens,
+        part.index === part.total ? expectedOutputTokens : 0
+      );
+      addToCopyHistory(`Part ${part.index} of ${part.total} (${part.fileCount} files)`, {
+        content,
+        costEstimate: partCost || undefined,
+      });
+
+      // Reset the status after 2 seconds
+      setTimeout(() => {
+        setProcessingStatus({ status: 'idle', message: '' });
+      }, 2000);
+      return true;
+    } catch (err) {
+      console.error('Failed to copy part:', err);
+      setProcessingStatus({ status: 'error', message: 'Failed to copy to clipboard' });
+      return false;
+    }
+  };
+
   // Handle copy from history
   const handleCopyFromHistory = async (content: string) => {
     try {
@@ -1591,6 +2624,46 @@ const App = (): JSX.Element => {
     localStorage.setItem('pastemax-selected-model', modelId);
   };
 
+  // Selected files and the tokens spent on everything except their contents,
+  // used by the fit to budget preview
+  const selectedFileData = useMemo(
+    () =>
+      filesWithContent
+        .filter((file: FileData) =>
+          selectedFiles.some((path: string) => arePathsEqual(path, file.path))
+        )
+        .map((file: FileData) =>
+          adjustedTokenCounts[file.path] !== undefined
+            ? { ...file, tokenCount: adjustedTokenCounts[file.path] }
+            : file
+        ),
+    [filesWithContent, selectedFiles, adjustedTokenCounts]
+  );
+  // Number of possible secrets per file, shown as badges in the file tree. Sensitive
+  // filenames are flagged right away, content once it is loaded (for selected files).
+  const secretFindingCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    filesWithContent.forEach((file: FileData) => {
+      if (file.isBinary || file.isSkipped) return;
+      const count = scanFileForSecrets(file).length;
+      if (count > 0) {
+        counts[file.path] = count;
+      }
+    });
+    return counts;
+  }, [filesWithContent]);
+
+  const contentOverheadTokens = Math.max(
+    totalFormattedContentTokens -
+      selectedFileData.reduce((total: number, file: FileData) => total + (file.tokenCount || 0), 0),
+    0
+  );
+
+  // Replace the selection with the files kept by the fit to budget preview
+  const handleApplyBudgetFit = (keptFiles: string[]) => {
+    setSelectedFiles(keptFiles.map(normalizePath));
+  };
+
   // Persist workspaces when they change
   useEffect(() => {
     if (workspaces) {
@@ -1621,8 +2694,9 @@ const App = (): JSX.Element => {
           <div className="header-actions">
             <ThemeToggle />
             <div className="folder-info">
-              <div className="selected-folder">
+              <div className="selected-folder" title={rootFolders.join('\n') || undefined}>
                 {selectedFolder ? selectedFolder : 'No Folder Selected'}
+                {extraFolders.length > 0 && ` (+${extraFolders.length} more)`}
               </div>
               <button
                 className="select-folder-btn"
@@ -1632,6 +2706,14 @@ const App = (): JSX.Element => {
               >
                 <FolderOpen size={16} />
               </button>
+              <button
+                className="select-folder-btn"
+                onClick={addRootFolder}
+                disabled={processingStatus.status === 'processing' || !selectedFolder}
+                title="Add another folder to the workspace"
+              >
+                <FolderPlus size={16} />
+              </button>
               <button
                 className="clear-data-btn"
                 onClick={clearSavedState}
@@ -1725,7 +2807,7 @@ const App = (): JSX.Element => {
           {/* Render Sidebar if folder selected, otherwise show empty sidebar with task type selector */}
           {selectedFolder ? (
             <Sidebar
-              selectedFolder={selectedFolder}
+              rootFolders={rootFolders}
               allFiles={allFiles}
               selectedFiles={selectedFiles}
               toggleFileSelection={toggleFileSelection}
@@ -1745,6 +2827,7 @@ const App = (): JSX.Element => {
               expandAllFolders={expandAllFolders}
               selectedFolderNode={selectedFolderNode}
               setSelectedFolderNode={setSelectedFolderNode}
+              secretFindingCounts={secretFindingCounts}
             />
           ) : (
             <div className="sidebar" style={{ width: '300px' }}>
@@ -1780,9 +2863,37 @@ const App = (): JSX.Element => {
           {/* Content area - always visible with appropriate empty states */}
           <div className="content-area">
             <div className="content-header">
-              <div className="content-title">Selected Files</div>
+              <div className="content-title">
+                {showTreemap ? 'Token Treemap' : 'Selected Files'}
+              </div>
+              {selectedFolder && (
+                <input
+                  type="text"
+                  className="line-range-input"
+                  placeholder="Add lines, e.g. src/App.tsx:10-80"
+                  title="Include only some lines of a file: path:start-end (several ranges separated by commas)"
+                  aria-label="Add line range"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && addTypedLineRange(e.currentTarget.value)) {
+                      e.currentTarget.value = '';
+                    }
+                  }}
+                />
+              )}
               <div className="content-header-actions-group">
-                <div className="stats-info">
+                {selectedFolder && (
+                  <button
+                    type="button"
+                    className={`content-view-toggle ${showTreemap ? 'active' : ''}`}
+                    onClick={() => setShowTreemap(!showTreemap)}
+                    aria-pressed={showTreemap}
+                    title="Show where the tokens of the folder go"
+                  >
+                    <LayoutGrid size={14} />
+                    Treemap
+                  </button>
+                )}
+                <div className="stats-info" title={describeTokenizer(countedTokenizer)}>
                   {selectedFolder
                     ? `${displayedFiles.length} files | ~${totalFormattedContentTokens.toLocaleString()} tokens`
                     : '0 files | ~0 tokens'}
@@ -1844,11 +2955,28 @@ const App = (): JSX.Element => {
 
             {/* File List - show appropriate message when no folder is selected */}
             <div className="file-list-container">
-              {selectedFolder ? (
+              {selectedFolder && showTreemap ? (
+                <TokenTreemap
+                  allFiles={allFiles}
+                  rootFolders={rootFolders}
+                  selectedFiles={selectedFiles}
+                  toggleFileSelection={toggleFileSelection}
+                  toggleFolderSelection={toggleFolderSelection}
+                  includeBinaryPaths={includeBinaryPaths}
+                />
+              ) : selectedFolder ? (
                 <FileList
                   files={displayedFiles}
                   selectedFiles={selectedFiles}
                   toggleFileSelection={toggleFileSelection}
+                  pinnedFiles={pinnedFiles}
+                  togglePinnedFile={togglePinnedFile}
+                  adjustedTokenCounts={adjustedTokenCounts}
+                  fileModes={fileModes}
+                  setFileMode={setFileMode}
+                  lineRanges={lineRanges}
+                  setFileLineRanges={setFileLineRanges}
+                  onCopyFile={handleCopyFile}
                 />
               ) : (
                 <div className="file-list-empty">
@@ -1880,33 +3008,173 @@ const App = (): JSX.Element => {
                 externalSelectedModelId={selectedModelId}
                 onModelSelect={handleModelSelect}
                 currentTokenCount={totalFormattedContentTokens}
+                tokenizer={countedTokenizer}
+                onFitToBudget={setFitBudgetModel}
+                onSelectedModelChange={setSelectedModelInfo}
+                costEstimate={costEstimate}
+                expectedOutputTokens={expectedOutputTokens}
+                onExpectedOutputTokensChange={setExpectedOutputTokens}
               />
             </div>
 
             {/* Copy bar: options left, buttons right */}
             <div className="copy-settings-container">
-              <div className="copy-settings-options">
-                <div
-                  className="toggle-option-item"
-                  title="Include File Tree in the Copyable Content"
-                >
-                  <ToggleSwitch
-                    id="includeFileTree"
-                    checked={includeFileTree}
-                    onChange={(e) => setIncludeFileTree(e.target.checked)}
-                  />
-                  <label htmlFor="includeFileTree">Include File Tree</label>
+              <div className="copy-settings-option-groups">
+                <div className="copy-settings-options">
+                  <div
+                    className="toggle-option-item"
+                    title="Include File Tree in the Copyable Content"
+                  >
+                    <ToggleSwitch
+                      id="includeFileTree"
+                      checked={includeFileTree}
+                      onChange={(e) => setIncludeFileTree(e.target.checked)}
+                    />
+                    <label htmlFor="includeFileTree">Include File Tree</label>
+                  </div>
+                  <div
+                    className="toggle-option-item"
+                    title="Show Each File's Token Count and Each Folder's Total in the File Tree"
+                  >
+                    <ToggleSwitch
+                      id="showTreeTokenCounts"
+                      checked={showTreeTokenCounts}
+                      onChange={(e) => setShowTreeTokenCounts(e.target.checked)}
+                      disabled={!includeFileTree}
+                    />
+                    <label htmlFor="showTreeTokenCounts">Tree Token Counts</label>
+                  </div>
+                  <div
+                    className="toggle-option-item"
+                    title="List Unselected Files in the File Tree, Marked as Omitted"
+                  >
+                    <ToggleSwitch
+                      id="showOmittedFiles"
+                      checked={showOmittedFiles}
+                      onChange={(e) => setShowOmittedFiles(e.target.checked)}
+                      disabled={!includeFileTree}
+                    />
+                    <label htmlFor="showOmittedFiles">List Omitted Files</label>
+                  </div>
+                  <div
+                    className="toggle-option-item"
+                    title="Prefix Each Line of File Content with its Line Number"
+                  >
+                    <ToggleSwitch
+                      id="includeLineNumbers"
+                      checked={includeLineNumbers}
+                      onChange={(e) => setIncludeLineNumbers(e.target.checked)}
+                    />
+                    <label htmlFor="includeLineNumbers">Include Line Numbers</label>
+                  </div>
+                  <div
+                    className="toggle-option-item"
+                    title="Include Binary As Paths in the Copyable Content"
+                  >
+                    <ToggleSwitch
+                      id="includeBinaryPaths"
+                      checked={includeBinaryPaths}
+                      onChange={(e) => setIncludeBinaryPaths(e.target.checked)}
+                    />
+                    <label htmlFor="includeBinaryPaths">Include Binary As Paths</label>
+                  </div>
+                  <div className="toggle-option-item" title="Layout of the Copyable Content">
+                    <select
+                      id="outputFormat"
+                      className="output-format-select"
+                      value={activeTemplate ? `template:${activeTemplate.id}` : outputFormat}
+                      onChange={(e) => handleOutputFormatChange(e.target.value)}
+                    >
+                      {OUTPUT_FORMATS.map((format) => (
+                        <option key={format.id} value={format.id}>
+                          {format.label}
+                        </option>
+                      ))}
+                      {outputTemplates.length > 0 && (
+                        <optgroup label="Templates">
+                          {outputTemplates.map((template: OutputTemplate) => (
+                            <option key={template.id} value={`template:${template.id}`}>
+                              {template.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    <label htmlFor="outputFormat">Output Format</label>
+                    <button
+                      className="edit-templates-button"
+                      onClick={() => setIsTemplateEditorOpen(true)}
+                      title="Create and Edit Output Templates"
+                    >
+                      <FileCode size={14} />
+                    </button>
+                  </div>
+                  <div
+                    className="toggle-option-item"
+                    title="Where the User Instructions Go (Templates Place Them Themselves)"
+                  >
+                    <select
+                      id="instructionPlacement"
+                      className="output-format-select"
+                      value={instructionPlacement}
+                      onChange={(e) =>
+                        setInstructionPlacement(e.target.value as InstructionPlacement)
+                      }
+                      disabled={!!activeTemplate}
+                    >
+                      <option value="top">Top</option>
+                      <option value="bottom">Bottom</option>
+                      <option value="both">Top and Bottom</option>
+                    </select>
+                    <label htmlFor="instructionPlacement">Instructions Placement</label>
+                  </div>
                 </div>
-                <div
-                  className="toggle-option-item"
-                  title="Include Binary As Paths in the Copyable Content"
-                >
-                  <ToggleSwitch
-                    id="includeBinaryPaths"
-                    checked={includeBinaryPaths}
-                    onChange={(e) => setIncludeBinaryPaths(e.target.checked)}
-                  />
-                  <label htmlFor="includeBinaryPaths">Include Binary As Paths</label>
+                <div className="copy-settings-options">
+                  <div
+                    className="toggle-option-item"
+                    title="Remove Comments from File Content (String Literals are Kept)"
+                  >
+                    <ToggleSwitch
+                      id="stripComments"
+                      checked={compressionOptions.stripComments}
+                      onChange={(e) =>
+                        setCompressionOptions((prev: CompressionOptions) => ({
+                          ...prev,
+                          stripComments: e.target.checked,
+                        }))
+                      }
+                    />
+                    <label htmlFor="stripComments">Strip Comments</label>
+                  </div>
+                  <div className="toggle-option-item" title="Collapse Runs of Blank Lines into One">
+                    <ToggleSwitch
+                      id="collapseBlankLines"
+                      checked={compressionOptions.collapseBlankLines}
+                      onChange={(e) =>
+                        setCompressionOptions((prev: CompressionOptions) => ({
+                          ...prev,
+                          collapseBlankLines: e.target.checked,
+                        }))
+                      }
+                    />
+                    <label htmlFor="collapseBlankLines">Collapse Blank Lines</label>
+                  </div>
+                  <div
+                    className="toggle-option-item"
+                    title="Drop Leading License and Copyright Comments"
+                  >
+                    <ToggleSwitch
+                      id="dropLicenseHeaders"
+                      checked={compressionOptions.dropLicenseHeaders}
+                      onChange={(e) =>
+                        setCompressionOptions((prev: CompressionOptions) => ({
+                          ...prev,
+                          dropLicenseHeaders: e.target.checked,
+                        }))
+                      }
+                    />
+                    <label htmlFor="dropLicenseHeaders">Drop License Headers</label>
+                  </div>
                 </div>
               </div>
               <div className="copy-buttons-group">
@@ -1914,10 +3182,39 @@ const App = (): JSX.Element => {
                   onClick={() => setIsCopyHistoryModalOpen(true)}
                   className="copy-history-button-position"
                 />
+                <button
+                  className="copy-history-button copy-history-button-position"
+                  onClick={() => setIsMultiPartModalOpen(true)}
+                  disabled={selectedFiles.length === 0 || isLoadingFileContents}
+                  aria-label="Copy in parts"
+                  title="Copy in Parts"
+                >
+                  <Layers size={18} />
+                </button>
+                <button
+                  className="copy-history-button copy-history-button-position"
+                  onClick={() => handleOutput('file')}
+                  disabled={selectedFiles.length === 0 || !isElectron || isLoadingFileContents}
+                  aria-label="Save as"
+                  title={`Save As… (.${exportExtension})`}
+                >
+                  <Save size={18} />
+                </button>
+                {reexportPath && (
+                  <button
+                    className="copy-history-button copy-history-button-position"
+                    onClick={() => handleOutput('file', reexportPath)}
+                    disabled={selectedFiles.length === 0 || !isElectron || isLoadingFileContents}
+                    aria-label="Export again"
+                    title={`Export to ${reexportPath}`}
+                  >
+                    <FileDown size={18} />
+                  </button>
+                )}
                 <button
                   className="primary copy-button-main"
                   onClick={handleCopy}
-                  disabled={selectedFiles.length === 0}
+                  disabled={selectedFiles.length === 0 || isLoadingFileContents}
                 >
                   <span className="copy-button-text">
                     COPY ALL SELECTED ({selectedFiles.length} files)
@@ -1959,6 +3256,8 @@ const App = (): JSX.Element => {
           onCreateWorkspace={handleCreateWorkspace}
           onDeleteWorkspace={handleDeleteWorkspace}
           onUpdateWorkspaceFolder={handleUpdateWorkspaceFolder}
+          onRemoveWorkspaceFolder={handleRemoveWorkspaceFolder}
+          onRebuildWorkspaceCache={handleRebuildWorkspaceCache}
           selectedFolder={selectedFolder}
         />
         <CopyHistoryModal
@@ -1968,6 +3267,41 @@ const App = (): JSX.Element => {
           onCopyItem={handleCopyFromHistory}
           onClearHistory={handleClearCopyHistory}
         />
+        <MultiPartCopyModal
+          isOpen={isMultiPartModalOpen}
+          onClose={() => setIsMultiPartModalOpen(false)}
+          parts={countedParts}
+          tokenLimit={partTokenLimit}
+          onTokenLimitChange={setPartTokenLimit}
+          onCopyPart={handleCopyPart}
+        />
+        <TemplateEditorModal
+          isOpen={isTemplateEditorOpen}
+          onClose={() => setIsTemplateEditorOpen(false)}
+          templates={outputTemplates}
+          onTemplatesChange={handleTemplatesChange}
+          renderPreview={renderTemplatePreview}
+        />
+        <SecretReviewModal
+          isOpen={!!secretReview}
+          findings={secretReview ? secretReview.findings : []}
+          onCancel={handleSecretReviewCancel}
+          onCopy={handleSecretReviewCopy}
+          actionLabel={secretReview?.actionLabel}
+        />
+        {fitBudgetModel && (
+          <FitToBudgetModal
+            isOpen={!!fitBudgetModel}
+            onClose={() => setFitBudgetModel(null)}
+            modelName={fitBudgetModel.name}
+            contextLength={fitBudgetModel.context_length}
+            files={selectedFileData}
+            pinnedFiles={pinnedFiles}
+            focusFolder={selectedFolderNode ? selectedFolderNode.replace('node-', '') : null}
+            overheadTokens={contentOverheadTokens}
+            onApply={handleApplyBudgetFit}
+          />
+        )}
         <ConfirmUseFolderModal
           isOpen={isConfirmUseFolderModalOpen}
           onClose={() => setIsConfirmUseFolderModalOpen(false)}
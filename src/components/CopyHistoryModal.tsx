@@ -1,10 +1,14 @@
 import { useState } from 'react';
-import { Copy, Clock } from 'lucide-react';
+import { Copy, Clock, FileDown } from 'lucide-react';
+import { CostEstimate } from '../types/CostTypes';
+import { formatCost, getDailyCostTotals } from '../utils/costUtils';
 
 export interface CopyHistoryItem {
-  content: string;
+  content?: string; // Not kept for exports, whose content stays in the file
   timestamp: number;
   label?: string;
+  filePath?: string; // Set when the content was exported to a file instead of copied
+  costEstimate?: CostEstimate; // Estimate with the model selected at copy time, if it had pricing
 }
 
 interface CopyHistoryModalProps {
@@ -33,6 +37,12 @@ const CopyHistoryModal = ({
     return new Date(timestamp).toLocaleString();
   };
 
+  const dailyCostTotals = getDailyCostTotals(copyHistory);
+
+  const describeCost = (cost: CostEstimate) =>
+    `Estimated cost ${formatCost(cost.totalCost)} with ${cost.modelId} ` +
+    `(${cost.inputTokens.toLocaleString()} input, ${cost.outputTokens.toLocaleString()} output tokens)`;
+
   // Extract folder path from content
   const extractFolderPath = (content: string) => {
     // Look for a folder path in different formats
@@ -110,6 +120,20 @@ const CopyHistoryModal = ({
               </div>
             ) : (
               <>
+                {dailyCostTotals.length > 0 && (
+                  <div className="copy-history-daily-costs">
+                    <span className="copy-history-daily-costs-title">Estimated cost per day</span>
+                    {dailyCostTotals.map((total) => (
+                      <div key={total.day} className="copy-history-daily-cost">
+                        <span>{new Date(total.day).toLocaleDateString()}</span>
+                        <span>
+                          {formatCost(total.totalCost)} ({total.entryCount}{' '}
+                          {total.entryCount === 1 ? 'entry' : 'entries'})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="copy-history-list">
                   {copyHistory.map((item, index) => (
                     <div
@@ -119,25 +143,47 @@ const CopyHistoryModal = ({
                     >
                       <div className="copy-history-item-header">
                         <span className="copy-history-item-date">{formatDate(item.timestamp)}</span>
-                        <div className="copy-history-item-actions">
-                          <button
-                            className="copy-history-item-copy-button"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              onCopyItem(item.content);
-                            }}
-                            title="Copy to clipboard"
+                        {item.filePath && (
+                          <span className="copy-history-item-export" title={item.filePath}>
+                            <FileDown size={12} />
+                            {item.filePath}
+                          </span>
+                        )}
+                        {item.costEstimate && (
+                          <span
+                            className="copy-history-item-cost"
+                            title={`Estimated with ${item.costEstimate.modelId}`}
                           >
-                            <Copy size={14} />
-                          </button>
-                        </div>
+                            {formatCost(item.costEstimate.totalCost)}
+                          </span>
+                        )}
+                        {item.content !== undefined && (
+                          <div className="copy-history-item-actions">
+                            <button
+                              className="copy-history-item-copy-button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onCopyItem(item.content || '');
+                              }}
+                              title="Copy to clipboard"
+                            >
+                              <Copy size={14} />
+                            </button>
+                          </div>
+                        )}
                       </div>
                       <div className="copy-history-item-preview">
-                        {extractFolderPath(item.content)}
-                        <br />
-                        <span className="copy-history-item-content-preview">
-                          {getSimplePreview(item.content)}
-                        </span>
+                        {item.content !== undefined ? (
+                          <>
+                            {extractFolderPath(item.content)}
+                            <br />
+                            <span className="copy-history-item-content-preview">
+                              {getSimplePreview(item.content)}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="copy-history-item-content-preview">{item.label}</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -171,20 +217,33 @@ const CopyHistoryModal = ({
             </div>
             <div className="copy-detail-modal-content">
               <div className="copy-detail-date">
-                Copied on {formatDate(copyHistory[selectedItem].timestamp)}
-              </div>
-              <pre className="copy-detail-content">
-                {processContentForDisplay(copyHistory[selectedItem].content)}
-              </pre>
-              <div className="copy-detail-footer">
-                <button
-                  className="copy-detail-copy-button"
-                  onClick={() => onCopyItem(copyHistory[selectedItem].content)}
-                >
-                  <Copy size={16} />
-                  <span>Copy to Clipboard</span>
-                </button>
+                {copyHistory[selectedItem].filePath
+                  ? `Saved to ${copyHistory[selectedItem].filePath} on `
+                  : 'Copied on '}
+                {formatDate(copyHistory[selectedItem].timestamp)}
+                {copyHistory[selectedItem].costEstimate &&
+                  ` · ${describeCost(copyHistory[selectedItem].costEstimate)}`}
               </div>
+              {copyHistory[selectedItem].content !== undefined ? (
+                <>
+                  <pre className="copy-detail-content">
+                    {processContentForDisplay(copyHistory[selectedItem].content || '')}
+                  </pre>
+                  <div className="copy-detail-footer">
+                    <button
+                      className="copy-detail-copy-button"
+                      onClick={() => onCopyItem(copyHistory[selectedItem].content || '')}
+                    >
+                      <Copy size={16} />
+                      <span>Copy to Clipboard</span>
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <pre className="copy-detail-content">
+                  The exported content is not kept in the history. Open the file to see it.
+                </pre>
+              )}
             </div>
           </div>
         </div>
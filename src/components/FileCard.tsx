@@ -1,17 +1,52 @@
-import { useCallback, memo, useMemo } from 'react';
+import { useCallback, memo, useMemo, useState } from 'react';
 import { FileData } from '../types/FileTypes';
-import { Plus, X, FileText, Eye, FileWarning } from 'lucide-react';
-import CopyButton from './CopyButton';
+import {
+  Plus,
+  X,
+  FileText,
+  Eye,
+  FileWarning,
+  Pin,
+  PinOff,
+  ListTree,
+  FoldVertical,
+  Copy,
+  Check,
+} from 'lucide-react';
+import { FileInclusionMode } from '../types/OutlineTypes';
+import { supportsOutline } from '../utils/outlineUtils';
+import { LineRange } from '../types/LineRangeTypes';
+import { formatLineRanges } from '../utils/lineRangeUtils';
+import { describeBinaryReason } from '../utils/fileTreeUtils';
 
 interface FileCardComponentProps {
   file: FileData;
   isSelected: boolean;
   toggleSelection: (path: string) => void;
   onPreview: (filePath: string) => void; // Add onPreview prop
+  isPinned?: boolean; // Pinned files are always kept when fitting to a token budget
+  onTogglePin?: (filePath: string) => void;
+  adjustedTokenCount?: number; // Token count after outline/sample mode and compression, when any applies
+  mode?: FileInclusionMode;
+  onModeChange?: (filePath: string, mode: FileInclusionMode) => void;
+  lineRanges?: LineRange[]; // Only these lines are included, edited from the preview
+  onCopy?: (filePath: string) => Promise<boolean>; // Copies the file after the secret review
 }
 
-const FileCard = ({ file, isSelected, toggleSelection, onPreview }: FileCardComponentProps) => {
-  const { name, path: filePath, tokenCount, isBinary, size } = file;
+const FileCard = ({
+  file,
+  isSelected,
+  toggleSelection,
+  onPreview,
+  isPinned = false,
+  onTogglePin,
+  adjustedTokenCount,
+  mode = 'full',
+  onModeChange,
+  lineRanges,
+  onCopy,
+}: FileCardComponentProps) => {
+  const { name, path: filePath, tokenCount, isBinary, size, hasSampleContent, isSampled } = file;
 
   // Format file size for display
   const formatFileSize = (bytes: number) => {
@@ -22,6 +57,12 @@ const FileCard = ({ file, isSelected, toggleSelection, onPreview }: FileCardComp
 
   const formattedSize = useMemo(() => formatFileSize(size || 0), [size]);
   const formattedTokens = tokenCount.toLocaleString();
+  const canOutline = useMemo(() => !isBinary && supportsOutline(name), [isBinary, name]);
+  const hasLineRanges = !!lineRanges && lineRanges.length > 0;
+  // Line ranges take precedence over outline and sample mode
+  const isOutline = mode === 'outline' && !hasLineRanges;
+  const canSample = !isBinary && !!hasSampleContent;
+  const isSample = mode === 'sample' && canSample && !hasLineRanges;
 
   // Memoize event handlers to prevent unnecessary re-renders
   const handleToggleSelection = useCallback(() => {
@@ -32,22 +73,89 @@ const FileCard = ({ file, isSelected, toggleSelection, onPreview }: FileCardComp
     onPreview(filePath);
   }, [onPreview, filePath]);
 
+  const handleTogglePin = useCallback(() => {
+    onTogglePin?.(filePath);
+  }, [onTogglePin, filePath]);
+
+  const handleToggleMode = useCallback(() => {
+    onModeChange?.(filePath, isOutline ? 'full' : 'outline');
+  }, [onModeChange, filePath, isOutline]);
+
+  const handleToggleSample = useCallback(() => {
+    onModeChange?.(filePath, isSample ? 'full' : 'sample');
+  }, [onModeChange, filePath, isSample]);
+
+  const [copied, setCopied] = useState(false);
+  const handleCopy = useCallback(async () => {
+    if (!onCopy || !(await onCopy(filePath))) return;
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [onCopy, filePath]);
+
   return (
-    <div className={`file-card ${isSelected ? 'selected' : ''} ${isBinary ? 'binary-card' : ''}`}>
+    <div
+      className={`file-card ${isSelected ? 'selected' : ''} ${isBinary ? 'binary-card' : ''} ${isPinned ? 'pinned' : ''}`}
+    >
       <div className="file-card-header">
         <div className="file-card-icon">
           {isBinary ? <FileWarning size={16} /> : <FileText size={16} />}
         </div>
         <div className="file-card-name monospace">
           {name}
-          {isBinary && <span className="file-card-binary-badge">Binary</span>}
+          {isBinary && (
+            <span className="file-card-binary-badge" title={describeBinaryReason(file)}>
+              Binary
+            </span>
+          )}
+          {isOutline && <span className="file-card-outline-badge">Outline</span>}
+          {(isSample || isSampled) && (
+            <span
+              className="file-card-outline-badge"
+              title={
+                isSampled
+                  ? 'Too large to include in full, so only a sample is included'
+                  : 'Only the first and last rows are included'
+              }
+            >
+              Sample
+            </span>
+          )}
+          {hasLineRanges && (
+            <span
+              className="file-card-outline-badge"
+              title="Only these lines are included. Edit them from the file preview."
+            >
+              Lines {formatLineRanges(lineRanges)}
+            </span>
+          )}
+          {isPinned && <Pin size={12} className="file-card-pin-indicator" aria-label="Pinned" />}
         </div>
       </div>
       <div className="file-card-info">
         {isBinary ? (
           <div className="file-card-file-size">~{formattedSize}</div>
         ) : (
-          <div className="file-card-tokens">~{formattedTokens} tokens</div>
+          <div className="file-card-tokens">
+            {isOutline ? (
+              <span title={`~${formattedTokens} tokens in full`}>
+                ~{(adjustedTokenCount ?? tokenCount).toLocaleString()} tokens (outline)
+              </span>
+            ) : isSample ? (
+              <span title={`~${formattedTokens} tokens in full`}>
+                ~{(adjustedTokenCount ?? tokenCount).toLocaleString()} tokens (sample)
+              </span>
+            ) : hasLineRanges ? (
+              <span title={`~${formattedTokens} tokens in full`}>
+                ~{(adjustedTokenCount ?? tokenCount).toLocaleString()} tokens (selected lines)
+              </span>
+            ) : adjustedTokenCount !== undefined && adjustedTokenCount !== tokenCount ? (
+              <span title="Tokens before → after compression">
+                ~{formattedTokens} → ~{adjustedTokenCount.toLocaleString()} tokens
+              </span>
+            ) : (
+              <>~{formattedTokens} tokens</>
+            )}
+          </div>
         )}
       </div>
 
@@ -72,9 +180,44 @@ const FileCard = ({ file, isSelected, toggleSelection, onPreview }: FileCardComp
             <button className="file-card-action" onClick={handlePreview} title="Preview File">
               <Eye size={16} />
             </button>
-            <CopyButton text={file.content} className="file-card-action">
-              {''}
-            </CopyButton>
+            {canOutline && onModeChange && (
+              <button
+                className={`file-card-action ${isOutline ? 'active' : ''}`}
+                onClick={handleToggleMode}
+                title={
+                  isOutline ? 'Include full file' : 'Include outline only (signatures, no bodies)'
+                }
+              >
+                <ListTree size={16} />
+              </button>
+            )}
+            {canSample && onModeChange && (
+              <button
+                className={`file-card-action ${isSample ? 'active' : ''}`}
+                onClick={handleToggleSample}
+                title={isSample ? 'Include full file' : 'Include a sample (first and last rows)'}
+              >
+                <FoldVertical size={16} />
+              </button>
+            )}
+            {onTogglePin && (
+              <button
+                className={`file-card-action ${isPinned ? 'active' : ''}`}
+                onClick={handleTogglePin}
+                title={isPinned ? 'Unpin file' : 'Pin file (always kept when fitting to budget)'}
+              >
+                {isPinned ? <PinOff size={16} /> : <Pin size={16} />}
+              </button>
+            )}
+            {file.isContentLoaded && onCopy && (
+              <button
+                className="file-card-action"
+                onClick={handleCopy}
+                title={copied ? 'Copied!' : 'Copy to clipboard'}
+              >
+                {copied ? <Check size={16} /> : <Copy size={16} />}
+              </button>
+            )}
           </>
         )}
       </div>
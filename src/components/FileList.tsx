@@ -6,7 +6,19 @@ import FilePreviewModal from './FilePreviewModal';
 import { arePathsEqual } from '../utils/pathUtils';
 
 // Add proper memoization to avoid unnecessary re-renders
-const FileList = ({ files, selectedFiles, toggleFileSelection }: FileListProps) => {
+const FileList = ({
+  files,
+  selectedFiles,
+  toggleFileSelection,
+  pinnedFiles = [],
+  togglePinnedFile,
+  adjustedTokenCounts,
+  fileModes,
+  setFileMode,
+  lineRanges,
+  setFileLineRanges,
+  onCopyFile,
+}: FileListProps) => {
   // Only show files that are in the selectedFiles array and not binary/skipped
   const displayableFiles = useMemo(
     () =>
@@ -56,9 +68,27 @@ const FileList = ({ files, selectedFiles, toggleFileSelection }: FileListProps)
         isSelected={true} // All displayed files are selected
         toggleSelection={toggleFileSelection}
         onPreview={handlePreview} // Pass the preview handler
+        isPinned={pinnedFiles.some((pinnedPath) => arePathsEqual(pinnedPath, file.path))}
+        onTogglePin={togglePinnedFile}
+        adjustedTokenCount={adjustedTokenCounts?.[file.path]}
+        mode={fileModes?.[file.path] || 'full'}
+        onModeChange={setFileMode}
+        lineRanges={lineRanges?.[file.path]}
+        onCopy={onCopyFile}
       />
     ));
-  }, [displayableFiles, toggleFileSelection, handlePreview]);
+  }, [
+    displayableFiles,
+    toggleFileSelection,
+    handlePreview,
+    pinnedFiles,
+    togglePinnedFile,
+    adjustedTokenCounts,
+    fileModes,
+    setFileMode,
+    lineRanges,
+    onCopyFile,
+  ]);
 
   return (
     <div className="file-list-container">
@@ -76,6 +106,8 @@ const FileList = ({ files, selectedFiles, toggleFileSelection }: FileListProps)
         onClose={handleClosePreview}
         files={previewFiles}
         initialActiveFile={activePreviewFile}
+        lineRanges={lineRanges}
+        onLineRangesChange={setFileLineRanges}
       />
     </div>
   );
@@ -1,16 +1,56 @@
 // src/components/FilePreviewModal.tsx
 import React from 'react';
-import { FileData } from '../types/FileTypes';
+import { FileData, TextEncoding } from '../types/FileTypes';
+import { LineRange } from '../types/LineRangeTypes';
+import { NotebookCell } from '../types/NotebookTypes';
+import { formatLineRanges, normalizeLineRanges } from '../utils/lineRangeUtils';
 
 interface FilePreviewModalProps {
   files: FileData[];
   isOpen: boolean;
   onClose: () => void;
   initialActiveFile?: string; // Add this prop
+  lineRanges?: Record<string, LineRange[]>; // Included line ranges, by file path
+  onLineRangesChange?: (filePath: string, ranges: LineRange[]) => void; // Enables range selection
 }
 
-const FilePreviewModal = ({ files, isOpen, onClose, initialActiveFile }: FilePreviewModalProps) => {
+const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 with BOM',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 (Latin-1)',
+};
+
+/**
+ * Finds the 1-based line number of the preview line containing a DOM node
+ */
+const getLineNumber = (node: Node | null): number | null => {
+  const element = node instanceof Element ? node : node?.parentElement;
+  const line = element?.closest('[data-line]');
+  return line ? Number(line.getAttribute('data-line')) : null;
+};
+
+/**
+ * Heading for a notebook cell, e.g. "In [3]" for an executed code cell
+ */
+const getCellLabel = (cell: NotebookCell): string => {
+  if (cell.type === 'markdown') return 'Markdown';
+  if (cell.type === 'raw') return 'Raw';
+  return `In [${cell.executionCount ?? ' '}]`;
+};
+
+const FilePreviewModal = ({
+  files,
+  isOpen,
+  onClose,
+  initialActiveFile,
+  lineRanges,
+  onLineRangesChange,
+}: FilePreviewModalProps) => {
   const [activeFile, setActiveFile] = React.useState(() => initialActiveFile as string | undefined);
+  // Lines currently highlighted with the mouse, offered as a new range
+  const [pendingRange, setPendingRange] = React.useState(null as LineRange | null);
 
   // Set the initial active file when the modal opens or files change
   React.useEffect(() => {
@@ -19,11 +59,91 @@ const FilePreviewModal = ({ files, isOpen, onClose, initialActiveFile }: FilePre
     }
   }, [isOpen, files, initialActiveFile]);
 
+  React.useEffect(() => {
+    setPendingRange(null);
+  }, [activeFile, isOpen]);
+
+  const activeFileData = files.find((file) => file.path === activeFile);
+  const lines = React.useMemo(
+    () => (activeFileData ? activeFileData.content.split('\n') : []),
+    [activeFileData]
+  );
+
   if (!isOpen) {
     return null;
   }
 
-  const activeFileData = files.find((file) => file.path === activeFile);
+  const activeRanges = (activeFile && lineRanges?.[activeFile]) || [];
+  const isLineIncluded = (lineNumber: number) =>
+    activeRanges.some((range) => lineNumber >= range.start && lineNumber <= range.end);
+
+  // Turn the current text selection into a pending line range
+  const handleSelectionEnd = () => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed) {
+      setPendingRange(null);
+      return;
+    }
+    const start = getLineNumber(selection.anchorNode);
+    const end = getLineNumber(selection.focusNode);
+    setPendingRange(
+      start && end ? { start: Math.min(start, end), end: Math.max(start, end) } : null
+    );
+  };
+
+  const handleAddRange = () => {
+    if (!activeFile || !pendingRange || !onLineRangesChange) return;
+    onLineRangesChange(
+      activeFile,
+      normalizeLineRanges([...activeRanges, pendingRange], lines.length)
+    );
+    setPendingRange(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const renderLine = (lineNumber: number, extraClassName = '') => (
+    <div
+      key={lineNumber}
+      data-line={lineNumber}
+      className={`file-preview-line ${extraClassName} ${
+        activeRanges.length > 0 && isLineIncluded(lineNumber) ? 'included' : ''
+      }`}
+    >
+      <span className="file-preview-line-number" aria-hidden="true">
+        {lineNumber}
+      </span>
+      {lines[lineNumber - 1] || ' '}
+    </div>
+  );
+
+  // Notebooks show one block per cell, without the "# %%" header lines
+  const renderNotebookCells = (cells: NotebookCell[]) => (
+    <div
+      className="file-preview-notebook"
+      onMouseUp={onLineRangesChange ? handleSelectionEnd : undefined}
+    >
+      {cells.map((cell) => (
+        <div key={cell.startLine} className={`file-preview-notebook-cell ${cell.type}`}>
+          <div className="file-preview-notebook-cell-label">{getCellLabel(cell)}</div>
+          <pre className="file-preview-code file-preview-code-lines monospace">
+            {Array.from({ length: cell.endLine - cell.startLine }, (_, index) => {
+              const lineNumber = cell.startLine + index + 1;
+              const isOutput = !!cell.outputStartLine && lineNumber >= cell.outputStartLine;
+              return renderLine(lineNumber, isOutput ? 'output' : '');
+            })}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+
+  const handleRemoveRange = (rangeToRemove: LineRange) => {
+    if (!activeFile || !onLineRangesChange) return;
+    onLineRangesChange(
+      activeFile,
+      activeRanges.filter((range) => range !== rangeToRemove)
+    );
+  };
 
   return (
     <div className="file-preview-modal-overlay" onClick={onClose}>
@@ -44,10 +164,62 @@ const FilePreviewModal = ({ files, isOpen, onClose, initialActiveFile }: FilePre
             Close
           </button>
         </div>
+        {activeFileData?.textEncoding && (
+          <div className="file-preview-file-info">
+            Encoding: {TEXT_ENCODING_LABELS[activeFileData.textEncoding]}
+          </div>
+        )}
+        {activeFileData && onLineRangesChange && (
+          <div className="file-preview-range-bar">
+            <span className="file-preview-range-summary">
+              {activeRanges.length > 0
+                ? `Including lines ${formatLineRanges(activeRanges)}`
+                : 'Including the whole file. Select lines to include only part of it.'}
+            </span>
+            {activeRanges.map((range) => (
+              <button
+                key={`${range.start}-${range.end}`}
+                className="file-preview-range-chip"
+                onClick={() => handleRemoveRange(range)}
+                title="Remove this range"
+              >
+                {formatLineRanges([range])} &times;
+              </button>
+            ))}
+            <button
+              className="file-preview-range-add"
+              onClick={handleAddRange}
+              disabled={!pendingRange}
+            >
+              {pendingRange ? `Add Range ${formatLineRanges([pendingRange])}` : 'Add Range'}
+            </button>
+            {activeRanges.length > 0 && (
+              <button
+                className="file-preview-range-clear"
+                onClick={() => onLineRangesChange(activeFileData.path, [])}
+              >
+                Include Whole File
+              </button>
+            )}
+          </div>
+        )}
         <div className="file-preview-modal-content">
-          {activeFileData ? (
+          {activeFileData && !activeFileData.isContentLoaded ? (
+            <div className="file-preview-loading">Loading file content...</div>
+          ) : activeFileData ? (
             <div className="file-preview-code-container">
-              <pre className="file-preview-code monospace">{activeFileData.content}</pre>
+              {activeFileData.notebookCells ? (
+                renderNotebookCells(activeFileData.notebookCells)
+              ) : onLineRangesChange ? (
+                <pre
+                  className="file-preview-code file-preview-code-lines monospace"
+                  onMouseUp={handleSelectionEnd}
+                >
+                  {lines.map((_, index) => renderLine(index + 1))}
+                </pre>
+              ) : (
+                <pre className="file-preview-code monospace">{activeFileData.content}</pre>
+              )}
               <div className="file-preview-code-spacer"></div>
             </div>
           ) : (
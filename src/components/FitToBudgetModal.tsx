@@ -0,0 +1,175 @@
+import { useState, useMemo } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { FileData } from '../types/FileTypes';
+import { BudgetCandidate, DEFAULT_BUDGET_SETTINGS } from '../types/BudgetTypes';
+import { calculateTokenBudget, fitSelectionToBudget } from '../utils/budgetUtils';
+import { basename, normalizePath } from '../utils/pathUtils';
+
+interface FitToBudgetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modelName: string;
+  contextLength: number;
+  files: FileData[]; // Currently selected files
+  pinnedFiles: string[];
+  focusFolder: string | null;
+  overheadTokens: number; // Tokens used by tree, tags and instructions
+  onApply: (keptFiles: string[]) => void;
+}
+
+const PRIORITY_LABELS: Record<BudgetCandidate['priority'], string> = {
+  pinned: 'Pinned',
+  focused: 'In focused folder',
+  nearby: 'Outside focused folder',
+  other: 'Lowest priority',
+};
+
+/**
+ * Previews which selected files would be dropped to fit the selected model's
+ * context window, and only changes the selection once the user applies it.
+ */
+const FitToBudgetModal = ({
+  isOpen,
+  onClose,
+  modelName,
+  contextLength,
+  files,
+  pinnedFiles,
+  focusFolder,
+  overheadTokens,
+  onApply,
+}: FitToBudgetModalProps) => {
+  const [targetPercentage, setTargetPercentage] = useState(
+    DEFAULT_BUDGET_SETTINGS.targetPercentage
+  );
+  const [reservedResponseTokens, setReservedResponseTokens] = useState(
+    DEFAULT_BUDGET_SETTINGS.reservedResponseTokens
+  );
+
+  const result = useMemo(() => {
+    const budget = calculateTokenBudget(
+      contextLength,
+      { targetPercentage, reservedResponseTokens },
+      overheadTokens
+    );
+    return fitSelectionToBudget(files, pinnedFiles, focusFolder, budget);
+  }, [
+    contextLength,
+    targetPercentage,
+    reservedResponseTokens,
+    overheadTokens,
+    files,
+    pinnedFiles,
+    focusFolder,
+  ]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleApply = () => {
+    onApply(result.keptFiles);
+    onClose();
+  };
+
+  return (
+    <div className="fit-budget-modal-overlay" onClick={onClose}>
+      <div className="fit-budget-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="fit-budget-modal-header">
+          <h3>Fit to Budget</h3>
+          <button
+            className="fit-budget-modal-close-button"
+            onClick={onClose}
+            aria-label="Close fit to budget modal"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="fit-budget-modal-content">
+          <div className="fit-budget-settings">
+            <label htmlFor="budgetTargetPercentage">
+              Target % of {modelName} context ({contextLength.toLocaleString()} tokens)
+            </label>
+            <input
+              id="budgetTargetPercentage"
+              type="number"
+              min={1}
+              max={100}
+              value={targetPercentage}
+              onChange={(e) => setTargetPercentage(Number(e.target.value) || 1)}
+            />
+            <label htmlFor="budgetReservedTokens">Reserve for response (tokens)</label>
+            <input
+              id="budgetReservedTokens"
+              type="number"
+              min={0}
+              step={1024}
+              value={reservedResponseTokens}
+              onChange={(e) => setReservedResponseTokens(Math.max(Number(e.target.value), 0))}
+            />
+          </div>
+
+          <div className="fit-budget-summary">
+            <div>
+              Budget for file contents: <strong>{result.budget.toLocaleString()}</strong> tokens
+              {focusFolder && (
+                <span className="fit-budget-focus">
+                  {' '}
+                  (prioritizing <code>{basename(focusFolder)}</code>)
+                </span>
+              )}
+            </div>
+            <div>
+              Keeping {result.keptFiles.length} files ({result.keptTokens.toLocaleString()} tokens),
+              dropping {result.droppedFiles.length} files ({result.droppedTokens.toLocaleString()}{' '}
+              tokens)
+            </div>
+            {result.pinnedOverBudget && (
+              <div className="fit-budget-warning">
+                Pinned files alone exceed the budget. Unpin some files to fit the context window.
+              </div>
+            )}
+          </div>
+
+          {result.droppedFiles.length > 0 ? (
+            <ul className="fit-budget-dropped-list">
+              {result.droppedFiles.map((candidate) => (
+                <li key={candidate.path} className="fit-budget-dropped-item">
+                  <span className="fit-budget-dropped-path monospace" title={candidate.path}>
+                    {normalizePath(candidate.path)}
+                  </span>
+                  <span className="fit-budget-dropped-meta">
+                    {PRIORITY_LABELS[candidate.priority]} · ~{candidate.tokenCount.toLocaleString()}{' '}
+                    tokens
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="fit-budget-empty">
+              <CheckCircle size={16} />
+              <span>The current selection already fits this budget.</span>
+            </div>
+          )}
+
+          <div className="fit-budget-footer">
+            <button className="fit-budget-cancel-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className="primary fit-budget-apply-button"
+              onClick={handleApply}
+              disabled={result.droppedFiles.length === 0}
+            >
+              Drop {result.droppedFiles.length} files
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FitToBudgetModal;
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useIgnorePatterns } from '../hooks/useIgnorePatterns';
+import { BinaryOverrides, SymlinkMode } from '../types/FileTypes';
 // ToggleSwitch is now defined below
 
 interface IgnoreModeToggleProps {
@@ -110,14 +111,24 @@ export const IgnoreListModal = ({
   ignoreSettingsModified,
 }: IgnoreListModalProps): JSX.Element | null => {
   const [searchTerm, setSearchTerm] = useState('');
-  const { ignoreMode, setIgnoreMode, customIgnores, setCustomIgnores } = useIgnorePatterns(
-    selectedFolder,
-    isElectron
-  );
+  const {
+    ignoreMode,
+    setIgnoreMode,
+    customIgnores,
+    setCustomIgnores,
+    binaryOverrides,
+    setBinaryOverrides,
+    symlinkMode,
+    setSymlinkMode,
+  } = useIgnorePatterns(selectedFolder, isElectron);
   const [customIgnoreInput, setCustomIgnoreInput] = useState('');
+  const [overrideExtensionInput, setOverrideExtensionInput] = useState('');
+  const [overrideDecision, setOverrideDecision] = useState('text' as 'binary' | 'text');
   const initialIgnoreModeRef = useRef(ignoreMode);
   const initialIgnoreSettingsModifiedRef = useRef(ignoreSettingsModified);
   const initialCustomIgnoresRef = useRef(customIgnores);
+  const initialBinaryOverridesRef = useRef(binaryOverrides);
+  const initialSymlinkModeRef = useRef(symlinkMode);
 
   // snapshot once on open
   useEffect(() => {
@@ -125,6 +136,8 @@ export const IgnoreListModal = ({
       initialIgnoreModeRef.current = ignoreMode;
       initialIgnoreSettingsModifiedRef.current = ignoreSettingsModified;
       initialCustomIgnoresRef.current = customIgnores;
+      initialBinaryOverridesRef.current = binaryOverrides;
+      initialSymlinkModeRef.current = symlinkMode;
     }
   }, [isOpen]); // leave as is
 
@@ -151,13 +164,33 @@ export const IgnoreListModal = ({
     const customIgnoresChanged =
       ignoreMode === 'global' &&
       JSON.stringify(initialCustomIgnoresRef.current) !== JSON.stringify(customIgnores);
+    const binaryOverridesChanged =
+      JSON.stringify(initialBinaryOverridesRef.current) !== JSON.stringify(binaryOverrides);
     const changesMade =
       modeChanged ||
       customIgnoresChanged ||
+      binaryOverridesChanged ||
+      initialSymlinkModeRef.current !== symlinkMode ||
       initialIgnoreSettingsModifiedRef.current !== ignoreSettingsModified;
     onClose(changesMade);
   };
 
+  const addBinaryOverride = () => {
+    const extension = overrideExtensionInput
+      .trim()
+      .toLowerCase()
+      .replace(/^\*?\.?/, '');
+    if (!extension) return;
+    setBinaryOverrides({ ...binaryOverrides, [`.${extension}`]: overrideDecision });
+    setOverrideExtensionInput('');
+  };
+
+  const removeBinaryOverride = (extension: string) => {
+    const remaining: BinaryOverrides = { ...binaryOverrides };
+    delete remaining[extension];
+    setBinaryOverrides(remaining);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -205,6 +238,81 @@ export const IgnoreListModal = ({
               </div>
             </div>
           </div>
+          {/* Binary detection overrides - apply in both modes */}
+          <div className="custom-global-ignores binary-overrides">
+            <h4>Binary File Detection</h4>
+            <p className="binary-overrides-description">
+              Files are treated as binary by their extension or, for other extensions, by sniffing
+              their first few KB. Override the decision for an extension here.
+            </p>
+
+            <div className="custom-ignore-input">
+              <input
+                type="text"
+                placeholder="Extension, e.g. .dat"
+                value={overrideExtensionInput}
+                onChange={(e) => setOverrideExtensionInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') addBinaryOverride();
+                }}
+              />
+              <select
+                className="binary-override-select"
+                value={overrideDecision}
+                onChange={(e) => setOverrideDecision(e.target.value as 'binary' | 'text')}
+                aria-label="Treat files with this extension as"
+              >
+                <option value="text">Always text</option>
+                <option value="binary">Always binary</option>
+              </select>
+              <button className="add-pattern-button" onClick={addBinaryOverride}>
+                Add Override
+              </button>
+            </div>
+
+            {Object.keys(binaryOverrides).length > 0 && (
+              <div className="custom-ignore-list">
+                <ul>
+                  {Object.entries(binaryOverrides)
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([extension, decision]) => (
+                      <li key={extension}>
+                        <span>
+                          <code>{extension}</code> always {decision}
+                        </span>
+                        <button
+                          className="remove-pattern-button"
+                          onClick={() => removeBinaryOverride(extension)}
+                          aria-label={`Remove override for ${extension}`}
+                        >
+                          X
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Symbolic links - apply in both modes */}
+          <div className="custom-global-ignores symlink-settings">
+            <h4>Symbolic Links</h4>
+            <p className="symlink-settings-description">
+              Followed links are shown with their target. Files reached through several links are
+              listed once, and link cycles are skipped.
+            </p>
+            <select
+              className="symlink-mode-select"
+              value={symlinkMode}
+              onChange={(e) => setSymlinkMode(e.target.value as SymlinkMode)}
+              aria-label="Follow symbolic links"
+            >
+              <option value="off">Do not follow</option>
+              <option value="files">Follow links to files</option>
+              <option value="all">Follow links to files and directories</option>
+            </select>
+          </div>
+
           {/* Display mode info even without selected folder */}
           {!selectedFolder && (
             <div className="ignore-patterns-empty-state">
@@ -1,5 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ModelInfo } from '../types/ModelTypes';
+import { TokenizerStrategy } from '../types/TokenizerTypes';
+import { CostEstimate } from '../types/CostTypes';
+import { describeTokenizer } from '../utils/tokenizerUtils';
+import { formatCost, formatPricePerMillion } from '../utils/costUtils';
 import { formatContextLength } from '../utils/modelUtils';
 import { useModels } from '../hooks/useModels';
 
@@ -8,6 +12,12 @@ interface ModelDropdownProps {
   externalSelectedModelId?: string;
   onModelSelect?: (modelId: string) => void;
   currentTokenCount?: number;
+  tokenizer?: TokenizerStrategy; // How the token counts were made, shown as exact or estimated
+  onFitToBudget?: (model: ModelInfo) => void;
+  onSelectedModelChange?: (model: ModelInfo | undefined) => void; // Reports the selected model's info
+  costEstimate?: CostEstimate | null; // Null when the selected model has no pricing
+  expectedOutputTokens?: number;
+  onExpectedOutputTokensChange?: (tokens: number) => void;
 }
 
 /**
@@ -19,6 +29,12 @@ const ModelDropdown = ({
   externalSelectedModelId,
   onModelSelect,
   currentTokenCount = 0,
+  tokenizer,
+  onFitToBudget,
+  onSelectedModelChange,
+  costEstimate,
+  expectedOutputTokens = 0,
+  onExpectedOutputTokensChange,
 }: ModelDropdownProps): JSX.Element => {
   const {
     models,
@@ -42,6 +58,20 @@ const ModelDropdown = ({
     }
   }, [externalSelectedModelId, selectedModelId, setSelectedModelId]);
 
+  // Report the model the dropdown picked by itself (the first one) when none was saved,
+  // so token counts use its tokenizer
+  useEffect(() => {
+    if (selectedModelId && !externalSelectedModelId && onModelSelect) {
+      onModelSelect(selectedModelId);
+    }
+  }, [selectedModelId, externalSelectedModelId, onModelSelect]);
+
+  useEffect(() => {
+    if (onSelectedModelChange) {
+      onSelectedModelChange(selectedModel);
+    }
+  }, [selectedModel, onSelectedModelChange]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -138,13 +168,76 @@ const ModelDropdown = ({
                   {currentTokenCount.toLocaleString()}
                 </span>{' '}
                 / {selectedModel.context_length.toLocaleString()} tokens
+                {tokenizer && (
+                  <span
+                    className={`token-count-method ${tokenizer.exact ? 'exact' : 'estimated'}`}
+                    title={describeTokenizer(tokenizer)}
+                  >
+                    {tokenizer.exact ? 'exact' : 'estimated'}
+                  </span>
+                )}
               </div>
               {isContextExceeded && (
                 <span className="context-warning">
                   Exceeds limit by {exceedsByTokens.toLocaleString()} tokens
                 </span>
               )}
+              {onFitToBudget && warningLevel !== 'normal' && (
+                <button
+                  type="button"
+                  className="fit-budget-button"
+                  onClick={() => onFitToBudget(selectedModel)}
+                  title="Drop lower-priority files to fit this model's context window"
+                >
+                  Fit to budget
+                </button>
+              )}
             </div>
+            {costEstimate !== undefined && (
+              <div className="cost-estimate">
+                {costEstimate && selectedModel.pricing ? (
+                  <>
+                    <span
+                      title={`Input ${formatPricePerMillion(selectedModel.pricing.prompt)}, output ${formatPricePerMillion(selectedModel.pricing.completion)} tokens`}
+                    >
+                      Est. input cost{' '}
+                      <span className="cost-estimate-value">
+                        {formatCost(costEstimate.inputCost)}
+                      </span>
+                    </span>
+                    {onExpectedOutputTokensChange && (
+                      <label className="cost-estimate-output">
+                        Output tokens
+                        <input
+                          type="number"
+                          min={0}
+                          step={500}
+                          value={expectedOutputTokens}
+                          onChange={(e) =>
+                            onExpectedOutputTokensChange(
+                              Math.max(0, parseInt(e.target.value, 10) || 0)
+                            )
+                          }
+                          aria-label="Expected output tokens"
+                        />
+                      </label>
+                    )}
+                    {costEstimate.outputTokens > 0 && (
+                      <span>
+                        Total{' '}
+                        <span className="cost-estimate-value">
+                          {formatCost(costEstimate.totalCost)}
+                        </span>
+                      </span>
+                    )}
+                  </>
+                ) : (
+                  <span className="cost-estimate-unavailable">
+                    No pricing listed for this model
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
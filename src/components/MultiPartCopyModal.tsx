@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { ContentPart, MIN_PART_TOKEN_LIMIT } from '../types/MultiPartTypes';
+
+interface MultiPartCopyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parts: ContentPart[];
+  tokenLimit: number;
+  onTokenLimitChange: (tokenLimit: number) => void;
+  onCopyPart: (part: ContentPart) => Promise<boolean>;
+}
+
+/**
+ * Dialog for copying an oversized selection as numbered parts, one at a time
+ */
+const MultiPartCopyModal = ({
+  isOpen,
+  onClose,
+  parts,
+  tokenLimit,
+  onTokenLimitChange,
+  onCopyPart,
+}: MultiPartCopyModalProps) => {
+  const [copiedParts, setCopiedParts] = useState([] as number[]);
+  const [limitInput, setLimitInput] = useState(String(tokenLimit));
+
+  // Any change to the parts invalidates what has been copied so far
+  useEffect(() => {
+    setCopiedParts([]);
+  }, [parts]);
+
+  useEffect(() => {
+    setLimitInput(String(tokenLimit));
+  }, [tokenLimit]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const nextPart = parts.find((part) => !copiedParts.includes(part.index));
+
+  const handleCopyPart = async (part: ContentPart) => {
+    const copied = await onCopyPart(part);
+    if (copied) {
+      setCopiedParts((prev: number[]) =>
+        prev.includes(part.index) ? prev : [...prev, part.index]
+      );
+    }
+  };
+
+  const handleLimitCommit = () => {
+    const parsedLimit = parseInt(limitInput, 10);
+    if (isNaN(parsedLimit) || parsedLimit < MIN_PART_TOKEN_LIMIT) {
+      setLimitInput(String(tokenLimit));
+      return;
+    }
+    if (parsedLimit !== tokenLimit) {
+      onTokenLimitChange(parsedLimit);
+    }
+  };
+
+  return (
+    <div className="multi-part-modal-overlay" onClick={onClose}>
+      <div className="multi-part-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="multi-part-modal-header">
+          <h3>Copy in Parts</h3>
+          <button
+            className="multi-part-modal-close-button"
+            onClick={onClose}
+            aria-label="Close multi-part copy modal"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="multi-part-modal-content">
+          <div className="multi-part-settings">
+            <label htmlFor="partTokenLimit">Max tokens per part</label>
+            <input
+              id="partTokenLimit"
+              type="number"
+              min={MIN_PART_TOKEN_LIMIT}
+              step={1000}
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              onBlur={handleLimitCommit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleLimitCommit();
+              }}
+            />
+          </div>
+
+          {parts.length === 0 ? (
+            <div className="multi-part-empty">No files selected.</div>
+          ) : (
+            <ul className="multi-part-list">
+              {parts.map((part) => {
+                const isCopied = copiedParts.includes(part.index);
+                return (
+                  <li
+                    key={part.index}
+                    className={`multi-part-item ${isCopied ? 'copied' : ''} ${
+                      nextPart?.index === part.index ? 'next' : ''
+                    }`}
+                  >
+                    <div className="multi-part-item-info">
+                      <span className="multi-part-item-title">
+                        Part {part.index} of {part.total}
+                      </span>
+                      <span className="multi-part-item-meta">
+                        {part.fileCount} {part.fileCount === 1 ? 'file' : 'files'} · ~
+                        {part.estimatedTokens.toLocaleString()} tokens
+                      </span>
+                    </div>
+                    <button
+                      className="multi-part-item-copy-button"
+                      onClick={() => handleCopyPart(part)}
+                      title={`Copy part ${part.index}`}
+                    >
+                      {isCopied ? <Check size={14} /> : <Copy size={14} />}
+                      <span>{isCopied ? 'Copied' : 'Copy'}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="multi-part-footer">
+            <span className="multi-part-progress">
+              {copiedParts.length} of {parts.length} parts copied
+            </span>
+            <button
+              className="primary multi-part-next-button"
+              onClick={() => nextPart && handleCopyPart(nextPart)}
+              disabled={!nextPart}
+            >
+              {nextPart ? `Copy Part ${nextPart.index}` : 'All Parts Copied'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultiPartCopyModal;
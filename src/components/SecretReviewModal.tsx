@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { SecretFinding } from '../types/SecretTypes';
+import { maskSecret } from '../utils/secretScanUtils';
+import { basename } from '../utils/pathUtils';
+
+interface SecretReviewModalProps {
+  isOpen: boolean;
+  findings: SecretFinding[];
+  onCancel: () => void;
+  onCopy: (findingsToRedact: SecretFinding[]) => void;
+  actionLabel?: string; // Verb for the confirm buttons, e.g. "Save" when exporting to a file
+}
+
+/**
+ * Lists possible secrets found in the content about to be copied and lets the
+ * user redact each one, all of them, or copy (or save) the content unchanged
+ */
+const SecretReviewModal = ({
+  isOpen,
+  findings,
+  onCancel,
+  onCopy,
+  actionLabel = 'Copy',
+}: SecretReviewModalProps) => {
+  const [redactedIds, setRedactedIds] = useState([] as string[]);
+
+  // Start each review with nothing redacted
+  useEffect(() => {
+    setRedactedIds([]);
+  }, [findings]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const redactableFindings = findings.filter((finding) => finding.value);
+
+  const toggleRedaction = (id: string) => {
+    setRedactedIds((prev: string[]) =>
+      prev.includes(id) ? prev.filter((existingId) => existingId !== id) : [...prev, id]
+    );
+  };
+
+  const handleCopySelected = () => {
+    onCopy(redactableFindings.filter((finding) => redactedIds.includes(finding.id)));
+  };
+
+  return (
+    <div className="secret-review-modal-overlay" onClick={onCancel}>
+      <div className="secret-review-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="secret-review-modal-header">
+          <h3>
+            <ShieldAlert size={18} /> Possible Secrets Found
+          </h3>
+          <button
+            className="secret-review-modal-close-button"
+            onClick={onCancel}
+            aria-label="Close secret review"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="secret-review-modal-content">
+          <p className="secret-review-intro">
+            The content you are about to {actionLabel.toLowerCase()} may contain {findings.length}{' '}
+            {findings.length === 1 ? 'secret' : 'secrets'}. Redacted values are replaced with a
+            placeholder.
+          </p>
+
+          <ul className="secret-review-list">
+            {findings.map((finding) => (
+              <li key={finding.id} className="secret-review-item">
+                <div className="secret-review-item-info">
+                  <span className="secret-review-item-label">{finding.label}</span>
+                  <span
+                    className="secret-review-item-location monospace"
+                    title={finding.filePath || ''}
+                  >
+                    {finding.filePath ? basename(finding.filePath) : 'Instructions or other text'}
+                  </span>
+                  {finding.value && (
+                    <code className="secret-review-item-value">{maskSecret(finding.value)}</code>
+                  )}
+                </div>
+                {finding.value ? (
+                  <label className="secret-review-item-toggle">
+                    <input
+                      type="checkbox"
+                      checked={redactedIds.includes(finding.id)}
+                      onChange={() => toggleRedaction(finding.id)}
+                    />
+                    Redact
+                  </label>
+                ) : (
+                  <span className="secret-review-item-note">Review file contents</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="secret-review-footer">
+            <button className="secret-review-cancel-button" onClick={onCancel}>
+              Cancel
+            </button>
+            <button className="secret-review-copy-button" onClick={handleCopySelected}>
+              {redactedIds.length > 0
+                ? `${actionLabel} with ${redactedIds.length} Redacted`
+                : `${actionLabel} As Is`}
+            </button>
+            <button
+              className="primary secret-review-redact-all-button"
+              onClick={() => onCopy(redactableFindings)}
+              disabled={redactableFindings.length === 0}
+            >
+              Redact All &amp; {actionLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecretReviewModal;
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { SidebarProps, TreeNode } from '../types/FileTypes';
+import { buildWorkspaceFileTree } from '../utils/fileTreeUtils';
 import SearchBar from './SearchBar';
 import TreeItem from './TreeItem';
 import TaskTypeSelector from './TaskTypeSelector';
@@ -7,12 +8,6 @@ import { ListChecks, ListX } from 'lucide-react';
 import ExpandAllIcon from './base/ExpandAllIcon';
 import CollapseAllIcon from './base/CollapseAllIcon';
 
-/**
- * Import path utilities for handling file paths across different operating systems.
- * While not all utilities are used directly, they're kept for consistency and future use.
- */
-import { normalizePath, join, isSubPath } from '../utils/pathUtils';
-
 /**
  * The Sidebar component displays a tree view of files and folders, allowing users to:
  * - Navigate through the file structure
@@ -21,7 +16,7 @@ import { normalizePath, join, isSubPath } from '../utils/pathUtils';
  * - Resize the sidebar width
  */
 const Sidebar = ({
-  selectedFolder,
+  rootFolders,
   allFiles,
   selectedFiles,
   toggleFileSelection,
@@ -40,6 +35,7 @@ const Sidebar = ({
   expandAllFolders,
   selectedFolderNode,
   setSelectedFolderNode,
+  secretFindingCounts,
 }: Omit<SidebarProps, 'openFolder'>) => {
   // State for managing the file tree and UI
   const [fileTree, setFileTree] = useState(() => [] as TreeNode[]);
@@ -101,127 +97,7 @@ const Sidebar = ({
       setIsTreeBuildingComplete(false);
 
       try {
-        // Create a structured representation using nested objects first
-        const fileMap: Record<string, any> = {};
-
-        // First pass: create directories and files
-        allFiles.forEach((file) => {
-          if (!file.path) return;
-
-          // Normalize both the selectedFolder and file.path
-          const normalizedSelectedFolder = selectedFolder ? normalizePath(selectedFolder) : '';
-          const normalizedFilePath = normalizePath(file.path);
-
-          // Get the relative path by removing the selectedFolder prefix if it exists
-          const relativePath =
-            normalizedSelectedFolder && isSubPath(normalizedSelectedFolder, normalizedFilePath)
-              ? normalizedFilePath.substring(normalizedSelectedFolder.length + 1) // +1 for the trailing slash
-              : normalizedFilePath;
-
-          const parts = relativePath.split('/');
-          let currentPath = '';
-          let current = fileMap;
-
-          // Build the path in the tree
-          for (let i = 0; i < parts.length; i++) {
-            const part = parts[i];
-            if (!part) continue;
-
-            // Build the current path segment
-            currentPath = currentPath ? join(currentPath, part) : part;
-
-            // For directory paths, prepend selectedFolder only for the full path
-            const fullPath = normalizedSelectedFolder
-              ? join(normalizedSelectedFolder, currentPath)
-              : currentPath;
-
-            if (i === parts.length - 1) {
-              // This is a file
-              current[part] = {
-                id: `node-${file.path}`,
-                name: part,
-                path: file.path, // Keep the original file path
-                type: 'file',
-                level: i,
-                fileData: file,
-              };
-            } else {
-              // This is a directory
-              if (!current[part]) {
-                current[part] = {
-                  id: `node-${fullPath}`,
-                  name: part,
-                  path: fullPath,
-                  type: 'directory',
-                  level: i,
-                  children: {},
-                };
-              }
-              current = current[part].children;
-            }
-          }
-        });
-
-        // Function to check if a directory contains binary files
-        const hasBinaryFiles = (files: TreeNode[]): boolean => {
-          return files.some((node) => {
-            if (node.type === 'file') {
-              return node.fileData?.isBinary || false;
-            }
-            return node.children ? hasBinaryFiles(node.children) : false;
-          });
-        };
-
-        // Convert nested object structure to TreeNode array format
-        const convertToTreeNodes = (node: Record<string, any>, level = 0): TreeNode[] => {
-          return Object.keys(node).map((key) => {
-            const item = node[key];
-            if (item.type === 'file') {
-              return item as TreeNode;
-            } else {
-              const children = convertToTreeNodes(item.children, level + 1);
-              const isExpanded =
-                expandedNodes[item.id] !== undefined ? expandedNodes[item.id] : true;
-
-              // Check if this directory contains any binary files
-              const hasBinaries = hasBinaryFiles(children);
-
-              return {
-                ...item,
-                children: children.sort((a, b) => {
-                  if (a.type === 'directory' && b.type === 'file') return -1;
-                  if (a.type === 'file' && b.type === 'directory') return 1;
-                  if (a.type === 'file' && b.type === 'file') {
-                    const aTokens = a.fileData?.tokenCount || 0;
-                    const bTokens = b.fileData?.tokenCount || 0;
-                    return bTokens - aTokens;
-                  }
-                  return a.name.localeCompare(b.name);
-                }),
-                isExpanded,
-                hasBinaries,
-              };
-            }
-          });
-        };
-
-        // Convert to proper tree structure and sort the top level
-        const treeRoots = convertToTreeNodes(fileMap);
-        const sortedTree = treeRoots.sort((a, b) => {
-          if (a.type === 'directory' && b.type === 'file') return -1;
-          if (a.type === 'file' && b.type === 'directory') return 1;
-
-          // Sort files by token count (largest first)
-          if (a.type === 'file' && b.type === 'file') {
-            const aTokens = a.fileData?.tokenCount || 0;
-            const bTokens = b.fileData?.tokenCount || 0;
-            return bTokens - aTokens;
-          }
-
-          return a.name.localeCompare(b.name);
-        });
-
-        setFileTree(sortedTree);
+        setFileTree(buildWorkspaceFileTree(allFiles, rootFolders, expandedNodes));
         setIsTreeBuildingComplete(true);
       } catch (err) {
         console.error('Error building file tree:', err);
@@ -233,7 +109,7 @@ const Sidebar = ({
     // Use a timeout to not block UI
     const buildTreeTimeoutId = setTimeout(buildTree, 0);
     return () => clearTimeout(buildTreeTimeoutId);
-  }, [allFiles, selectedFolder, expandedNodes]);
+  }, [allFiles, rootFolders, expandedNodes]);
 
   // Apply expanded state as a separate operation when expandedNodes change
   useEffect(() => {
@@ -337,6 +213,7 @@ const Sidebar = ({
         includeBinaryPaths={includeBinaryPaths}
         selectedFolderNode={selectedFolderNode}
         setSelectedFolderNode={setSelectedFolderNode}
+        secretFindingCount={secretFindingCounts ? secretFindingCounts[node.path] : undefined}
       />
     ));
   }, [
@@ -347,6 +224,7 @@ const Sidebar = ({
     toggleExpanded,
     selectedFolderNode,
     setSelectedFolderNode,
+    secretFindingCounts,
   ]);
 
   return (
@@ -0,0 +1,206 @@
+import { useState, useEffect, useMemo } from 'react';
+import { OutputTemplate, DEFAULT_TEMPLATE_SOURCE } from '../types/TemplateTypes';
+import {
+  TEMPLATE_PLACEHOLDERS,
+  TEMPLATE_FILE_PLACEHOLDERS,
+  getTemplateError,
+} from '../utils/templateUtils';
+
+interface TemplateEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: OutputTemplate[];
+  onTemplatesChange: (templates: OutputTemplate[]) => void;
+  renderPreview: (source: string) => string; // Renders a template with the current selection
+}
+
+// Long previews are cut so the modal stays responsive
+const MAX_PREVIEW_LENGTH = 20000;
+
+const EMPTY_TEMPLATE: OutputTemplate = { id: '', name: '', source: DEFAULT_TEMPLATE_SOURCE };
+
+/**
+ * Modal for creating, editing and previewing named output templates
+ */
+const TemplateEditorModal = ({
+  isOpen,
+  onClose,
+  templates,
+  onTemplatesChange,
+  renderPreview,
+}: TemplateEditorModalProps): JSX.Element | null => {
+  const [draft, setDraft] = useState(EMPTY_TEMPLATE);
+  const [validationError, setValidationError] = useState('');
+
+  // Start with a new template each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(EMPTY_TEMPLATE);
+      setValidationError('');
+    }
+  }, [isOpen]);
+
+  const templateError = useMemo(() => getTemplateError(draft.source), [draft.source]);
+
+  const preview = useMemo(() => {
+    if (!isOpen || templateError) return '';
+    const rendered = renderPreview(draft.source);
+    return rendered.length > MAX_PREVIEW_LENGTH
+      ? `${rendered.slice(0, MAX_PREVIEW_LENGTH)}\n\n... (preview truncated)`
+      : rendered;
+  }, [isOpen, templateError, draft.source, renderPreview]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      setValidationError('Template name is required.');
+      return;
+    }
+    const isDuplicate = templates.some(
+      (template: OutputTemplate) =>
+        template.id !== draft.id && template.name.toLowerCase() === name.toLowerCase()
+    );
+    if (isDuplicate) {
+      setValidationError('A template with this name already exists.');
+      return;
+    }
+    if (templateError) {
+      setValidationError('Fix the template error before saving.');
+      return;
+    }
+
+    const saved = { ...draft, name, id: draft.id || `template-${Date.now()}` };
+    onTemplatesChange(
+      draft.id
+        ? templates.map((template: OutputTemplate) => (template.id === draft.id ? saved : template))
+        : [...templates, saved]
+    );
+    setDraft(saved);
+    setValidationError('');
+  };
+
+  const handleDelete = (id: string) => {
+    onTemplatesChange(templates.filter((template: OutputTemplate) => template.id !== id));
+    if (draft.id === id) {
+      setDraft(EMPTY_TEMPLATE);
+    }
+  };
+
+  return (
+    <div className="template-editor-modal-overlay" onClick={onClose}>
+      <div className="template-editor-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="template-editor-modal-header">
+          <h3>Output Templates</h3>
+          <button
+            className="template-editor-modal-close-button"
+            onClick={onClose}
+            aria-label="Close template editor"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="template-editor-modal-content">
+          <div className="template-editor-sidebar">
+            <button className="template-editor-new-button" onClick={() => setDraft(EMPTY_TEMPLATE)}>
+              New Template
+            </button>
+            {templates.length === 0 ? (
+              <div className="template-editor-empty">No saved templates yet.</div>
+            ) : (
+              <ul className="template-editor-list">
+                {templates.map((template: OutputTemplate) => (
+                  <li
+                    key={template.id}
+                    className={`template-editor-list-item ${
+                      template.id === draft.id ? 'active' : ''
+                    }`}
+                  >
+                    <button
+                      className="template-editor-list-name"
+                      onClick={() => {
+                        setDraft({ ...template });
+                        setValidationError('');
+                      }}
+                      title="Edit template"
+                    >
+                      {template.name}
+                    </button>
+                    <button
+                      className="template-editor-delete-button"
+                      onClick={() => handleDelete(template.id)}
+                      title="Delete template"
+                    >
+                      &times;
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="template-editor-placeholders">
+              <h4>Placeholders</h4>
+              {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                <div key={placeholder.name} title={placeholder.description}>
+                  <code>{`{{${placeholder.name}}}`}</code>
+                </div>
+              ))}
+              <h4>Inside {'{{#files}}'}</h4>
+              {TEMPLATE_FILE_PLACEHOLDERS.map((placeholder) => (
+                <div key={placeholder.name} title={placeholder.description}>
+                  <code>{`{{${placeholder.name}}}`}</code>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="template-editor-main">
+            <input
+              type="text"
+              className="template-editor-name-input"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name"
+              aria-label="Template name"
+            />
+            <textarea
+              className="template-editor-source"
+              value={draft.source}
+              onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+              spellCheck={false}
+              aria-label="Template source"
+            />
+
+            {templateError ? (
+              <div className="template-editor-error">{templateError}</div>
+            ) : (
+              <pre className="template-editor-preview">
+                {preview || 'Select files to see a preview.'}
+              </pre>
+            )}
+
+            {validationError && <div className="template-editor-error">{validationError}</div>}
+
+            <div className="template-editor-footer">
+              <button className="template-editor-cancel-button" onClick={onClose}>
+                Close
+              </button>
+              <button
+                className="primary template-editor-save-button"
+                onClick={handleSave}
+                disabled={!!templateError}
+              >
+                {draft.id ? 'Update Template' : 'Save Template'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditorModal;
@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FileData, TreeNode } from '../types/FileTypes';
+import { TreemapOverlays, TreemapRect } from '../types/TreemapTypes';
+import { buildWorkspaceFileTree, isFileExcluded } from '../utils/fileTreeUtils';
+import { layoutTreemap } from '../utils/treemapUtils';
+import { normalizePath } from '../utils/pathUtils';
+
+interface TokenTreemapProps {
+  allFiles: FileData[];
+  rootFolders: string[]; // Root folders of the workspace, the selected folder first
+  selectedFiles: string[];
+  toggleFileSelection: (filePath: string) => void;
+  toggleFolderSelection: (folderPath: string, isSelected: boolean) => void;
+  includeBinaryPaths: boolean;
+}
+
+type SelectionState = 'all' | 'some' | 'none';
+
+/**
+ * Treemap of the scanned folder with files sized by token count and colored by
+ * selection state. Clicking a file or a folder's header selects or deselects it.
+ */
+const TokenTreemap = ({
+  allFiles,
+  rootFolders,
+  selectedFiles,
+  toggleFileSelection,
+  toggleFolderSelection,
+  includeBinaryPaths,
+}: TokenTreemapProps) => {
+  const canvasRef = useRef(null as HTMLDivElement | null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [overlays, setOverlays] = useState({
+    showIgnored: false,
+    showBinary: false,
+  } as TreemapOverlays);
+
+  // Follow the canvas size so the layout always fills it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const tree = useMemo(
+    () => buildWorkspaceFileTree(allFiles, rootFolders),
+    [allFiles, rootFolders]
+  );
+  const rects = useMemo(
+    () => layoutTreemap(tree, size.width, size.height, overlays),
+    [tree, size, overlays]
+  );
+
+  const selectedPaths = useMemo(() => new Set(selectedFiles.map(normalizePath)), [selectedFiles]);
+
+  // Selection state of every folder, counting only the files that can be selected
+  const folderSelection = useMemo(() => {
+    const states: Record<string, SelectionState> = {};
+
+    const countSelection = (nodes: TreeNode[]): { selected: number; selectable: number } => {
+      let selected = 0;
+      let selectable = 0;
+      nodes.forEach((node) => {
+        if (node.type === 'directory') {
+          const counts = countSelection(node.children || []);
+          selected += counts.selected;
+          selectable += counts.selectable;
+          states[node.path] =
+            counts.selectable > 0 && counts.selected === counts.selectable
+              ? 'all'
+              : counts.selected > 0
+                ? 'some'
+                : 'none';
+        } else if (!isFileExcluded(node.fileData, includeBinaryPaths)) {
+          selectable++;
+          if (selectedPaths.has(normalizePath(node.path))) selected++;
+        }
+      });
+      return { selected, selectable };
+    };
+
+    countSelection(tree);
+    return states;
+  }, [tree, selectedPaths, includeBinaryPaths]);
+
+  const handleRectClick = (rect: TreemapRect) => {
+    const { node } = rect;
+    if (node.type === 'directory') {
+      toggleFolderSelection(node.path, folderSelection[node.path] !== 'all');
+    } else if (!isFileExcluded(node.fileData, includeBinaryPaths)) {
+      toggleFileSelection(node.path);
+    }
+  };
+
+  const getRectClassName = (rect: TreemapRect) => {
+    const { node } = rect;
+    if (node.type === 'directory') {
+      return `token-treemap-rect folder ${folderSelection[node.path] || 'none'}`;
+    }
+    const file = node.fileData;
+    const overlay =
+      file?.isSkipped || file?.excludedByDefault ? 'ignored' : file?.isBinary ? 'binary' : '';
+    const state = selectedPaths.has(normalizePath(node.path)) ? 'selected' : 'unselected';
+    return `token-treemap-rect file ${state} ${overlay}`;
+  };
+
+  const getRectTitle = (rect: TreemapRect) => {
+    const file = rect.node.fileData;
+    const note = file?.isSkipped
+      ? ' (skipped)'
+      : file?.excludedByDefault
+        ? ' (excluded by default)'
+        : file?.isBinary
+          ? ' (binary, sized by file size)'
+          : '';
+    return `${rect.node.path}\n${rect.tokens.toLocaleString()} tokens${note}`;
+  };
+
+  return (
+    <div className="token-treemap">
+      <div className="token-treemap-toolbar">
+        <span className="token-treemap-legend">
+          <span className="token-treemap-swatch selected" /> Selected
+          <span className="token-treemap-swatch unselected" /> Not selected
+        </span>
+        <label className="token-treemap-overlay-option">
+          <input
+            type="checkbox"
+            checked={overlays.showIgnored}
+            onChange={(e) =>
+              setOverlays((prev: TreemapOverlays) => ({ ...prev, showIgnored: e.target.checked }))
+            }
+          />
+          Ignored and skipped files
+        </label>
+        <label className="token-treemap-overlay-option">
+          <input
+            type="checkbox"
+            checked={overlays.showBinary}
+            onChange={(e) =>
+              setOverlays((prev: TreemapOverlays) => ({ ...prev, showBinary: e.target.checked }))
+            }
+          />
+          Binary files
+        </label>
+      </div>
+
+      <div className="token-treemap-canvas" ref={canvasRef}>
+        {rects.map((rect: TreemapRect) => (
+          <div
+            key={rect.node.id}
+            className={getRectClassName(rect)}
+            style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+            title={getRectTitle(rect)}
+            onClick={() => handleRectClick(rect)}
+          >
+            {rect.hasLabel && <span className="token-treemap-label">{rect.node.name}</span>}
+          </div>
+        ))}
+        {size.width > 0 && rects.length === 0 && (
+          <div className="token-treemap-empty">No files with tokens to show</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TokenTreemap;
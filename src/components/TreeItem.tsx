@@ -1,7 +1,8 @@
 import { useRef, useEffect, useMemo, useCallback, memo } from 'react';
 import { TreeItemProps, TreeNode } from '../types/FileTypes';
-import { ChevronRight, File, Folder } from 'lucide-react';
+import { ChevronRight, File, Folder, FolderRoot } from 'lucide-react';
 import { arePathsEqual } from '../utils/pathUtils';
+import { describeBinaryReason } from '../utils/fileTreeUtils';
 
 /**
  * Helper function to determine if a file should be excluded from selection
@@ -32,6 +33,7 @@ const TreeItem = ({
   includeBinaryPaths,
   selectedFolderNode,
   setSelectedFolderNode,
+  secretFindingCount,
 }: TreeItemProps) => {
   const { id, name, path, type, level, isExpanded, fileData } = node;
   const checkboxRef = useRef<HTMLInputElement | null>(null);
@@ -267,10 +269,18 @@ const TreeItem = ({
       {/* Item content (icon, name, and metadata) */}
       <div className="tree-item-content">
         <div className="tree-item-icon">
-          {type === 'directory' ? <Folder size={16} /> : <File size={16} />}
+          {node.isWorkspaceRoot ? (
+            <FolderRoot size={16} />
+          ) : type === 'directory' ? (
+            <Folder size={16} />
+          ) : (
+            <File size={16} />
+          )}
         </div>
 
-        <div className="tree-item-name">{name}</div>
+        <div className="tree-item-name" title={node.isWorkspaceRoot ? path : undefined}>
+          {name}
+        </div>
 
         {/* Show token count for files that have it */}
         {fileData && fileData.tokenCount > 0 && (
@@ -283,6 +293,7 @@ const TreeItem = ({
             className={`tree-item-badge ${
               fileData.isBinary && !isCheckboxDisabled ? 'tree-item-badge-binary-file' : ''
             }`}
+            title={fileData.isBinary ? describeBinaryReason(fileData) : undefined}
           >
             {fileData.isBinary && !isCheckboxDisabled
               ? 'Binary'
@@ -293,9 +304,25 @@ const TreeItem = ({
                 : ''}
           </span>
         )}
+        {type === 'file' && !!secretFindingCount && (
+          <span
+            className="tree-item-badge tree-item-badge-secret"
+            title="This file may contain secrets. You will be asked to review them before copying."
+          >
+            Secrets ({secretFindingCount})
+          </span>
+        )}
         {type === 'directory' && node.hasBinaries && (
           <span className="tree-item-badge tree-item-badge-folder">Has Binary Files</span>
         )}
+        {node.symlinkTarget && (
+          <span
+            className="tree-item-badge tree-item-badge-symlink"
+            title={`Symbolic link to ${node.symlinkTarget}`}
+          >
+            Symlink → {node.symlinkTarget}
+          </span>
+        )}
       </div>
     </div>
   );
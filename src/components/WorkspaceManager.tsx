@@ -1,6 +1,6 @@
 import React from 'react';
 import type { Workspace, WorkspaceManagerProps } from '../types/WorkspaceTypes';
-import { FolderOpen, X, Trash2, Plus } from 'lucide-react';
+import { FolderOpen, X, Trash2, Plus, DatabaseZap } from 'lucide-react';
 import '../styles/index.css';
 
 const WorkspaceManager = ({
@@ -11,6 +11,8 @@ const WorkspaceManager = ({
   onCreateWorkspace,
   onDeleteWorkspace,
   onUpdateWorkspaceFolder,
+  onRemoveWorkspaceFolder,
+  onRebuildWorkspaceCache,
   selectedFolder,
   workspaces, // Use workspaces from props
 }: WorkspaceManagerProps): JSX.Element | null => {
@@ -155,6 +157,21 @@ const WorkspaceManager = ({
                       <div className="workspace-path">
                         {workspace.folderPath || 'No folder assigned'}
                       </div>
+                      {workspace.extraFolderPaths?.map((folderPath: string) => (
+                        <div key={folderPath} className="workspace-path workspace-extra-path">
+                          <span title={folderPath}>+ {folderPath}</span>
+                          <button
+                            className="remove-extra-folder-button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onRemoveWorkspaceFolder(workspace.id, folderPath);
+                            }}
+                            title="Remove this folder from the workspace"
+                          >
+                            <X size={12} />
+                          </button>
+                        </div>
+                      ))}
                     </div>
                     <div className="workspace-actions">
                       <button
@@ -164,6 +181,18 @@ const WorkspaceManager = ({
                       >
                         <FolderOpen size={16} />
                       </button>
+                      {workspace.folderPath && (
+                        <button
+                          className="rebuild-cache-button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRebuildWorkspaceCache(workspace.id);
+                          }}
+                          title="Rebuild the scan cache: read and count every file again"
+                        >
+                          <DatabaseZap size={16} />
+                        </button>
+                      )}
                       {workspace.folderPath && (
                         <button
                           className="clear-folder-button"
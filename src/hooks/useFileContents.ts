@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FileContent, FileContentsResult, FileData } from '../types/FileTypes';
+import { arePathsEqual, normalizePath } from '../utils/pathUtils';
+
+// Characters of file content kept once their files are deselected, least recently loaded
+// evicted first. Selected files are always kept, since copying needs them.
+const MAX_CACHED_CONTENT_LENGTH = 32 * 1024 * 1024;
+const CONTENT_REQUEST_SIZE = 200; // Files per 'get-file-contents' request
+
+const getContentLength = (fileContent: FileContent) =>
+  fileContent.content.length + (fileContent.sampleContent?.length || 0);
+
+interface ContentCache {
+  contents: Map<string, FileContent>; // Least recently loaded first
+  failed: Set<string>; // Not retried until invalidated
+}
+
+const EMPTY_CACHE: ContentCache = { contents: new Map(), failed: new Set() };
+
+/**
+ * Custom hook for loading file contents on demand. The scan only sends metadata and
+ * token counts, so the content of selected text files is fetched from the main process.
+ *
+ * @param allFiles - Files of the scanned folder
+ * @param selectedFiles - Selected file paths, whose content is loaded
+ * @param isElectron - Whether the main process is available
+ * @returns {Object} The files with their loaded content merged in, and cache controls
+ */
+export function useFileContents(
+  allFiles: FileData[],
+  selectedFiles: string[],
+  isElectron: boolean
+) {
+  const [cache, setCache] = useState(EMPTY_CACHE);
+  const pendingRef = useRef(new Set<string>()); // Requested and not answered yet
+  const stalePendingRef = useRef(new Set<string>()); // Pending, but invalidated since requested
+  const generationRef = useRef(0); // Incremented when the cache is cleared
+
+  // Selected text files, the ones whose content is needed
+  const neededPaths = useMemo(
+    () =>
+      allFiles
+        .filter(
+          (file: FileData) =>
+            !file.isBinary &&
+            !file.isSkipped &&
+            selectedFiles.some((path: string) => arePathsEqual(path, file.path))
+        )
+        .map((file: FileData) => file.path),
+    [allFiles, selectedFiles]
+  );
+  const neededPathsRef = useRef(neededPaths);
+  neededPathsRef.current = neededPaths;
+
+  const loadContents = useCallback(async (filePaths: string[]) => {
+    const generation = generationRef.current;
+    let result: FileContentsResult;
+    try {
+      result = await window.electron.ipcRenderer.invoke('get-file-contents', { filePaths });
+    } catch (err) {
+      result = { error: err instanceof Error ? err.message : String(err) };
+    }
+    if (generation !== generationRef.current) return; // Cleared in the meantime
+
+    if (result?.error) {
+      console.error('Error loading file contents:', result.error);
+    }
+    // Content invalidated while it was loading is requested again instead
+    const answeredPaths = filePaths.filter((filePath: string) => {
+      pendingRef.current.delete(filePath);
+      return !stalePendingRef.current.delete(filePath);
+    });
+    Object.entries(result?.errors || {}).forEach(([filePath, error]) =>
+      console.warn(`Could not load content of ${filePath}:`, error)
+    );
+
+    setCache((prev: ContentCache) => {
+      const contents = new Map(prev.contents);
+      const failed = new Set(prev.failed);
+      answeredPaths.forEach((filePath: string) => {
+        const fileContent = result?.contents?.[filePath];
+        contents.delete(filePath);
+        if (fileContent) {
+          contents.set(filePath, fileContent);
+        } else {
+          failed.add(filePath);
+        }
+      });
+
+      // Drop the oldest content of files that are no longer needed until under the limit
+      const needed = new Set(neededPathsRef.current);
+      let length = 0;
+      contents.forEach((fileContent: FileContent) => (length += getContentLength(fileContent)));
+      for (const [filePath, fileContent] of contents) {
+        if (length <= MAX_CACHED_CONTENT_LENGTH) break;
+        if (needed.has(filePath)) continue;
+        contents.delete(filePath);
+        length -= getContentLength(fileContent);
+      }
+      return { contents, failed };
+    });
+  }, []);
+
+  // Request the needed content that is neither loaded nor on its way
+  useEffect(() => {
+    if (!isElectron) return;
+    const missingPaths = neededPaths.filter(
+      (filePath: string) =>
+        !cache.contents.has(filePath) &&
+        !cache.failed.has(filePath) &&
+        !pendingRef.current.has(filePath)
+    );
+    for (let i = 0; i < missingPaths.length; i += CONTENT_REQUEST_SIZE) {
+      const filePaths = missingPaths.slice(i, i + CONTENT_REQUEST_SIZE);
+      filePaths.forEach((filePath: string) => pendingRef.current.add(filePath));
+      loadContents(filePaths);
+    }
+  }, [isElectron, neededPaths, cache, loadContents]);
+
+  /**
+   * Forgets the content of a changed or removed file, so it is loaded again when needed
+   */
+  const invalidateFileContent = useCallback((filePath: string) => {
+    const normalizedPath = normalizePath(filePath);
+    if (pendingRef.current.has(normalizedPath)) {
+      stalePendingRef.current.add(normalizedPath);
+    }
+    setCache((prev: ContentCache) => {
+      if (!prev.contents.has(normalizedPath) && !prev.failed.has(normalizedPath)) return prev;
+      const contents = new Map(prev.contents);
+      const failed = new Set(prev.failed);
+      contents.delete(normalizedPath);
+      failed.delete(normalizedPath);
+      return { contents, failed };
+    });
+  }, []);
+
+  /**
+   * Forgets all loaded content, for a new scan
+   */
+  const clearFileContents = useCallback(() => {
+    generationRef.current++;
+    pendingRef.current.clear();
+    stalePendingRef.current.clear();
+    setCache(EMPTY_CACHE);
+  }, []);
+
+  const filesWithContent = useMemo(
+    () =>
+      allFiles.map((file: FileData) => {
+        const fileContent = cache.contents.get(file.path);
+        return fileContent ? { ...file, ...fileContent, isContentLoaded: true } : file;
+      }),
+    [allFiles, cache]
+  );
+
+  // Content that failed to load counts as settled, so copying is not blocked forever
+  const isLoadingFileContents =
+    isElectron &&
+    neededPaths.some(
+      (filePath: string) => !cache.contents.has(filePath) && !cache.failed.has(filePath)
+    );
+
+  return {
+    filesWithContent,
+    isLoadingFileContents,
+    invalidateFileContent,
+    clearFileContents,
+  };
+}
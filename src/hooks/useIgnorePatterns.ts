@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { IgnoreMode } from '../types/FileTypes';
+import type { BinaryOverrides, IgnoreMode, SymlinkMode } from '../types/FileTypes';
 
 interface IgnorePatternsState {
   default: string[];
@@ -26,6 +26,10 @@ interface IgnorePatternsState {
  *   - customIgnores: Array of additional ignore patterns
  *     - Only used when ignoreMode is 'global'
  *   - setCustomIgnores: Function to update custom ignores
+ *   - binaryOverrides: Per-extension binary/text decisions, used in both modes
+ *   - setBinaryOverrides: Function to update the binary overrides
+ *   - symlinkMode: Which symbolic links scans follow ('off', 'files' or 'all')
+ *   - setSymlinkMode: Function to update the symlink mode
  *
  * @description The hook automatically includes customIgnores in the IPC call
  * when mode is 'global', but ignores them in 'automatic' mode.
@@ -114,6 +118,53 @@ export function useIgnorePatterns(selectedFolder: string | null, isElectron: boo
     _setIgnoreSettingsModified(true);
   };
 
+  /**
+   * Per-extension overrides of the binary detection (e.g. { ".dat": "text" }).
+   * These are sent with every file list request, whatever the ignore mode.
+   */
+  const [binaryOverrides, _setBinaryOverrides] = useState(() => {
+    if (typeof window === 'undefined') {
+      return {} as BinaryOverrides;
+    }
+    try {
+      const saved = localStorage.getItem('pastemax-binary-overrides');
+      return (saved ? JSON.parse(saved) : {}) as BinaryOverrides;
+    } catch (error) {
+      console.error('Failed to parse binary overrides from localStorage:', error);
+      return {} as BinaryOverrides;
+    }
+  });
+
+  const setBinaryOverrides = (newOverrides: BinaryOverrides) => {
+    _setBinaryOverrides(newOverrides);
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('pastemax-binary-overrides', JSON.stringify(newOverrides));
+      localStorage.setItem('pastemax-ignore-settings-modified', 'true');
+    }
+    _setIgnoreSettingsModified(true);
+  };
+
+  /**
+   * Which symbolic links scans follow, sent with every file list request.
+   * Off by default, since linked directories can lead outside the folder.
+   */
+  const [symlinkMode, _setSymlinkMode] = useState(() => {
+    if (typeof window === 'undefined') {
+      return 'off' as SymlinkMode;
+    }
+    const saved = localStorage.getItem('pastemax-symlink-mode');
+    return (saved === 'files' || saved === 'all' ? saved : 'off') as SymlinkMode;
+  });
+
+  const setSymlinkMode = (newMode: SymlinkMode) => {
+    _setSymlinkMode(newMode);
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('pastemax-symlink-mode', newMode);
+      localStorage.setItem('pastemax-ignore-settings-modified', 'true');
+    }
+    _setIgnoreSettingsModified(true);
+  };
+
   /**
    * Fetches and displays ignore patterns for the selected folder
    * Handles both success and error states
@@ -179,6 +230,10 @@ export function useIgnorePatterns(selectedFolder: string | null, isElectron: boo
     setIgnoreMode,
     customIgnores,
     setCustomIgnores,
+    binaryOverrides,
+    setBinaryOverrides,
+    symlinkMode,
+    setSymlinkMode,
     ignoreSettingsModified,
     resetIgnoreSettingsModified,
   };
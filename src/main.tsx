@@ -31,6 +31,7 @@ import './styles/contentarea/UserInstructions.css';
 import './styles/contentarea/SortDropDown.css';
 import './styles/contentarea/ProcessingIndicator.css';
 import './styles/contentarea/ModelDropdown.css';
+import './styles/contentarea/TokenTreemap.css';
 import './styles/contentarea/CopySettings/CopySettings.css';
 import './styles/contentarea/CopySettings/CopyHistoryButton.css';
 
@@ -41,6 +42,10 @@ import './styles/modals/UpdateModal.css';
 import './styles/modals/CustomTaskTypeModal.css';
 import './styles/modals/WorkspaceManager.css';
 import './styles/modals/CopyHistoryModal.css';
+import './styles/modals/FitToBudgetModal.css';
+import './styles/modals/MultiPartCopyModal.css';
+import './styles/modals/SecretReviewModal.css';
+import './styles/modals/TemplateEditorModal.css';
 
 /**
  * Add an event listener to ensure state is saved properly before a page refresh.
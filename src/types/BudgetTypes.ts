@@ -0,0 +1,44 @@
+/**
+ * Types for fitting the selection into a model's context window
+ */
+
+/**
+ * Settings that define how much of the context window the copied content may use
+ */
+export interface BudgetSettings {
+  targetPercentage: number; // Share of the context window to fill (1-100)
+  reservedResponseTokens: number; // Tokens kept free for the model's response
+}
+
+/**
+ * Why a selected file was ranked where it was
+ */
+export type BudgetPriority = 'pinned' | 'focused' | 'nearby' | 'other';
+
+/**
+ * A selected file together with its ranking information
+ */
+export interface BudgetCandidate {
+  path: string;
+  tokenCount: number;
+  priority: BudgetPriority;
+  distance: number; // Folder hops from the focused folder (0 when inside it)
+}
+
+/**
+ * Outcome of fitting the selection to a budget.
+ * Nothing is applied until the caller commits `keptFiles`.
+ */
+export interface BudgetFitResult {
+  budget: number; // Tokens available for file contents after overhead and reserve
+  keptFiles: string[];
+  droppedFiles: BudgetCandidate[];
+  keptTokens: number;
+  droppedTokens: number;
+  pinnedOverBudget: boolean; // Pinned files alone exceed the budget
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  targetPercentage: 80,
+  reservedResponseTokens: 4096,
+};
@@ -0,0 +1,30 @@
+/**
+ * Types for token-saving content compression
+ */
+
+/**
+ * Independent compression options applied to text file contents before copying
+ */
+export interface CompressionOptions {
+  stripComments: boolean; // Remove line and block comments
+  collapseBlankLines: boolean; // Collapse runs of blank lines into a single blank line
+  dropLicenseHeaders: boolean; // Remove a leading comment block mentioning a license or copyright
+}
+
+/**
+ * Comment and string syntax for a language, used to tell comments apart from string literals
+ */
+export interface CommentSyntax {
+  lineComments: string[]; // e.g. ['//']
+  blockComments: [string, string][]; // e.g. [['/*', '*/']]
+  strings: string[]; // String delimiters, longest first (e.g. ['"""', '"', "'"])
+  multilineStrings?: string[]; // Delimiters whose strings may span lines (e.g. ['`'])
+  hashNeedsWhitespace?: boolean; // '#' only starts a comment at line start or after whitespace
+  regexLiterals?: boolean; // '/' starts a regex literal where an expression can start (JavaScript)
+}
+
+export const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = {
+  stripComments: false,
+  collapseBlankLines: false,
+  dropLicenseHeaders: false,
+};
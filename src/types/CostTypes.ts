@@ -0,0 +1,26 @@
+/**
+ * Types for estimating what sending the content to a model costs
+ */
+
+/**
+ * Estimated cost in USD of one prompt with the selected model's pricing
+ */
+export interface CostEstimate {
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number; // Expected response length set by the user
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
+
+/**
+ * Estimated cost of the copy history entries made on one day
+ */
+export interface DailyCostTotal {
+  day: number; // Local midnight that starts the day, as a timestamp
+  totalCost: number;
+  entryCount: number; // Entries with a cost estimate
+}
+
+export const DEFAULT_EXPECTED_OUTPUT_TOKENS = 0;
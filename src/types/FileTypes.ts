@@ -1,17 +1,102 @@
+import { FileInclusionMode } from './OutlineTypes';
+import { LineRange } from './LineRangeTypes';
+import { NotebookCell } from './NotebookTypes';
+import { WorkspaceRoot } from './WorkspaceTypes';
+
 export type IgnoreMode = 'automatic' | 'global';
 // Hot reload occurs when mode changes.
 
+/**
+ * Why a file was classified as binary: a per-extension override from the ignore
+ * settings, the built-in extension list, or sniffing its first few KB
+ */
+export type BinaryReason =
+  | 'override'
+  | 'extension'
+  | 'magic-number'
+  | 'null-bytes'
+  | 'control-chars'
+  | 'invalid-utf8';
+
+/**
+ * Encoding a text file was decoded with, detected from its byte order mark or content
+ */
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * Per-extension binary/text decisions, keyed by lowercase extension with its dot (e.g. ".dat")
+ */
+export type BinaryOverrides = Record<string, 'binary' | 'text'>;
+
+/**
+ * Which symbolic links scans follow: none, links to files, or links to files and directories
+ */
+export type SymlinkMode = 'off' | 'files' | 'all';
+
 export interface FileData {
   name: string;
   path: string;
-  content: string;
+  content: string; // Empty until loaded on demand (see `isContentLoaded`)
+  isContentLoaded?: boolean; // Content, sample and notebook cells were fetched from the main process
+  textEncoding?: TextEncoding; // Set for text files read in full
   tokenCount: number;
   size: number;
   isBinary: boolean;
+  binaryReason?: BinaryReason; // Set for binary files
   isSkipped: boolean;
   error?: string;
   fileType?: string;
   excludedByDefault?: boolean;
+  notebookCells?: NotebookCell[]; // Set for Jupyter notebooks, whose content is the converted cells
+  sampleContent?: string; // Shortened data file (CSV/TSV, JSONL, JSON, logs), used in sample mode
+  hasSampleContent?: boolean; // Known from the scan, before `sampleContent` is loaded
+  isSampled?: boolean; // Over the size limit, so `content` is already a sample
+  symlinkTarget?: string; // Real path, set for files reached through a symbolic link
+  linkedDirectory?: { path: string; target: string }; // Nearest linked directory the file is in
+}
+
+/**
+ * Content of a text file, which the scan leaves out of its file data
+ */
+export interface FileContent {
+  content: string;
+  sampleContent?: string;
+  notebookCells?: NotebookCell[];
+}
+
+/**
+ * Reply of the 'get-file-contents' channel, keyed by the requested paths
+ */
+export interface FileContentsResult {
+  contents?: Record<string, FileContent>;
+  errors?: Record<string, string>;
+  error?: string; // The whole request failed
+}
+
+/**
+ * Files streamed from the main process while a folder is scanned
+ */
+export interface FileListBatch {
+  scanId: number; // A batch with a new scan ID replaces the files of the previous scan
+  files: FileData[];
+}
+
+/**
+ * Sent once every batch of a scan has been sent
+ */
+export interface FileListComplete {
+  scanId: number;
+  fileCount: number;
+  cancelled?: boolean; // A root folder's scan was cancelled, so the files sent may be incomplete
+}
+
+/**
+ * Extra detail for the ASCII file tree in the copied content
+ */
+export interface FileTreeOptions {
+  showTokenCounts?: boolean; // Print each file's tokens and each directory's selected total
+  omittedFiles?: { path: string; tokenCount?: number }[]; // Unselected files to list as omitted
+  roots?: WorkspaceRoot[]; // Root folders of a multi-root workspace, each a top entry named by its label
 }
 
 export interface TreeNode {
@@ -24,10 +109,12 @@ export interface TreeNode {
   level: number;
   fileData?: FileData;
   hasBinaries?: boolean;
+  isWorkspaceRoot?: boolean; // Top node of a root folder in a multi-root workspace
+  symlinkTarget?: string; // Real path, set for symbolic links to files or directories
 }
 
 export interface SidebarProps {
-  selectedFolder: string | null;
+  rootFolders: string[]; // Root folders of the workspace, the selected folder first
   openFolder: () => void;
   allFiles: FileData[];
   selectedFiles: string[];
@@ -48,12 +135,21 @@ export interface SidebarProps {
   expandAllFolders: () => void;
   selectedFolderNode?: string | null;
   setSelectedFolderNode?: (nodeId: string | null) => void;
+  secretFindingCounts?: Record<string, number>; // Possible secrets per file, by file path
 }
 
 export interface FileListProps {
   files: FileData[];
   selectedFiles: string[];
   toggleFileSelection: (filePath: string) => void;
+  pinnedFiles?: string[];
+  togglePinnedFile?: (filePath: string) => void;
+  adjustedTokenCounts?: Record<string, number>; // Token counts after outline/compression, by file path
+  fileModes?: Record<string, FileInclusionMode>;
+  setFileMode?: (filePath: string, mode: FileInclusionMode) => void;
+  lineRanges?: Record<string, LineRange[]>; // Included line ranges of partially included files, by file path
+  setFileLineRanges?: (filePath: string, ranges: LineRange[]) => void;
+  onCopyFile?: (filePath: string) => Promise<boolean>; // Copies one file after the secret review
 }
 
 export interface FileCardProps {
@@ -71,6 +167,7 @@ export interface TreeItemProps {
   includeBinaryPaths: boolean;
   selectedFolderNode?: string | null;
   setSelectedFolderNode?: (nodeId: string | null) => void;
+  secretFindingCount?: number;
 }
 
 export interface SortOption {
@@ -0,0 +1,19 @@
+/**
+ * Types for including only some lines of a file
+ */
+
+/**
+ * An inclusive span of 1-based line numbers
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A line range typed as `path:10-80` (several ranges separated by commas)
+ */
+export interface LineRangeInput {
+  path: string;
+  ranges: LineRange[];
+}
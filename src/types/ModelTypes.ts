@@ -2,6 +2,14 @@
  * Types for LLM model information
  */
 
+/**
+ * Model prices in USD per token, parsed from the OpenRouter pricing strings
+ */
+export interface ModelPricing {
+  prompt: number; // Price per input token
+  completion: number; // Price per output token
+}
+
 /**
  * Interface defining a model's information including context window size
  */
@@ -10,7 +18,7 @@ export interface ModelInfo {
   name: string; // Display name (e.g., "Google: Gemini 1.5 Pro")
   description?: string; // Optional description of the model
   context_length: number; // Maximum token limit (context window size)
-  pricing?: string; // Optional pricing information
+  pricing?: ModelPricing; // Prices per token, when OpenRouter lists them
   available?: boolean; // Whether the model is currently available
 }
 
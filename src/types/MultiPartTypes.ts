@@ -0,0 +1,21 @@
+/**
+ * Types for splitting copied content into multiple messages
+ */
+
+import { FileData } from './FileTypes';
+
+/**
+ * A single part of a multi-part copy
+ */
+export interface ContentPart {
+  index: number; // 1-based part number
+  total: number; // Total number of parts
+  content: string; // Part header followed by the formatted content
+  estimatedTokens: number; // Token count of the whole part, estimated until counted with the tokenizer
+  fileCount: number; // Files or file sections contained in the part
+  files: FileData[]; // Text files and file sections of the part, before formatting (for the secret scan)
+  userInstructions: string; // Instructions included in the part, empty when it has none
+}
+
+export const DEFAULT_PART_TOKEN_LIMIT = 32000;
+export const MIN_PART_TOKEN_LIMIT = 1000;
@@ -0,0 +1,16 @@
+/**
+ * Types for Jupyter notebooks, which are converted to readable text cells when read
+ */
+
+export type NotebookCellType = 'markdown' | 'code' | 'raw';
+
+/**
+ * A cell of a converted notebook, located by its 1-based line span in the file content
+ */
+export interface NotebookCell {
+  type: NotebookCellType;
+  startLine: number; // The "# %%" header line
+  endLine: number; // Last line of the cell, including its outputs
+  outputStartLine?: number; // The "Output:" line, when the cell has outputs
+  executionCount?: number | null; // Code cells only
+}
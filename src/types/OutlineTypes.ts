@@ -0,0 +1,29 @@
+/**
+ * Types for outline (skeleton) inclusion of files
+ */
+
+/**
+ * How a selected file is included in the copied content.
+ * Sample mode applies to data files, which get a `sampleContent` when they are read.
+ */
+export type FileInclusionMode = 'full' | 'outline' | 'sample';
+
+/**
+ * Outline text plus the original 1-based line number of each of its lines
+ */
+export interface OutlineResult {
+  content: string;
+  lineNumbers: number[];
+}
+
+/**
+ * A language-specific outline parser.
+ * Parsers keep declarations and signatures and replace bodies with a placeholder.
+ */
+export interface OutlineParser {
+  id: string;
+  languages: string[]; // Language identifiers from `getLanguageFromFilename`
+  createOutline: (content: string) => OutlineResult;
+}
+
+export const OUTLINE_BODY_PLACEHOLDER = '{ /* ... */ }';
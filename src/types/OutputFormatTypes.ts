@@ -0,0 +1,58 @@
+import { FileData } from './FileTypes';
+import { WorkspaceRoot } from './WorkspaceTypes';
+
+/**
+ * Types for the copied content output formats
+ */
+
+export type OutputFormatId = 'xml' | 'markdown' | 'json' | 'plain';
+
+/**
+ * Everything a format needs to render the copied content.
+ * Files are already filtered and sorted by the caller, so every format
+ * renders the same file set in the same order.
+ */
+export interface OutputFormatContext {
+  rootPath: string | null; // Normalized selected folder path
+  roots: WorkspaceRoot[]; // Labeled root folders of a multi-root workspace, empty for a single folder
+  fileTree: string | null; // ASCII file tree, or null when the tree is disabled
+  files: FileData[]; // Selected text files, sorted
+  binaryFiles: FileData[]; // Selected binary files, empty when binary paths are excluded
+}
+
+/**
+ * Sections of the copied content, assembled in order by the content pipeline
+ */
+export type ContentSectionId = 'instructions' | 'tree' | 'files' | 'binaries';
+
+export interface ContentSection {
+  id: ContentSectionId;
+  content: string; // Rendered section, without surrounding blank lines
+}
+
+/**
+ * Where the user instructions go relative to the file content
+ */
+export type InstructionPlacement = 'top' | 'bottom' | 'both';
+
+/**
+ * A single output format in the registry
+ */
+export interface OutputFormat {
+  id: OutputFormatId;
+  label: string; // Display name for the format picker
+  fileExtension: string; // Extension used when the output is written to a file (without dot)
+  /** Renders the root path and file tree. */
+  renderTree: (context: OutputFormatContext) => string;
+  /** Renders the contents of the selected text files, or an empty string when there are none. */
+  renderFiles: (context: OutputFormatContext) => string;
+  /** Renders the binary file paths. */
+  renderBinaryFiles: (context: OutputFormatContext) => string;
+  /** Renders the user instructions block. */
+  renderInstructions: (userInstructions: string) => string;
+  /** Joins the rendered sections, in order, into the final output. */
+  assemble: (sections: ContentSection[]) => string;
+}
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormatId = 'xml';
+export const DEFAULT_INSTRUCTION_PLACEMENT: InstructionPlacement = 'bottom';
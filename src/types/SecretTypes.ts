@@ -0,0 +1,23 @@
+/**
+ * Types for detecting secrets in copied content
+ */
+
+/**
+ * A possible secret found by the scanner
+ */
+export interface SecretFinding {
+  id: string; // Stable id for the finding (rule + value)
+  ruleId: string; // e.g. 'aws-access-key', 'high-entropy', 'sensitive-filename'
+  label: string; // Human-readable rule name
+  value: string; // The matched secret; empty for filename-only findings
+  filePath: string | null; // File the finding belongs to, when known
+}
+
+/**
+ * A pattern that identifies a known secret format
+ */
+export interface SecretRule {
+  id: string;
+  label: string;
+  pattern: RegExp; // Must be global; capture group 1 is the secret when present
+}
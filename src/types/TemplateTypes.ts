@@ -0,0 +1,59 @@
+/**
+ * Types for user-defined output templates
+ */
+
+/**
+ * A named template saved by the user
+ */
+export interface OutputTemplate {
+  id: string;
+  name: string;
+  source: string; // Template text with {{placeholders}}
+}
+
+/**
+ * A parsed piece of a template
+ */
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; line: number }
+  | { type: 'section'; name: string; line: number; children: TemplateNode[] };
+
+/**
+ * Values available to a template while rendering.
+ * Lists are rendered once per item by a {{#name}}...{{/name}} section.
+ */
+export type TemplateValue = string | number | TemplateScope[];
+export type TemplateScope = Record<string, TemplateValue>;
+
+/**
+ * Starting point for new templates, matching the default XML layout
+ */
+export const DEFAULT_TEMPLATE_SOURCE = `{{#tree}}
+<file_map>
+{{tree}}
+</file_map>
+
+{{/tree}}
+<file_contents>
+{{#files}}
+File: {{path}}
+\`\`\`{{language}}
+{{content}}
+\`\`\`
+
+{{/files}}
+{{#binaryFiles}}
+<binary_files>
+{{binaryFiles}}
+</binary_files>
+
+{{/binaryFiles}}
+</file_contents>
+{{#instructions}}
+
+<user_instructions>
+{{instructions}}
+</user_instructions>
+{{/instructions}}
+`;
@@ -0,0 +1,20 @@
+/**
+ * Types for counting tokens the way the selected model does
+ */
+
+/**
+ * tiktoken encodings the main process can count with
+ */
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+/**
+ * How tokens are counted for a model family. Exact strategies use the family's own
+ * tiktoken encoding; estimates scale another encoding's count by a calibrated ratio.
+ */
+export interface TokenizerStrategy {
+  id: string;
+  label: string; // Display name, e.g. "Claude"
+  encoding: TokenizerEncoding;
+  ratio: number; // Multiplier applied to the encoding's count (1 for exact strategies)
+  exact: boolean;
+}
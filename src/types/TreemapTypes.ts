@@ -0,0 +1,26 @@
+import { TreeNode } from './FileTypes';
+
+/**
+ * Types for the token treemap of the scanned folder
+ */
+
+/**
+ * Which files the treemap draws besides the selectable text files
+ */
+export interface TreemapOverlays {
+  showIgnored: boolean; // Files excluded by default or skipped (e.g. too large)
+  showBinary: boolean;
+}
+
+/**
+ * A positioned rectangle for a file or folder, in pixels relative to the treemap
+ */
+export interface TreemapRect {
+  node: TreeNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  tokens: number; // Token count of the file, or of the drawn files inside the folder
+  hasLabel: boolean; // Whether the rectangle is large enough to show its name
+}
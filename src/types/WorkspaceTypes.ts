@@ -2,6 +2,7 @@ export interface Workspace {
   id: string;
   name: string;
   folderPath: string | null;
+  extraFolderPaths?: string[]; // More root folders, shown after `folderPath`
   createdAt: number;
   lastUsed: number;
 }
@@ -15,5 +16,16 @@ export interface WorkspaceManagerProps {
   onCreateWorkspace: (name: string) => void;
   onDeleteWorkspace: (workspaceId: string) => void;
   onUpdateWorkspaceFolder: (workspaceId: string, folderPath: string | null) => void;
+  onRemoveWorkspaceFolder: (workspaceId: string, folderPath: string) => void; // Removes an extra root folder
+  onRebuildWorkspaceCache: (workspaceId: string) => void; // Deletes the scan caches of the workspace's folders
   selectedFolder: string | null;
 }
+
+/**
+ * A root folder of the workspace, with the label that tells it apart in the sidebar and
+ * in the copied output
+ */
+export interface WorkspaceRoot {
+  path: string;
+  label: string;
+}
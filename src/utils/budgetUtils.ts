@@ -0,0 +1,126 @@
+/**
+ * Utilities for trimming the file selection to fit a model's context window
+ */
+
+import { FileData } from '../types/FileTypes';
+import {
+  BudgetCandidate,
+  BudgetFitResult,
+  BudgetPriority,
+  BudgetSettings,
+} from '../types/BudgetTypes';
+import { arePathsEqual, dirname, isSubPath, normalizePath } from './pathUtils';
+
+const PRIORITY_ORDER: Record<BudgetPriority, number> = {
+  pinned: 0,
+  focused: 1,
+  nearby: 2,
+  other: 3,
+};
+
+/**
+ * Calculates the number of tokens available for file contents.
+ * @param contextLength The model's context window size
+ * @param settings Target percentage and response reserve
+ * @param overheadTokens Tokens used by everything except file contents (tree, tags, instructions)
+ */
+export function calculateTokenBudget(
+  contextLength: number,
+  settings: BudgetSettings,
+  overheadTokens: number
+): number {
+  const percentage = Math.min(Math.max(settings.targetPercentage, 1), 100);
+  const target = Math.floor((contextLength * percentage) / 100);
+  return Math.max(target - settings.reservedResponseTokens - overheadTokens, 0);
+}
+
+/**
+ * Counts the folder hops between a file's directory and the focused folder
+ * by walking both paths up to their common ancestor.
+ */
+function getFolderDistance(filePath: string, focusFolder: string): number {
+  const fileParts = dirname(filePath).split('/');
+  const focusParts = normalizePath(focusFolder).split('/');
+
+  let common = 0;
+  while (
+    common < fileParts.length &&
+    common < focusParts.length &&
+    arePathsEqual(fileParts[common], focusParts[common])
+  ) {
+    common++;
+  }
+
+  return fileParts.length - common + (focusParts.length - common);
+}
+
+/**
+ * Ranks selected files for the budget: pinned files first, then files closest to
+ * the focused folder, then cheaper files before expensive ones.
+ */
+export function rankBudgetCandidates(
+  files: FileData[],
+  pinnedFiles: string[],
+  focusFolder: string | null
+): BudgetCandidate[] {
+  const candidates = files.map((file: FileData): BudgetCandidate => {
+    const isPinned = pinnedFiles.some((pinned) => arePathsEqual(pinned, file.path));
+    const isFocused = !!focusFolder && isSubPath(focusFolder, file.path);
+    const distance = focusFolder ? (isFocused ? 0 : getFolderDistance(file.path, focusFolder)) : 0;
+
+    let priority: BudgetPriority = 'other';
+    if (isPinned) {
+      priority = 'pinned';
+    } else if (isFocused) {
+      priority = 'focused';
+    } else if (focusFolder) {
+      priority = 'nearby';
+    }
+
+    return { path: file.path, tokenCount: file.tokenCount || 0, priority, distance };
+  });
+
+  return candidates.sort(
+    (a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      a.distance - b.distance ||
+      a.tokenCount - b.tokenCount ||
+      a.path.localeCompare(b.path)
+  );
+}
+
+/**
+ * Picks the subset of the selected files that fits the budget.
+ * Pinned files are always kept; the remaining files are added greedily in
+ * priority order, skipping any file that would overflow the budget.
+ */
+export function fitSelectionToBudget(
+  files: FileData[],
+  pinnedFiles: string[],
+  focusFolder: string | null,
+  budget: number
+): BudgetFitResult {
+  const keptFiles: string[] = [];
+  const droppedFiles: BudgetCandidate[] = [];
+  let keptTokens = 0;
+  let droppedTokens = 0;
+
+  rankBudgetCandidates(files, pinnedFiles, focusFolder).forEach((candidate) => {
+    if (candidate.priority === 'pinned' || keptTokens + candidate.tokenCount <= budget) {
+      keptFiles.push(candidate.path);
+      keptTokens += candidate.tokenCount;
+    } else {
+      droppedFiles.push(candidate);
+      droppedTokens += candidate.tokenCount;
+    }
+  });
+
+  return {
+    budget,
+    keptFiles,
+    droppedFiles,
+    keptTokens,
+    droppedTokens,
+    pinnedOverBudget: keptTokens > budget,
+  };
+}
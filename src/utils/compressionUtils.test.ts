@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { compressContent } from './compressionUtils';
+
+const stripComments = (content: string, language = 'javascript') =>
+  compressContent(content, language, {
+    stripComments: true,
+    collapseBlankLines: false,
+    dropLicenseHeaders: false,
+  }).content;
+
+describe('compressContent', () => {
+  it('keeps a regex literal containing // and strips the comment after it', () => {
+    expect(stripComments('const re = /https?:\\/\\//; const keep = 1; // note')).toBe(
+      'const re = /https?:\\/\\//; const keep = 1;'
+    );
+  });
+
+  it('does not read a quote inside a regex literal as a string', () => {
+    expect(stripComments("const quote = /'/g; // note\nconst next = 2;")).toBe(
+      "const quote = /'/g;\nconst next = 2;"
+    );
+  });
+
+  it('keeps regex literals after keywords and in character classes', () => {
+    const code = 'function f(s) {\n  return /[/]/.test(s); // slash\n}';
+    expect(stripComments(code, 'typescript')).toBe('function f(s) {\n  return /[/]/.test(s);\n}');
+  });
+
+  it('treats a slash after a value as division', () => {
+    expect(stripComments('const half = total / 2; // half\nconst x = a / b / c;')).toBe(
+      'const half = total / 2;\nconst x = a / b / c;'
+    );
+  });
+});
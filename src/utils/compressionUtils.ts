@@ -0,0 +1,350 @@
+/**
+ * Utility functions for compressing file contents to save tokens.
+ * Comments, license headers and blank lines are removed based on the language
+ * detected by `getLanguageFromFilename`. String literals are never changed.
+ */
+
+import { CommentSyntax, CompressionOptions } from '../types/CompressionTypes';
+
+const C_STYLE: CommentSyntax = {
+  lineComments: ['//'],
+  blockComments: [['/*', '*/']],
+  strings: ['"', "'"],
+};
+
+const JS_STYLE: CommentSyntax = {
+  ...C_STYLE,
+  strings: ['"', "'", '`'],
+  multilineStrings: ['`'],
+  regexLiterals: true,
+};
+
+const HASH_STYLE: CommentSyntax = {
+  lineComments: ['#'],
+  blockComments: [],
+  strings: ['"', "'"],
+  hashNeedsWhitespace: true,
+};
+
+const MARKUP_STYLE: CommentSyntax = {
+  lineComments: [],
+  blockComments: [['<!--', '-->']],
+  strings: [],
+};
+
+/**
+ * Comment syntax by language identifier (as returned by `getLanguageFromFilename`).
+ * Languages not listed here are only affected by blank line collapsing.
+ */
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  javascript: JS_STYLE,
+  typescript: JS_STYLE,
+  jsx: JS_STYLE,
+  tsx: JS_STYLE,
+  go: { ...C_STYLE, strings: ['"', '`'], multilineStrings: ['`'] },
+  // Single quotes are lifetimes in Rust, so only double quotes delimit strings
+  rust: { ...C_STYLE, strings: ['"'] },
+  java: C_STYLE,
+  c: C_STYLE,
+  cpp: C_STYLE,
+  csharp: C_STYLE,
+  objectivec: C_STYLE,
+  swift: { ...C_STYLE, strings: ['"""', '"'], multilineStrings: ['"""'] },
+  kotlin: { ...C_STYLE, strings: ['"""', '"', "'"], multilineStrings: ['"""'] },
+  scala: { ...C_STYLE, strings: ['"""', '"', "'"], multilineStrings: ['"""'] },
+  groovy: C_STYLE,
+  dart: C_STYLE,
+  php: { ...C_STYLE, lineComments: ['//', '#'] },
+  protobuf: C_STYLE,
+  prisma: C_STYLE,
+  scss: C_STYLE,
+  less: C_STYLE,
+  css: { ...C_STYLE, lineComments: [] },
+  python: {
+    ...HASH_STYLE,
+    strings: ['"""', "'''", '"', "'"],
+    multilineStrings: ['"""', "'''"],
+  },
+  cython: {
+    ...HASH_STYLE,
+    strings: ['"""', "'''", '"', "'"],
+    multilineStrings: ['"""', "'''"],
+  },
+  shell: HASH_STYLE,
+  bash: HASH_STYLE,
+  ruby: HASH_STYLE,
+  perl: HASH_STYLE,
+  r: HASH_STYLE,
+  yaml: HASH_STYLE,
+  toml: HASH_STYLE,
+  makefile: HASH_STYLE,
+  dockerfile: HASH_STYLE,
+  cmake: HASH_STYLE,
+  elixir: HASH_STYLE,
+  gitignore: HASH_STYLE,
+  powershell: { ...HASH_STYLE, blockComments: [['<#', '#>']] },
+  terraform: { ...HASH_STYLE, lineComments: ['#', '//'], blockComments: [['/*', '*/']] },
+  hcl: { ...HASH_STYLE, lineComments: ['#', '//'], blockComments: [['/*', '*/']] },
+  sql: { lineComments: ['--'], blockComments: [['/*', '*/']], strings: ["'", '"'] },
+  haskell: { lineComments: ['--'], blockComments: [['{-', '-}']], strings: ['"'] },
+  lua: { lineComments: ['--'], blockComments: [['--[[', ']]']], strings: ['"', "'"] },
+  html: MARKUP_STYLE,
+  xml: MARKUP_STYLE,
+  svg: MARKUP_STYLE,
+  vue: MARKUP_STYLE,
+  svelte: MARKUP_STYLE,
+  markdown: MARKUP_STYLE,
+};
+
+/**
+ * Looks up the comment and string syntax for a language, if known
+ */
+export const getCommentSyntax = (language: string): CommentSyntax | undefined =>
+  COMMENT_SYNTAX[language];
+
+// Words that mark a leading comment block as a license header
+const LICENSE_PATTERN = /\b(license|licensed|copyright|spdx-license-identifier)\b|\(c\)|©/i;
+
+export type CharKind = 'code' | 'string' | 'comment';
+
+// Keywords after which a '/' starts a regex literal rather than a division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+]);
+
+/**
+ * Finds the end of a regex literal starting at the '/' at `start`, or -1 when the '/'
+ * is a division or the literal does not end on the same line
+ */
+const findRegexLiteralEnd = (content: string, start: number): number => {
+  let prev = start - 1;
+  while (prev >= 0 && /\s/.test(content[prev])) prev--;
+  if (prev >= 0 && !/[(,=:[!&|?{};+\-*%>~^]/.test(content[prev])) {
+    const word = /[\w$]+$/.exec(content.slice(Math.max(prev - 20, 0), prev + 1));
+    if (!word || !REGEX_PRECEDING_KEYWORDS.has(word[0])) return -1;
+  }
+
+  let inClass = false;
+  for (let j = start + 1; j < content.length; j++) {
+    const char = content[j];
+    if (char === '\\') {
+      j++;
+    } else if (char === '\n') {
+      return -1;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      let end = j + 1;
+      while (end < content.length && /[a-z]/i.test(content[end])) end++; // Flags
+      return end;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Classifies every character of the content as code, string literal or comment.
+ * Regex literals count as string literals. This is a lightweight scanner, not a
+ * parser: nested template expressions are treated as code.
+ */
+export const classifyCharacters = (content: string, syntax: CommentSyntax): CharKind[] => {
+  const kinds: CharKind[] = new Array(content.length).fill('code');
+  const multiline = syntax.multilineStrings || [];
+  // A shebang line is code, even in languages where '#' starts a comment
+  let i = content.startsWith('#!') ? Math.max(content.indexOf('\n'), 0) : 0;
+
+  const mark = (start: number, end: number, kind: CharKind) => {
+    for (let k = start; k < end && k < content.length; k++) kinds[k] = kind;
+  };
+
+  while (i < content.length) {
+    const block = syntax.blockComments.find(([open]) => content.startsWith(open, i));
+    if (block) {
+      const close = content.indexOf(block[1], i + block[0].length);
+      const end = close === -1 ? content.length : close + block[1].length;
+      mark(i, end, 'comment');
+      i = end;
+      continue;
+    }
+
+    const lineComment = syntax.lineComments.find((marker) => content.startsWith(marker, i));
+    if (
+      lineComment &&
+      !(lineComment === '#' && syntax.hashNeedsWhitespace && i > 0 && !/\s/.test(content[i - 1]))
+    ) {
+      const newline = content.indexOf('\n', i);
+      const end = newline === -1 ? content.length : newline;
+      mark(i, end, 'comment');
+      i = end;
+      continue;
+    }
+
+    if (syntax.regexLiterals && content[i] === '/') {
+      const end = findRegexLiteralEnd(content, i);
+      if (end !== -1) {
+        mark(i, end, 'string');
+        i = end;
+        continue;
+      }
+    }
+
+    const quote = syntax.strings.find((delimiter) => content.startsWith(delimiter, i));
+    if (quote) {
+      const allowsNewlines = multiline.includes(quote);
+      let j = i + quote.length;
+      while (j < content.length) {
+        if (content[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (content.startsWith(quote, j)) {
+          j += quote.length;
+          break;
+        }
+        // An unterminated single-line string ends at the newline
+        if (content[j] === '\n' && !allowsNewlines) break;
+        j++;
+      }
+      mark(i, j, 'string');
+      i = j;
+      continue;
+    }
+
+    i++;
+  }
+
+  return kinds;
+};
+
+/**
+ * Finds the [start, end) range of a leading license comment, or an empty range when
+ * the file does not start with one. A shebang line is kept in place.
+ */
+const findLicenseHeader = (content: string, kinds: CharKind[]): [number, number] => {
+  let start = 0;
+  if (content.startsWith('#!')) {
+    const newline = content.indexOf('\n');
+    start = newline === -1 ? content.length : newline + 1;
+  }
+
+  let end = start;
+  while (end < content.length && (kinds[end] === 'comment' || /\s/.test(content[end]))) {
+    end++;
+  }
+
+  const header = content.slice(start, end);
+  return LICENSE_PATTERN.test(header) ? [start, end] : [start, start];
+};
+
+/**
+ * Compresses file content according to the enabled options.
+ *
+ * @param content The original file content
+ * @param language Language identifier from `getLanguageFromFilename`
+ * @param options Which compressions to apply
+ * @returns The compressed content and, for each remaining line, its original 1-based line number
+ */
+export const compressContent = (
+  content: string,
+  language: string,
+  options: CompressionOptions
+): { content: string; lineNumbers: number[] } => {
+  const originalLines = content.split('\n');
+  const unchanged = {
+    content,
+    lineNumbers: originalLines.map((_line: string, index: number) => index + 1),
+  };
+
+  if (!options.stripComments && !options.collapseBlankLines && !options.dropLicenseHeaders) {
+    return unchanged;
+  }
+
+  const syntax = COMMENT_SYNTAX[language];
+  const kinds = syntax
+    ? classifyCharacters(content, syntax)
+    : (new Array(content.length).fill('code') as CharKind[]);
+
+  // Mark the characters to remove
+  const removed: boolean[] = new Array(content.length).fill(false);
+  if (syntax && options.stripComments) {
+    kinds.forEach((kind: CharKind, index: number) => {
+      if (kind === 'comment') removed[index] = true;
+    });
+  }
+  if (syntax && options.dropLicenseHeaders) {
+    const [headerStart, headerEnd] = findLicenseHeader(content, kinds);
+    for (let k = headerStart; k < headerEnd; k++) removed[k] = true;
+  }
+
+  // Rebuild line by line so each remaining line keeps its original line number
+  const resultLines: string[] = [];
+  const lineNumbers: number[] = [];
+  let offset = 0;
+  let previousBlank = false;
+
+  originalLines.forEach((line: string, lineIndex: number) => {
+    const lineStart = offset;
+    const lineEnd = offset + line.length; // Index of this line's newline
+    offset = lineEnd + 1;
+
+    // Lines that start or end inside a string literal must be kept exactly as they are
+    const startsInString = lineStart > 0 && kinds[lineStart - 1] === 'string';
+    const endsInString = kinds[lineEnd] === 'string';
+
+    let text = line;
+    let hadRemovals = !!removed[lineEnd];
+    if (!startsInString || !endsInString) {
+      let kept = '';
+      for (let k = lineStart; k < lineEnd; k++) {
+        if (removed[k]) {
+          hadRemovals = true;
+        } else {
+          kept += content[k];
+        }
+      }
+      text = hadRemovals && !endsInString ? kept.replace(/\s+$/, '') : kept;
+    }
+
+    const isBlank = text.trim() === '' && !startsInString;
+
+    // Drop lines that only held removed comments or header text
+    if (hadRemovals && isBlank) {
+      return;
+    }
+
+    if (options.collapseBlankLines && isBlank) {
+      if (previousBlank || resultLines.length === 0) {
+        return;
+      }
+      previousBlank = true;
+    } else {
+      previousBlank = false;
+    }
+
+    resultLines.push(text);
+    lineNumbers.push(lineIndex + 1);
+  });
+
+  return { content: resultLines.join('\n'), lineNumbers };
+};
+
+/**
+ * Checks whether any compression option is enabled
+ */
+export const isCompressionEnabled = (options: CompressionOptions | undefined): boolean =>
+  !!options && (options.stripComments || options.collapseBlankLines || options.dropLicenseHeaders);
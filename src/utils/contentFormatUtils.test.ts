@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { FileData } from '../types/FileTypes';
+import { InstructionPlacement } from '../types/OutputFormatTypes';
+import { addLineNumbers, formatContentForCopying } from './contentFormatUtils';
+import { OUTPUT_FORMATS } from './outputFormatUtils';
+
+const createFile = (path: string, content: string, extra: Partial<FileData> = {}): FileData => ({
+  name: path.split('/').pop() || path,
+  path,
+  content,
+  isContentLoaded: true,
+  tokenCount: Math.ceil(content.length / 4),
+  size: content.length,
+  isBinary: false,
+  isSkipped: false,
+  ...extra,
+});
+
+const files = [
+  createFile('/project/src/index.ts', "import { add } from './math';\n\nconsole.log(add(1, 2));", {
+    tokenCount: 14,
+  }),
+  createFile(
+    '/project/src/math.ts',
+    'export const add = (a: number, b: number) => a + b;\n\n' +
+      'export const subtract = (a: number, b: number) => a - b;\n\n' +
+      'export const multiply = (a: number, b: number) => a * b;',
+    { tokenCount: 48 }
+  ),
+  createFile('/project/assets/logo.png', '', { isBinary: true, fileType: 'PNG' }),
+];
+
+const PLACEMENTS: InstructionPlacement[] = ['top', 'bottom', 'both'];
+const lineRanges = { '/project/src/math.ts': [{ start: 3, end: 3 }] };
+
+/**
+ * Expected output, kept in __fixtures__/output as <format>-<placement>.txt
+ */
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./__fixtures__/output/${name}.txt`, import.meta.url), 'utf8');
+
+describe('formatContentForCopying', () => {
+  OUTPUT_FORMATS.forEach((format) => {
+    PLACEMENTS.forEach((placement) => {
+      it(`assembles ${format.label} output with instructions at the ${placement}`, () => {
+        const output = formatContentForCopying({
+          files,
+          selectedFiles: files.map((file) => file.path),
+          sortOrder: 'name-asc',
+          includeFileTree: true,
+          includeBinaryPaths: true,
+          lineRanges,
+          selectedFolder: '/project',
+          userInstructions: 'Explain what this code does.',
+          outputFormat: format.id,
+          instructionPlacement: placement,
+        });
+        expect(output).toBe(readFixture(`${format.id}-${placement}`));
+      });
+    });
+  });
+});
+
+describe('token counts of rendered files', () => {
+  const params = {
+    files,
+    selectedFiles: files.map((file) => file.path),
+    sortOrder: 'name-asc',
+    includeFileTree: false,
+    includeBinaryPaths: false,
+    lineRanges,
+    selectedFolder: '/project',
+    userInstructions: '',
+  };
+
+  it('reports the count of the rendered lines in templates', () => {
+    const output = formatContentForCopying({
+      ...params,
+      template: '{{#files}}{{path}}: {{tokens}}\n{{/files}}',
+    });
+    expect(output).toBe('/project/src/index.ts: 14\n/project/src/math.ts (lines 3): 16\n');
+  });
+
+  it('prefers counted tokens of the prepared content', () => {
+    const output = formatContentForCopying({
+      ...params,
+      outputFormat: 'json',
+      preparedTokenCounts: { '/project/src/math.ts': 15 },
+    });
+    expect(JSON.parse(output).files.map((file: FileData) => file.tokenCount)).toEqual([14, 15]);
+  });
+});
+
+describe('addLineNumbers', () => {
+  it('keeps a trailing newline without numbering the empty line after it', () => {
+    expect(addLineNumbers('API_KEY=x\nPORT=3000\n')).toBe('1 | API_KEY=x\n2 | PORT=3000\n');
+  });
+
+  it('numbers every line of content without a trailing newline', () => {
+    expect(addLineNumbers('a\n\nb')).toBe('1 | a\n2 | \n3 | b');
+  });
+});
@@ -3,45 +3,70 @@
  */
 
 import { FileData } from '../types/FileTypes';
+import {
+  ContentSection,
+  ContentSectionId,
+  InstructionPlacement,
+  OutputFormatContext,
+  OutputFormatId,
+  DEFAULT_INSTRUCTION_PLACEMENT,
+  DEFAULT_OUTPUT_FORMAT,
+} from '../types/OutputFormatTypes';
+import { CompressionOptions } from '../types/CompressionTypes';
+import { FileInclusionMode } from '../types/OutlineTypes';
+import { LineRange } from '../types/LineRangeTypes';
 import { generateAsciiFileTree, normalizePath } from './pathUtils';
+import { formatTreeRoot, getOutputFormat } from './outputFormatUtils';
+import { compressContent, isCompressionEnabled } from './compressionUtils';
 import { getLanguageFromFilename } from './languageUtils';
+import { createFileOutline } from './outlineUtils';
+import { renderTemplate } from './templateUtils';
+import { extractLineRanges, formatElisionMarker, getRangedFilePath } from './lineRangeUtils';
+import { getWorkspaceRoots } from './workspaceUtils';
 
 /**
  * Interface defining parameters for formatting file content
  */
-interface FormatContentParams {
+export interface FormatContentParams {
   files: FileData[]; // All files in the project
   selectedFiles: string[]; // Paths of selected files
   sortOrder: string; // Current sort order (e.g., "tokens-desc")
   includeFileTree: boolean; // Whether to include file tree in output
   includeBinaryPaths: boolean; // Whether to include binary file paths in output
+  includeLineNumbers?: boolean; // Whether to prefix each line of file content with its line number
+  compression?: CompressionOptions; // Comment, license header and blank line stripping
+  fileModes?: Record<string, FileInclusionMode>; // Per-file full/outline/sample mode, keyed by path (default full)
+  lineRanges?: Record<string, LineRange[]>; // Per-file line ranges to include, keyed by path (default all lines)
   selectedFolder: string | null; // Current selected folder path
-  userInstructions: string; // User instructions to append to content
+  rootFolders?: string[]; // All root folders of a multi-root workspace, the selected folder first
+  treeFiles?: FileData[]; // Files drawn in the file tree (defaults to the selected files)
+  showTreeTokenCounts?: boolean; // Print file and directory token counts in the file tree
+  showOmittedFiles?: boolean; // List unselected files in the file tree, marked as omitted
+  treeOmittedFiles?: FileData[]; // Omitted files drawn in the file tree (defaults to the unselected files)
+  preparedTokenCounts?: Record<string, number>; // Counted tokens of prepared contents without line numbers, keyed by path
+  userInstructions: string; // User instructions to include with the content
+  outputFormat?: OutputFormatId; // Output format from the registry (defaults to XML)
+  instructionPlacement?: InstructionPlacement; // Instructions before and/or after the files (defaults to bottom)
+  template?: string; // User-defined template, rendered instead of the output format when set
 }
 
 /**
- * Assembles the formatted content for copying
- * The content is assembled in the following order:
- * 1. File tree (if enabled) within <file_map> tags
- * 2. All selected file content within <file_contents> tags
- * 3. User instructions at the end within <user_instructions> tags
- *
- * Each section is clearly separated with the appropriate tags
- * File contents include the full file path and language syntax highlighting
- *
- * @param {FormatContentParams} params - Parameters for formatting content
- * @returns {string} The concatenated content ready for copying
+ * Options that decide how the prepared files are laid out
  */
-export const formatBaseFileContent = ({
-  files,
-  selectedFiles,
-  sortOrder,
-  includeFileTree,
-  includeBinaryPaths,
-  selectedFolder,
-}: Omit<FormatContentParams, 'userInstructions'>): string => {
-  // Sort files according to current sort settings
-  const sortedSelected = files
+export type AssembleOptions = Pick<
+  FormatContentParams,
+  'userInstructions' | 'outputFormat' | 'instructionPlacement' | 'template'
+>;
+
+/**
+ * Filters the selected files out of all files and sorts them according to the sort order
+ */
+export const getSortedSelectedFiles = (
+  files: FileData[],
+  selectedFiles: string[],
+  sortOrder: string
+): FileData[] => {
+  return files
     .filter((file: FileData) => selectedFiles.includes(file.path))
     .sort((a: FileData, b: FileData) => {
       let comparison = 0;
@@ -57,144 +82,303 @@ export const formatBaseFileContent = ({
 
       return sortDir === 'asc' ? comparison : -comparison;
     });
+};
 
-  if (sortedSelected.length === 0) {
-    return '';
-  }
+/**
+ * Returns a copy of a selected file with its prepared content.
+ * Files limited to line ranges get the spans in their path, so headers show them.
+ * The token count is that of the prepared content: the counted one when given, otherwise
+ * the file's count scaled to the prepared content's length.
+ */
+export const prepareSelectedFile = (
+  file: FileData,
+  options: PrepareFileContentOptions,
+  tokenCount?: number
+): FileData => {
+  const content = prepareFileContent(file, options);
+  return {
+    ...file,
+    path: options.lineRanges?.length ? getRangedFilePath(file.path, options.lineRanges) : file.path,
+    content,
+    tokenCount:
+      tokenCount ??
+      (file.content.length > 0
+        ? Math.round((file.tokenCount * content.length) / file.content.length)
+        : Math.ceil(content.length / 4)),
+  };
+};
+
+/**
+ * Files that are listed in the file tree as omitted: every unselected file
+ * that is not excluded by default
+ */
+export const getOmittedFiles = (files: FileData[], selectedFiles: string[]): FileData[] => {
+  const selected = new Set(selectedFiles);
+  return files.filter((file: FileData) => !selected.has(file.path) && !file.excludedByDefault);
+};
+
+/**
+ * Prefixes each line with its line number, right-aligned to the widest number
+ * (e.g. " 9 | foo" and "10 | bar"). A trailing newline is kept without numbering
+ * the empty piece after it.
+ * @param content The file content
+ * @param lineNumbers Original line number of each line, for content with removed lines
+ * @param minWidth Minimum number width, so separately numbered ranges line up
+ */
+export const addLineNumbers = (content: string, lineNumbers?: number[], minWidth = 0): string => {
+  const hasTrailingNewline = content.endsWith('\n');
+  const lines = (hasTrailingNewline ? content.slice(0, -1) : content).split('\n');
+  const numbers = lines.map((_line: string, index: number) => lineNumbers?.[index] ?? index + 1);
+  const width = Math.max(String(numbers.reduce((max, n) => Math.max(max, n), 0)).length, minWidth);
+  const numbered = lines
+    .map((line: string, index: number) => `${String(numbers[index]).padStart(width)} | ${line}`)
+    .join('\n');
+  return hasTrailingNewline ? `${numbered}\n` : numbered;
+};
 
-  // Separate files into text and binary
-  const normalFiles = sortedSelected.filter((file) => !file.isBinary);
-  const binaryFiles = sortedSelected.filter((file) => file.isBinary);
+/**
+ * Options that change how a single file's content is rendered
+ */
+interface PrepareFileContentOptions {
+  includeLineNumbers?: boolean;
+  compression?: CompressionOptions;
+  mode?: FileInclusionMode;
+  lineRanges?: LineRange[]; // Only include these lines (takes precedence over outline and sample mode)
+}
 
-  let concatenatedString = '';
+/**
+ * Checks whether any option would change a file's content
+ */
+export const needsFilePreparation = ({
+  includeLineNumbers,
+  compression,
+  mode,
+  lineRanges,
+}: PrepareFileContentOptions): boolean =>
+  !!includeLineNumbers ||
+  isCompressionEnabled(compression) ||
+  mode === 'outline' ||
+  mode === 'sample' ||
+  !!lineRanges?.length;
 
-  // Add ASCII file tree if enabled within <file_map> tags
-  if (includeFileTree && selectedFolder) {
-    const normalizedFolder = normalizePath(selectedFolder);
-    const asciiTree = generateAsciiFileTree(sortedSelected, selectedFolder);
-    concatenatedString += `<file_map>\n${normalizedFolder}\n${asciiTree}\n</file_map>\n\n`;
+/**
+ * Compresses and numbers content whose lines may already have been cut down.
+ * @param lineNumbers Original line number of each line, when lines were removed
+ */
+const compressAndNumber = (
+  content: string,
+  lineNumbers: number[] | undefined,
+  language: string,
+  { includeLineNumbers = false, compression }: PrepareFileContentOptions,
+  numberWidth = 0
+): string => {
+  if (isCompressionEnabled(compression)) {
+    const compressed = compressContent(content, language, compression as CompressionOptions);
+    content = compressed.content;
+    // Map compressed lines back to the original file
+    lineNumbers = compressed.lineNumbers.map((line: number) =>
+      lineNumbers ? lineNumbers[line - 1] : line
+    );
   }
 
-  // Add file contents section with consistent spacing
-  concatenatedString += `<file_contents>\n`;
+  return includeLineNumbers ? addLineNumbers(content, lineNumbers, numberWidth) : content;
+};
 
-  // Add each text file with its path and language-specific syntax highlighting
-  normalFiles.forEach((file: FileData) => {
-    const language = getLanguageFromFilename(file.name);
-    const normalizedPath = normalizePath(file.path);
-    concatenatedString += `File: ${normalizedPath}\n\`\`\`${language}\n${file.content}\n\`\`\`\n\n`;
-  });
+/**
+ * Applies line ranges or outline mode, then compression and line numbering, in that order.
+ * Line numbers always refer to the original file, even when lines were removed.
+ * Ranges are separated by a marker naming the omitted lines.
+ * Samples are included as they are, since they already mark the rows they leave out.
+ */
+export const prepareFileContent = (file: FileData, options: PrepareFileContentOptions): string => {
+  const language = getLanguageFromFilename(file.name);
 
-  // Add binary files section if enabled and files exist
-  if (includeBinaryPaths && binaryFiles.length > 0) {
-    concatenatedString += `<binary_files>\n`;
-    binaryFiles.forEach((file: FileData) => {
-      const normalizedPath = normalizePath(file.path);
-      const fileType = getLanguageFromFilename(file.name);
-      concatenatedString += `File: ${normalizedPath}\nThis is a file of the type: ${fileType.charAt(0).toUpperCase() + fileType.slice(1)}\n\n`;
-    });
-    concatenatedString += `</binary_files>\n\n`;
+  if (options.lineRanges && options.lineRanges.length > 0) {
+    const sections = extractLineRanges(file.content, options.lineRanges);
+    const numberWidth =
+      sections.length > 0 ? String(sections[sections.length - 1].range.end).length : 0;
+    return sections
+      .map((section, index) => {
+        const content = compressAndNumber(
+          section.content,
+          section.lineNumbers,
+          language,
+          options,
+          numberWidth
+        );
+        const previous = sections[index - 1];
+        return previous
+          ? `${formatElisionMarker(previous.range.end + 1, section.range.start - 1)}\n${content}`
+          : content;
+      })
+      .join('\n');
   }
 
-  // Consistent closing of file_contents section
-  concatenatedString += `</file_contents>\n`;
+  if (options.mode === 'sample' && file.sampleContent) {
+    return file.sampleContent;
+  }
 
-  return concatenatedString;
-};
+  if (options.mode === 'outline') {
+    const outline = createFileOutline(file);
+    return compressAndNumber(outline.content, outline.lineNumbers, language, options);
+  }
 
-export const formatUserInstructionsBlock = (userInstructions: string): string => {
-  if (!userInstructions.trim()) return '';
-  return `<user_instructions>\n${userInstructions.trim()}\n</user_instructions>\n`;
+  return compressAndNumber(file.content, undefined, language, options);
 };
 
-export const formatContentForCopying = ({
+/**
+ * Collects the sorted files, prepared contents, file tree and binary files
+ * shared by the output formats and templates.
+ * Returns null when no files are selected.
+ */
+export const buildFormatContext = ({
   files,
   selectedFiles,
   sortOrder,
   includeFileTree,
   includeBinaryPaths,
+  includeLineNumbers = false,
+  compression,
+  fileModes,
+  lineRanges,
   selectedFolder,
-  userInstructions,
-}: FormatContentParams): string => {
-  // Sort files according to current sort settings
-  const sortedSelected = files
-    .filter((file: FileData) => selectedFiles.includes(file.path))
-    .sort((a: FileData, b: FileData) => {
-      let comparison = 0;
-      const [sortKey, sortDir] = sortOrder.split('-');
-
-      if (sortKey === 'name') {
-        comparison = a.name.localeCompare(b.name);
-      } else if (sortKey === 'tokens') {
-        comparison = a.tokenCount - b.tokenCount;
-      } else if (sortKey === 'size') {
-        comparison = a.size - b.size;
-      }
-
-      return sortDir === 'asc' ? comparison : -comparison;
-    });
+  rootFolders = [],
+  treeFiles,
+  showTreeTokenCounts = false,
+  showOmittedFiles = false,
+  treeOmittedFiles,
+  preparedTokenCounts,
+}: Omit<FormatContentParams, keyof AssembleOptions>): OutputFormatContext | null => {
+  const sortedSelected = getSortedSelectedFiles(files, selectedFiles, sortOrder);
 
   if (sortedSelected.length === 0) {
-    return 'No files selected.';
+    return null;
   }
 
-  // Separate files into text and binary
-  const normalFiles = sortedSelected.filter((file) => !file.isBinary);
-  const binaryFiles = sortedSelected.filter((file) => file.isBinary);
+  const roots = rootFolders.length > 1 ? getWorkspaceRoots(rootFolders) : [];
+  return {
+    rootPath: selectedFolder ? normalizePath(selectedFolder) : null,
+    roots,
+    fileTree:
+      includeFileTree && selectedFolder
+        ? generateAsciiFileTree(treeFiles || sortedSelected, selectedFolder, {
+            roots,
+            showTokenCounts: showTreeTokenCounts,
+            omittedFiles: showOmittedFiles
+              ? treeOmittedFiles || getOmittedFiles(files, selectedFiles)
+              : [],
+          }).trimEnd()
+        : null,
+    files: sortedSelected
+      .filter((file) => !file.isBinary)
+      .map((file) => {
+        const options = {
+          includeLineNumbers,
+          compression,
+          mode: fileModes?.[file.path],
+          lineRanges: lineRanges?.[file.path],
+        };
+        // Counts are made without line numbers, so numbered files are estimated
+        const tokenCount = includeLineNumbers ? undefined : preparedTokenCounts?.[file.path];
+        return needsFilePreparation(options)
+          ? prepareSelectedFile(file, options, tokenCount)
+          : file;
+      }),
+    binaryFiles: includeBinaryPaths ? sortedSelected.filter((file) => file.isBinary) : [],
+  };
+};
 
-  let concatenatedString = '';
+/**
+ * Order of the content sections for each instruction placement
+ */
+const SECTION_ORDER: Record<InstructionPlacement, ContentSectionId[]> = {
+  top: ['instructions', 'tree', 'files', 'binaries'],
+  bottom: ['tree', 'files', 'binaries', 'instructions'],
+  both: ['instructions', 'tree', 'files', 'binaries', 'instructions'],
+};
 
-  // Add user instructions block FIRST if present
-  if (userInstructions.trim()) {
-    concatenatedString += `<user_instructions>\n${userInstructions.trim()}\n</user_instructions>\n`;
-  }
+/**
+ * Renders a user-defined template with the prepared files
+ * @throws {TemplateError} When the template is invalid
+ */
+const renderTemplateContent = (
+  context: OutputFormatContext | null,
+  template: string,
+  userInstructions: string
+): string =>
+  renderTemplate(template, {
+    tree: context?.fileTree ? `${formatTreeRoot(context)}\n${context.fileTree}` : '',
+    root: context?.rootPath || '',
+    files: (context?.files || []).map((file: FileData) => ({
+      path: normalizePath(file.path),
+      name: file.name,
+      language: getLanguageFromFilename(file.name),
+      content: file.content,
+      tokens: file.tokenCount,
+    })),
+    binaryFiles: (context?.binaryFiles || [])
+      .map(
+        (file: FileData) => `${normalizePath(file.path)} (${getLanguageFromFilename(file.name)})`
+      )
+      .join('\n'),
+    instructions: userInstructions.trim(),
+    date: new Date().toLocaleDateString('en-CA'), // YYYY-MM-DD in local time
+    fileCount: context?.files.length || 0,
+  });
 
-  // Add ASCII file tree if enabled within <file_map> tags
-  if (includeFileTree && selectedFolder) {
-    const normalizedFolder = normalizePath(selectedFolder);
-    const asciiTree = generateAsciiFileTree(sortedSelected, selectedFolder);
-    concatenatedString += `<file_map>\n${normalizedFolder}\n${asciiTree}\n</file_map>`;
-    // Add consistent double newline after section
-    concatenatedString += '\n\n';
+/**
+ * Lays out prepared files and instructions as the final copied content.
+ *
+ * Sections are rendered in a fixed order (instructions, file tree, files, binary files),
+ * with the instructions moved according to the placement. Empty sections are left out.
+ * This is the only place content is assembled, so token counts taken from its
+ * output always match what gets copied.
+ *
+ * @param context Prepared files from `buildFormatContext`, or null when nothing is selected
+ * @param options Output format, instruction placement, template and user instructions
+ * @throws {TemplateError} When a template is given and it is invalid
+ */
+export const assembleContent = (
+  context: OutputFormatContext | null,
+  {
+    userInstructions,
+    outputFormat = DEFAULT_OUTPUT_FORMAT,
+    instructionPlacement = DEFAULT_INSTRUCTION_PLACEMENT,
+    template,
+  }: AssembleOptions
+): string => {
+  if (template !== undefined) {
+    return renderTemplateContent(context, template, userInstructions);
   }
 
-  // Add file contents section with consistent spacing
-  concatenatedString += `<file_contents>`;
-  // Always add newline after opening tag
-  concatenatedString += '\n';
+  const format = getOutputFormat(outputFormat);
+  const instructions = userInstructions.trim();
 
-  // Add each text file with its path and language-specific syntax highlighting
-  normalFiles.forEach((file: FileData) => {
-    // Use the enhanced getLanguageFromFilename utility for optimal language detection
-    const language = getLanguageFromFilename(file.name);
-    // Normalize the file path for cross-platform compatibility
-    const normalizedPath = normalizePath(file.path);
+  const renderSection = (id: ContentSectionId): string => {
+    if (id === 'instructions') {
+      return instructions ? format.renderInstructions(instructions) : '';
+    }
+    if (!context) return '';
+    if (id === 'tree') {
+      return context.fileTree !== null && context.rootPath ? format.renderTree(context) : '';
+    }
+    if (id === 'files') {
+      return format.renderFiles(context);
+    }
+    return context.binaryFiles.length > 0 ? format.renderBinaryFiles(context) : '';
+  };
 
-    // Add file path and content with language-specific code fencing
-    concatenatedString += `File: ${normalizedPath}\n\`\`\`${language}\n${file.content}\n\`\`\`\n\n`;
-  });
-
-  // Add binary files section if enabled and files exist
-  if (includeBinaryPaths && binaryFiles.length > 0) {
-    // Remove extra newline before binary_files tag for consistency
-    concatenatedString += `<binary_files>\n`;
-
-    // Add each binary file entry
-    binaryFiles.forEach((file: FileData) => {
-      const normalizedPath = normalizePath(file.path);
-      // Get better file type description using language detection
-      const fileType = getLanguageFromFilename(file.name);
-      concatenatedString += `File: ${normalizedPath}\nThis is a file of the type: ${fileType.charAt(0).toUpperCase() + fileType.slice(1)}\n\n`;
-    });
-
-    // Close binary files section with an extra newline for spacing
-    concatenatedString += `</binary_files>\n\n`;
-  }
+  const sections = SECTION_ORDER[instructionPlacement]
+    .map((id: ContentSectionId): ContentSection => ({ id, content: renderSection(id) }))
+    .filter((section: ContentSection) => section.content);
 
-  // Consistent closing of file_contents section
-  concatenatedString += `</file_contents>`;
-  // Add consistent double newline after section
-  concatenatedString += '\n\n';
-
-  return concatenatedString;
+  return format.assemble(sections);
 };
+
+/**
+ * Prepares the selected files and assembles the content for copying
+ * @param {FormatContentParams} params - Parameters for formatting content
+ * @returns {string} The content ready for copying
+ */
+export const formatContentForCopying = (params: FormatContentParams): string =>
+  assembleContent(buildFormatContext(params), params);
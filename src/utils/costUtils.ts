@@ -0,0 +1,69 @@
+import { ModelInfo } from '../types/ModelTypes';
+import { CostEstimate, DailyCostTotal } from '../types/CostTypes';
+
+/**
+ * Estimates the cost of sending `inputTokens` to a model and getting `outputTokens` back.
+ * Returns null when the model has no known pricing.
+ */
+export function estimateCost(
+  model: ModelInfo | undefined,
+  inputTokens: number,
+  outputTokens: number
+): CostEstimate | null {
+  const pricing = model?.pricing;
+  // Models cached before prices were parsed still carry the raw pricing strings
+  if (!model || !pricing || typeof pricing.prompt !== 'number') {
+    return null;
+  }
+
+  const inputCost = inputTokens * pricing.prompt;
+  const outputCost = outputTokens * pricing.completion;
+  return {
+    modelId: model.id,
+    inputTokens,
+    outputTokens,
+    inputCost,
+    outputCost,
+    totalCost: inputCost + outputCost,
+  };
+}
+
+/**
+ * Formats a cost in USD, keeping enough decimals for fractions of a cent
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) {
+    return '$0.00';
+  }
+  if (cost < 0.0001) {
+    return '<$0.0001';
+  }
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Formats a per-token price as the usual price per million tokens
+ */
+export function formatPricePerMillion(pricePerToken: number): string {
+  return `$${(pricePerToken * 1000000).toFixed(2)}/M`;
+}
+
+/**
+ * Sums the cost estimates of history entries per local day, most recent day first
+ */
+export function getDailyCostTotals(
+  entries: { timestamp: number; costEstimate?: CostEstimate }[]
+): DailyCostTotal[] {
+  const totals = new Map<number, DailyCostTotal>();
+
+  entries.forEach((entry) => {
+    if (!entry.costEstimate) return;
+    const day = new Date(entry.timestamp).setHours(0, 0, 0, 0);
+    const total = totals.get(day) || { day, totalCost: 0, entryCount: 0 };
+    total.totalCost += entry.costEstimate.totalCost;
+    total.entryCount++;
+    totals.set(day, total);
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.day - a.day);
+}
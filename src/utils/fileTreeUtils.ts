@@ -1,3 +1,8 @@
+import { BinaryReason, FileData, TreeNode } from '../types/FileTypes';
+import { WorkspaceRoot } from '../types/WorkspaceTypes';
+import { normalizePath, join, isSubPath, arePathsEqual } from './pathUtils';
+import { findWorkspaceRoot, getWorkspaceRoots } from './workspaceUtils';
+
 /**
  * Helper function to determine if a file should be excluded from selection
  * based on its properties and the includeBinaryPaths setting
@@ -9,3 +14,199 @@ export const isFileExcluded = (fileData: any, includeBinaryPaths: boolean): bool
     fileData.isSkipped || fileData.excludedByDefault || (fileData.isBinary && !includeBinaryPaths)
   );
 };
+
+const BINARY_REASON_DESCRIPTIONS: Record<BinaryReason, string> = {
+  override: 'Marked as binary for its extension in the ignore settings',
+  extension: 'Binary by its extension',
+  'magic-number': 'Starts with the signature of a binary format',
+  'null-bytes': 'Contains null bytes',
+  'control-chars': 'Contains too many control characters',
+  'invalid-utf8': 'Not valid UTF-8 or Latin-1 text',
+};
+
+/**
+ * Explains why a file was classified as binary (e.g. for a badge tooltip)
+ */
+export const describeBinaryReason = (fileData: FileData): string => {
+  const description = fileData.binaryReason
+    ? BINARY_REASON_DESCRIPTIONS[fileData.binaryReason]
+    : 'Binary file';
+  return fileData.fileType ? `${description} (${fileData.fileType})` : description;
+};
+
+/**
+ * Builds the folder tree shown in the sidebar from the flat list of files.
+ * Directories come first, then files from most to fewest tokens.
+ * @param baseLevel - Level of the top nodes, e.g. 1 below a root folder node
+ */
+export const buildFileTree = (
+  allFiles: FileData[],
+  selectedFolder: string | null,
+  expandedNodes: Record<string, boolean> = {},
+  baseLevel = 0
+): TreeNode[] => {
+  // Create a structured representation using nested objects first
+  const fileMap: Record<string, any> = {};
+
+  // First pass: create directories and files
+  allFiles.forEach((file) => {
+    if (!file.path) return;
+
+    // Normalize both the selectedFolder and file.path
+    const normalizedSelectedFolder = selectedFolder ? normalizePath(selectedFolder) : '';
+    const normalizedFilePath = normalizePath(file.path);
+
+    // Get the relative path by removing the selectedFolder prefix if it exists
+    const relativePath =
+      normalizedSelectedFolder && isSubPath(normalizedSelectedFolder, normalizedFilePath)
+        ? normalizedFilePath.substring(normalizedSelectedFolder.length + 1) // +1 for the trailing slash
+        : normalizedFilePath;
+
+    const parts = relativePath.split('/');
+    let currentPath = '';
+    let current = fileMap;
+
+    // Build the path in the tree
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (!part) continue;
+
+      // Build the current path segment
+      currentPath = currentPath ? join(currentPath, part) : part;
+
+      // For directory paths, prepend selectedFolder only for the full path
+      const fullPath = normalizedSelectedFolder
+        ? join(normalizedSelectedFolder, currentPath)
+        : currentPath;
+
+      if (i === parts.length - 1) {
+        // This is a file
+        current[part] = {
+          id: `node-${file.path}`,
+          name: part,
+          path: file.path, // Keep the original file path
+          type: 'file',
+          level: baseLevel + i,
+          fileData: file,
+          symlinkTarget: file.symlinkTarget,
+        };
+      } else {
+        // This is a directory
+        if (!current[part]) {
+          current[part] = {
+            id: `node-${fullPath}`,
+            name: part,
+            path: fullPath,
+            type: 'directory',
+            level: baseLevel + i,
+            children: {},
+          };
+        }
+        // Mark the directory that files were reached through by following a link
+        if (file.linkedDirectory && arePathsEqual(file.linkedDirectory.path, fullPath)) {
+          current[part].symlinkTarget = file.linkedDirectory.target;
+        }
+        current = current[part].children;
+      }
+    }
+  });
+
+  // Function to check if a directory contains binary files
+  const hasBinaryFiles = (files: TreeNode[]): boolean => {
+    return files.some((node) => {
+      if (node.type === 'file') {
+        return node.fileData?.isBinary || false;
+      }
+      return node.children ? hasBinaryFiles(node.children) : false;
+    });
+  };
+
+  // Convert nested object structure to TreeNode array format
+  const convertToTreeNodes = (node: Record<string, any>, level = 0): TreeNode[] => {
+    return Object.keys(node).map((key) => {
+      const item = node[key];
+      if (item.type === 'file') {
+        return item as TreeNode;
+      } else {
+        const children = convertToTreeNodes(item.children, level + 1);
+        const isExpanded = expandedNodes[item.id] !== undefined ? expandedNodes[item.id] : true;
+
+        // Check if this directory contains any binary files
+        const hasBinaries = hasBinaryFiles(children);
+
+        return {
+          ...item,
+          children: children.sort((a, b) => {
+            if (a.type === 'directory' && b.type === 'file') return -1;
+            if (a.type === 'file' && b.type === 'directory') return 1;
+            if (a.type === 'file' && b.type === 'file') {
+              const aTokens = a.fileData?.tokenCount || 0;
+              const bTokens = b.fileData?.tokenCount || 0;
+              return bTokens - aTokens;
+            }
+            return a.name.localeCompare(b.name);
+          }),
+          isExpanded,
+          hasBinaries,
+        };
+      }
+    });
+  };
+
+  // Convert to proper tree structure and sort the top level
+  const treeRoots = convertToTreeNodes(fileMap);
+  return treeRoots.sort((a, b) => {
+    if (a.type === 'directory' && b.type === 'file') return -1;
+    if (a.type === 'file' && b.type === 'directory') return 1;
+
+    // Sort files by token count (largest first)
+    if (a.type === 'file' && b.type === 'file') {
+      const aTokens = a.fileData?.tokenCount || 0;
+      const bTokens = b.fileData?.tokenCount || 0;
+      return bTokens - aTokens;
+    }
+
+    return a.name.localeCompare(b.name);
+  });
+};
+
+/**
+ * Builds the folder tree of a workspace. With several root folders, each root is a top
+ * node named by its label, in the workspace's order; a single root is shown as before.
+ */
+export const buildWorkspaceFileTree = (
+  allFiles: FileData[],
+  rootFolders: string[],
+  expandedNodes: Record<string, boolean> = {}
+): TreeNode[] => {
+  if (rootFolders.length <= 1) {
+    return buildFileTree(allFiles, rootFolders[0] || null, expandedNodes);
+  }
+
+  const roots = getWorkspaceRoots(rootFolders);
+  const filesByRoot = new Map<string, FileData[]>(
+    roots.map((root: WorkspaceRoot) => [root.path, []])
+  );
+  allFiles.forEach((file: FileData) => {
+    const root = file.path ? findWorkspaceRoot(file.path, roots) : undefined;
+    if (root) filesByRoot.get(root.path)?.push(file);
+  });
+
+  return roots.map((root: WorkspaceRoot) => {
+    const id = `node-${root.path}`;
+    const children = buildFileTree(filesByRoot.get(root.path) || [], root.path, expandedNodes, 1);
+    return {
+      id,
+      name: root.label,
+      path: root.path,
+      type: 'directory',
+      level: 0,
+      children,
+      isExpanded: expandedNodes[id] !== undefined ? expandedNodes[id] : true,
+      hasBinaries: children.some(
+        (node: TreeNode) => node.hasBinaries || (node.type === 'file' && node.fileData?.isBinary)
+      ),
+      isWorkspaceRoot: true,
+    };
+  });
+};
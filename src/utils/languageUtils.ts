@@ -274,7 +274,7 @@ const EXTENSION_MAP: Record<string, string> = {
   pyw: 'python',
   pyx: 'cython',
   pxd: 'cython',
-  ipynb: 'jupyter', // Jupyter notebook
+  ipynb: 'python', // Jupyter notebook, converted to percent-format (# %%) cells when read
   rb: 'ruby',
   erb: 'erb', // Ruby templating
   gemspec: 'ruby',
@@ -0,0 +1,88 @@
+/**
+ * Utility functions for including only selected line ranges of a file
+ */
+
+import { LineRange, LineRangeInput } from '../types/LineRangeTypes';
+
+const RANGE_INPUT_PATTERN = /^(.+):(\d+(?:\s*-\s*\d+)?(?:\s*,\s*\d+(?:\s*-\s*\d+)?)*)$/;
+
+/**
+ * Sorts ranges and merges overlapping or adjacent ones.
+ * When the line count is known, ranges are clamped to the file and empty ones dropped.
+ */
+export const normalizeLineRanges = (ranges: LineRange[], lineCount?: number): LineRange[] => {
+  const clamped = ranges
+    .map((range: LineRange) => ({
+      start: Math.max(Math.min(range.start, range.end), 1),
+      end: Math.min(Math.max(range.start, range.end), lineCount ?? Infinity),
+    }))
+    .filter((range: LineRange) => range.start <= range.end)
+    .sort((a: LineRange, b: LineRange) => a.start - b.start);
+
+  return clamped.reduce((merged: LineRange[], range: LineRange) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Formats ranges for display and file headers (e.g. "10-80, 120-140")
+ */
+export const formatLineRanges = (ranges: LineRange[]): string =>
+  ranges
+    .map((range: LineRange) =>
+      range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`
+    )
+    .join(', ');
+
+/**
+ * Path shown in a file header when only some lines are included
+ */
+export const getRangedFilePath = (path: string, ranges: LineRange[]): string =>
+  `${path} (lines ${formatLineRanges(ranges)})`;
+
+/**
+ * Parses typed input such as `src/app.ts:10-80` or `src/app.ts:10-80,120`
+ * @returns The path and ranges, or null when the input is not a line range
+ */
+export const parseLineRangeInput = (input: string): LineRangeInput | null => {
+  const match = input.trim().match(RANGE_INPUT_PATTERN);
+  if (!match) return null;
+
+  const ranges = match[2].split(',').map((part: string) => {
+    const [start, end = start] = part.split('-').map((value: string) => parseInt(value, 10));
+    return { start, end };
+  });
+
+  return { path: match[1].trim(), ranges: normalizeLineRanges(ranges) };
+};
+
+/**
+ * Elision marker placed between ranges, naming the lines left out
+ */
+export const formatElisionMarker = (start: number, end: number): string =>
+  `... (lines ${start}-${end} omitted) ...`;
+
+/**
+ * Splits content into the parts covered by the ranges
+ * @returns Each range's lines and their original line numbers
+ */
+export const extractLineRanges = (
+  content: string,
+  ranges: LineRange[]
+): { range: LineRange; content: string; lineNumbers: number[] }[] => {
+  const lines = content.split('\n');
+  return normalizeLineRanges(ranges, lines.length).map((range: LineRange) => ({
+    range,
+    content: lines.slice(range.start - 1, range.end).join('\n'),
+    lineNumbers: Array.from(
+      { length: range.end - range.start + 1 },
+      (_value, index) => range.start + index
+    ),
+  }));
+};
@@ -0,0 +1,297 @@
+/**
+ * Utility functions for splitting copied content into numbered parts
+ * that each stay under a token limit.
+ */
+
+import { FileData } from '../types/FileTypes';
+import {
+  DEFAULT_INSTRUCTION_PLACEMENT,
+  DEFAULT_OUTPUT_FORMAT,
+  InstructionPlacement,
+} from '../types/OutputFormatTypes';
+import { ContentPart } from '../types/MultiPartTypes';
+import { SecretFinding } from '../types/SecretTypes';
+import {
+  FormatContentParams,
+  assembleContent,
+  buildFormatContext,
+  getOmittedFiles,
+  getSortedSelectedFiles,
+  needsFilePreparation,
+  prepareSelectedFile,
+} from './contentFormatUtils';
+import { generateAsciiFileTree } from './pathUtils';
+import { redactFormatContext, redactSecrets } from './secretScanUtils';
+import { getWorkspaceRoots } from './workspaceUtils';
+
+// Tokens set aside in every part for the part header and the format's wrapper tags
+const PART_HEADER_TOKENS = 150;
+// Tokens used by a file's "File:" header and code fence
+const FILE_HEADER_TOKENS = 20;
+// Share of each part left free, since parts are sized with estimates before they are counted
+const PART_TOKEN_MARGIN = 0.1;
+
+/**
+ * Rough token estimate matching the main process fallback (4 characters per token)
+ */
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateFileTokens = (file: FileData): number =>
+  (file.tokenCount || estimateTokens(file.content)) +
+  estimateTokens(file.path) +
+  FILE_HEADER_TOKENS;
+
+/**
+ * Splits a file that does not fit in a single part into sections at line boundaries.
+ * Each section is labelled with its line span so the model can reassemble the file.
+ * A single line longer than the limit is kept whole rather than cut mid-line.
+ */
+const splitFileIntoSections = (
+  file: FileData,
+  firstSectionTokens: number,
+  sectionTokens: number
+): FileData[] => {
+  const lines = file.content.split('\n');
+  const tokensPerChar =
+    file.tokenCount > 0 && file.content.length > 0 ? file.tokenCount / file.content.length : 0.25;
+
+  const sections: FileData[] = [];
+  let sectionStart = 0;
+  let sectionLines: string[] = [];
+  let sectionTokenCount = 0;
+  let limit = firstSectionTokens;
+
+  const pushSection = () => {
+    sections.push({
+      ...file,
+      path: `${file.path} (lines ${sectionStart + 1}-${sectionStart + sectionLines.length})`,
+      content: sectionLines.join('\n'),
+      tokenCount: sectionTokenCount,
+    });
+  };
+
+  lines.forEach((line: string, index: number) => {
+    const lineTokens = Math.max(Math.ceil((line.length + 1) * tokensPerChar), 1);
+
+    if (sectionLines.length > 0 && sectionTokenCount + lineTokens > limit) {
+      pushSection();
+      sectionStart = index;
+      sectionLines = [];
+      sectionTokenCount = 0;
+      limit = sectionTokens;
+    }
+
+    sectionLines.push(line);
+    sectionTokenCount += lineTokens;
+  });
+
+  if (sectionLines.length > 0) {
+    pushSection();
+  }
+
+  return sections;
+};
+
+/**
+ * Builds the header that tells the model which part it is reading
+ */
+const formatPartHeader = (index: number, total: number): string => {
+  if (index < total) {
+    return (
+      `Part ${index} of ${total}\n` +
+      `This message is split into ${total} parts. Do not respond yet. ` +
+      `Reply only with "Received part ${index} of ${total}" and wait for the next part.\n\n`
+    );
+  }
+
+  return (
+    `Part ${index} of ${total}\n` +
+    `This is the final part. All ${total} parts have been sent; ` +
+    `respond using the content from every part.\n\n`
+  );
+};
+
+/**
+ * Splits the selected files into parts that each stay under the token limit.
+ *
+ * Files are kept whole where possible and split at line boundaries only when a
+ * file is larger than a part. The file tree goes in the first part. The user
+ * instructions go in the first part when placed at the top and in the last part
+ * when placed at the bottom. Templates are not applied to parts. Token counts are
+ * estimates based on each file's token count plus the size of headers, so parts are
+ * filled to a margin below the limit. Callers should count the finished parts with the
+ * model's tokenizer and split again with a lower limit if one is still over.
+ *
+ * Findings to redact are taken out of each part's files and instructions after the
+ * split, so redacting does not move files between parts.
+ *
+ * @param params Same parameters as `formatContentForCopying`, plus the per-part token limit
+ *   and the secrets to redact
+ * @returns The parts in order, or an empty array when nothing is selected
+ */
+export const splitContentIntoParts = ({
+  files,
+  selectedFiles,
+  sortOrder,
+  includeFileTree,
+  includeBinaryPaths,
+  includeLineNumbers = false,
+  compression,
+  fileModes,
+  lineRanges,
+  selectedFolder,
+  rootFolders = [],
+  userInstructions,
+  outputFormat = DEFAULT_OUTPUT_FORMAT,
+  instructionPlacement = DEFAULT_INSTRUCTION_PLACEMENT,
+  showTreeTokenCounts = false,
+  showOmittedFiles = false,
+  tokenLimit,
+  findingsToRedact = [],
+}: FormatContentParams & {
+  tokenLimit: number;
+  findingsToRedact?: SecretFinding[];
+}): ContentPart[] => {
+  const treeFiles = getSortedSelectedFiles(files, selectedFiles, sortOrder).filter(
+    (file: FileData) => !file.isBinary || includeBinaryPaths
+  );
+  const sortedSelected = treeFiles.map((file: FileData) => {
+    // Prepare content before splitting so sections keep the original line numbers
+    const options = {
+      includeLineNumbers,
+      compression,
+      mode: fileModes?.[file.path],
+      lineRanges: lineRanges?.[file.path],
+    };
+    if (file.isBinary || !needsFilePreparation(options)) {
+      return file;
+    }
+    return prepareSelectedFile(file, options);
+  });
+
+  if (sortedSelected.length === 0) {
+    return [];
+  }
+
+  const treeOptions = {
+    roots: rootFolders.length > 1 ? getWorkspaceRoots(rootFolders) : [],
+    showTokenCounts: showTreeTokenCounts,
+    omittedFiles: showOmittedFiles ? getOmittedFiles(files, selectedFiles) : [],
+  };
+  const instructionsTokens = estimateTokens(
+    assembleContent(null, { userInstructions, outputFormat })
+  );
+  const instructionsAtTop = instructionPlacement !== 'bottom';
+  const instructionsAtBottom = instructionPlacement !== 'top';
+
+  const partBudget = Math.max(
+    Math.floor(tokenLimit * (1 - PART_TOKEN_MARGIN)) - PART_HEADER_TOKENS,
+    FILE_HEADER_TOKENS * 2
+  );
+  const groups: FileData[][] = [[]];
+  let usedTokens =
+    (includeFileTree && selectedFolder
+      ? estimateTokens(generateAsciiFileTree(treeFiles, selectedFolder, treeOptions))
+      : 0) + (instructionsAtTop ? instructionsTokens : 0);
+
+  const startNewGroup = () => {
+    groups.push([]);
+    usedTokens = 0;
+  };
+
+  const addToGroup = (file: FileData, fileTokens: number) => {
+    groups[groups.length - 1].push(file);
+    usedTokens += fileTokens;
+  };
+
+  sortedSelected.forEach((file: FileData) => {
+    const fileTokens = estimateFileTokens(file);
+
+    if (usedTokens + fileTokens <= partBudget) {
+      addToGroup(file, fileTokens);
+      return;
+    }
+
+    if (fileTokens <= partBudget) {
+      startNewGroup();
+      addToGroup(file, fileTokens);
+      return;
+    }
+
+    // The file is larger than a whole part: fill the current part, then continue in new parts.
+    // Start fresh when only a sliver of the current part is left.
+    if (partBudget - usedTokens < partBudget / 4) {
+      startNewGroup();
+    }
+
+    const sectionOverhead = estimateTokens(file.path) + FILE_HEADER_TOKENS * 2;
+    const sections = splitFileIntoSections(
+      file,
+      partBudget - usedTokens - sectionOverhead,
+      partBudget - sectionOverhead
+    );
+
+    sections.forEach((section: FileData, index: number) => {
+      if (index > 0) {
+        startNewGroup();
+      }
+      addToGroup(section, estimateFileTokens(section));
+    });
+  });
+
+  // Bottom instructions go at the end of the last part, in a part of their own if they don't fit
+  if (
+    instructionsAtBottom &&
+    instructionsTokens > 0 &&
+    usedTokens + instructionsTokens > partBudget
+  ) {
+    startNewGroup();
+  }
+
+  const nonEmptyGroups = groups.filter(
+    (group: FileData[], index: number) => group.length > 0 || index === groups.length - 1
+  );
+  const total = nonEmptyGroups.length;
+
+  return nonEmptyGroups.map((group: FileData[], groupIndex: number): ContentPart => {
+    const index = groupIndex + 1;
+    const placement: InstructionPlacement | null =
+      total === 1
+        ? instructionPlacement
+        : index === 1 && instructionsAtTop
+          ? 'top'
+          : index === total && instructionsAtBottom
+            ? 'bottom'
+            : null;
+    const partInstructions = placement ? userInstructions : '';
+    const partContext = buildFormatContext({
+      files: group,
+      selectedFiles: group.map((file: FileData) => file.path),
+      sortOrder,
+      includeFileTree: includeFileTree && index === 1,
+      includeBinaryPaths,
+      selectedFolder,
+      rootFolders,
+      treeFiles,
+      showTreeTokenCounts,
+      showOmittedFiles,
+      treeOmittedFiles: treeOptions.omittedFiles,
+    });
+    const partBody = assembleContent(redactFormatContext(partContext, findingsToRedact), {
+      userInstructions: redactSecrets(partInstructions, findingsToRedact),
+      outputFormat,
+      instructionPlacement: placement || DEFAULT_INSTRUCTION_PLACEMENT,
+    });
+    const content = total > 1 ? formatPartHeader(index, total) + partBody : partBody;
+
+    return {
+      index,
+      total,
+      content,
+      estimatedTokens: estimateTokens(content),
+      fileCount: group.length,
+      files: partContext?.files || [],
+      userInstructions: partInstructions,
+    };
+  });
+};
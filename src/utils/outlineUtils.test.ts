@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getOutlineParser } from './outlineUtils';
+
+const outline = (content: string) => getOutlineParser('example.ts')?.createOutline(content).content;
+
+describe('createBraceOutline', () => {
+  it('replaces function bodies and keeps signatures', () => {
+    expect(outline('export function f(a: number): number {\n  return a;\n}\n')).toBe(
+      'export function f(a: number): number { /* ... */ }\n'
+    );
+  });
+
+  it('keeps an object return type and replaces the body after it', () => {
+    expect(outline('export function f(a: number): { a: number } {\n  return { a };\n}\n')).toBe(
+      'export function f(a: number): { a: number } { /* ... */ }\n'
+    );
+  });
+
+  it('keeps object types nested in a generic return type', () => {
+    expect(outline('class A {\n  m(): Promise<{ x: 1; y: 2 }> {\n    return go();\n  }\n}\n')).toBe(
+      'class A {\n  m(): Promise<{ x: 1; y: 2 }> { /* ... */ }\n}\n'
+    );
+  });
+
+  it('handles union and arrow return types', () => {
+    expect(outline('const g = (): null | { a: string } => {\n  return null;\n};\n')).toBe(
+      'const g = (): null | { a: string } => { /* ... */ };\n'
+    );
+  });
+
+  it('keeps the members of a class', () => {
+    expect(outline('export class B extends C {\n  x = 1;\n  run() {\n    go();\n  }\n}\n')).toBe(
+      'export class B extends C {\n  x = 1;\n  run() { /* ... */ }\n}\n'
+    );
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Utilities for outline mode, which copies only the API shape of a file:
+ * imports, exports, type declarations, class members and function signatures.
+ * Each supported language registers an `OutlineParser`.
+ */
+
+import { FileData } from '../types/FileTypes';
+import { OutlineParser, OutlineResult, OUTLINE_BODY_PLACEHOLDER } from '../types/OutlineTypes';
+import { classifyCharacters, getCommentSyntax } from './compressionUtils';
+import { getLanguageFromFilename } from './languageUtils';
+
+// Text before a `{` that marks it as a function or method body: a parameter list
+// or an arrow (headings with a return type are checked by findReturnType)
+const FUNCTION_SIGNATURE_PATTERN = /(\)|=>)\s*$/;
+// Declarations whose braces hold members that should stay visible, even when
+// their heading ends with a call (e.g. `class A extends mixin(B) {`)
+const DECLARATION_PATTERN =
+  /(^|\n)\s*(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(class|namespace|module)\b/;
+
+const CLOSING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+/**
+ * Finds the return type annotation at the end of a declaration heading, scanning back
+ * over nested (), [], {} and <> to the `:` that follows the parameter list.
+ * @returns The annotation from its `:`, and how many of its brackets are still open
+ * (e.g. 1 for `(): Promise<`), or null when the heading does not end in one
+ */
+const findReturnType = (prefix: string): { type: string; openBrackets: number } | null => {
+  const closers: string[] = [];
+  let openBrackets = 0;
+  for (let i = prefix.length - 1; i >= 0; i--) {
+    const char = prefix[i];
+    if (char === '>' && prefix[i - 1] === '=') {
+      i--; // The arrow of a function type
+    } else if (char === ')' || char === ']' || char === '}' || char === '>') {
+      closers.push(char);
+    } else if (CLOSING_BRACKETS[char]) {
+      if (closers[closers.length - 1] === CLOSING_BRACKETS[char]) {
+        closers.pop();
+      } else if (char === '<') {
+        // A `<` right after a name opens type arguments, anything else is a comparison
+        if (closers.length === 0 && /[\w$]/.test(prefix[i - 1] || '')) openBrackets++;
+      } else if (closers.length === 0) {
+        openBrackets++;
+      } else {
+        // Drop the `>` of comparisons up to the matching closer
+        closers.length = Math.max(closers.lastIndexOf(CLOSING_BRACKETS[char]), 0);
+      }
+    } else if (closers.length === 0 && (char === ';' || char === '=')) {
+      return null;
+    } else if (closers.length === 0 && char === ':') {
+      return /\)\s*$/.test(prefix.slice(0, i)) ? { type: prefix.slice(i), openBrackets } : null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Outline parser for brace-delimited languages in the JavaScript family.
+ * It scans braces outside of strings and comments, so it needs no full parser:
+ * any `{` preceded by a function signature has its body replaced.
+ */
+const createBraceOutline =
+  (language: string) =>
+  (content: string): OutlineResult => {
+    const syntax = getCommentSyntax(language);
+    const kinds = syntax ? classifyCharacters(content, syntax) : [];
+    const isCode = (index: number) => !syntax || kinds[index] === 'code';
+
+    let output = '';
+    const lineNumbers = [1];
+    let originalLine = 1;
+    let statementStart = 0;
+    let returnTypeDepth = 0; // Depth of `{` inside a return type, e.g. `(): { a: number }`
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (char === '\n') {
+        originalLine++;
+        output += char;
+        lineNumbers.push(originalLine);
+        i++;
+        continue;
+      }
+
+      if (!isCode(i) || (char !== '{' && char !== '}' && char !== ';')) {
+        output += char;
+        i++;
+        continue;
+      }
+
+      if (returnTypeDepth > 0) {
+        if (char === '{') returnTypeDepth++;
+        if (char === '}') returnTypeDepth--;
+        output += char;
+        i++;
+        continue;
+      }
+
+      if (char === '{') {
+        const prefix = content.slice(statementStart, i);
+        const returnType = findReturnType(prefix);
+        // Object types in a return type belong to the heading, not to a body
+        if (returnType && (returnType.openBrackets > 0 || /[:|&]\s*$/.test(returnType.type))) {
+          returnTypeDepth = 1;
+          output += char;
+          i++;
+          continue;
+        }
+
+        const isSignature =
+          FUNCTION_SIGNATURE_PATTERN.test(prefix) || (returnType && returnType.openBrackets === 0);
+        if (isSignature && !DECLARATION_PATTERN.test(prefix)) {
+          // Skip to the matching closing brace
+          let depth = 0;
+          let j = i;
+          for (; j < content.length; j++) {
+            if (content[j] === '\n') originalLine++;
+            if (!isCode(j)) continue;
+            if (content[j] === '{') depth++;
+            if (content[j] === '}' && --depth === 0) break;
+          }
+          output += OUTLINE_BODY_PLACEHOLDER;
+          i = j + 1;
+          statementStart = i;
+          continue;
+        }
+      }
+
+      output += char;
+      statementStart = i + 1;
+      i++;
+    }
+
+    return { content: output, lineNumbers };
+  };
+
+const JS_FAMILY_LANGUAGES = ['typescript', 'javascript', 'tsx', 'jsx'];
+
+/**
+ * Registered outline parsers. Add a parser here to support another language.
+ */
+export const OUTLINE_PARSERS: OutlineParser[] = JS_FAMILY_LANGUAGES.map((language) => ({
+  id: `brace-${language}`,
+  languages: [language],
+  createOutline: createBraceOutline(language),
+}));
+
+/**
+ * Finds the outline parser for a file, if its language is supported
+ */
+export const getOutlineParser = (filename: string): OutlineParser | undefined => {
+  const language = getLanguageFromFilename(filename);
+  return OUTLINE_PARSERS.find((parser) => parser.languages.includes(language));
+};
+
+export const supportsOutline = (filename: string): boolean => !!getOutlineParser(filename);
+
+/**
+ * Creates the outline of a file, or returns its full content with identity line
+ * numbers when no parser supports its language
+ */
+export const createFileOutline = (file: FileData): OutlineResult => {
+  const parser = getOutlineParser(file.name);
+  if (parser) {
+    return parser.createOutline(file.content);
+  }
+  return {
+    content: file.content,
+    lineNumbers: file.content.split('\n').map((_line: string, index: number) => index + 1),
+  };
+};
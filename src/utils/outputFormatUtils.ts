@@ -0,0 +1,218 @@
+/**
+ * Registry of output formats for copied content.
+ * Each format renders the same sections (instructions, file tree, files and
+ * binary files) from the same sorted file set; only the layout differs.
+ */
+
+import { FileData } from '../types/FileTypes';
+import { WorkspaceRoot } from '../types/WorkspaceTypes';
+import {
+  ContentSection,
+  OutputFormat,
+  OutputFormatContext,
+  OutputFormatId,
+  DEFAULT_OUTPUT_FORMAT,
+} from '../types/OutputFormatTypes';
+import { getLanguageFromFilename } from './languageUtils';
+import { normalizePath } from './pathUtils';
+import { findWorkspaceRoot } from './workspaceUtils';
+
+/**
+ * Describes a binary file the same way in every format (e.g. "Png")
+ */
+const getBinaryFileType = (file: FileData): string => {
+  const fileType = getLanguageFromFilename(file.name);
+  return fileType.charAt(0).toUpperCase() + fileType.slice(1);
+};
+
+/**
+ * Path of a file for its header, prefixed with the label of its root folder when the
+ * workspace has several root folders (e.g. "[api] /work/api/src/index.ts")
+ */
+export const formatFilePath = (file: FileData, roots: WorkspaceRoot[]): string => {
+  const root = findWorkspaceRoot(file.path, roots);
+  return root ? `[${root.label}] ${normalizePath(file.path)}` : normalizePath(file.path);
+};
+
+/**
+ * Root folder printed above the file tree, or each labeled root folder on its own line
+ */
+export const formatTreeRoot = ({ rootPath, roots }: OutputFormatContext): string =>
+  roots.length > 0
+    ? roots.map((root: WorkspaceRoot) => `[${root.label}] ${root.path}`).join('\n')
+    : `${rootPath}`;
+
+/**
+ * Label of a file's root folder for the JSON format, only set with several root folders
+ */
+const getRootLabel = (file: FileData, roots: WorkspaceRoot[]): { root?: string } => {
+  const root = findWorkspaceRoot(file.path, roots);
+  return root ? { root: root.label } : {};
+};
+
+/**
+ * Joins sections for the text-based formats, separated by a blank line
+ */
+const joinTextSections = (sections: ContentSection[]): string =>
+  sections.length > 0
+    ? `${sections.map((section: ContentSection) => section.content).join('\n\n')}\n`
+    : '';
+
+/**
+ * The original PasteMax layout using <file_map>, <file_contents> and <user_instructions> tags
+ */
+const xmlFormat: OutputFormat = {
+  id: 'xml',
+  label: 'XML',
+  fileExtension: 'xml',
+  renderTree: (context: OutputFormatContext) =>
+    `<file_map>\n${formatTreeRoot(context)}\n${context.fileTree}\n</file_map>`,
+  renderFiles: ({ files, roots }: OutputFormatContext) =>
+    files
+      .map((file: FileData) => {
+        const language = getLanguageFromFilename(file.name);
+        return `File: ${formatFilePath(file, roots)}\n\`\`\`${language}\n${file.content}\n\`\`\``;
+      })
+      .join('\n\n'),
+  renderBinaryFiles: ({ binaryFiles, roots }: OutputFormatContext) => {
+    const entries = binaryFiles.map(
+      (file: FileData) =>
+        `File: ${formatFilePath(file, roots)}\nThis is a file of the type: ${getBinaryFileType(file)}`
+    );
+    return `<binary_files>\n${entries.join('\n\n')}\n</binary_files>`;
+  },
+  renderInstructions: (userInstructions: string) =>
+    `<user_instructions>\n${userInstructions}\n</user_instructions>`,
+  // File contents and binary files share one <file_contents> wrapper
+  assemble: (sections: ContentSection[]) => {
+    const blocks: ContentSection[] = [];
+    sections.forEach((section: ContentSection) => {
+      const isContents = section.id === 'files' || section.id === 'binaries';
+      const previous = blocks[blocks.length - 1];
+      if (isContents && previous?.id === 'files') {
+        previous.content += `\n\n${section.content}`;
+      } else {
+        blocks.push({ id: isContents ? 'files' : section.id, content: section.content });
+      }
+    });
+    return joinTextSections(
+      blocks.map((block: ContentSection) =>
+        block.id === 'files'
+          ? { ...block, content: `<file_contents>\n${block.content}\n</file_contents>` }
+          : block
+      )
+    );
+  },
+};
+
+/**
+ * Markdown headings with fenced code blocks, for chat tools that render Markdown
+ */
+const markdownFormat: OutputFormat = {
+  id: 'markdown',
+  label: 'Markdown',
+  fileExtension: 'md',
+  renderTree: (context: OutputFormatContext) =>
+    `## File Tree\n\n\`\`\`\n${formatTreeRoot(context)}\n${context.fileTree}\n\`\`\``,
+  renderFiles: ({ files, roots }: OutputFormatContext) => {
+    if (files.length === 0) return '';
+    const entries = files.map((file: FileData) => {
+      const language = getLanguageFromFilename(file.name);
+      return `### ${formatFilePath(file, roots)}\n\n\`\`\`${language}\n${file.content}\n\`\`\``;
+    });
+    return `## Files\n\n${entries.join('\n\n')}`;
+  },
+  renderBinaryFiles: ({ binaryFiles, roots }: OutputFormatContext) => {
+    const entries = binaryFiles.map(
+      (file: FileData) => `- \`${formatFilePath(file, roots)}\` (${getBinaryFileType(file)})`
+    );
+    return `## Binary Files\n\n${entries.join('\n')}`;
+  },
+  renderInstructions: (userInstructions: string) => `## Instructions\n\n${userInstructions}`,
+  assemble: joinTextSections,
+};
+
+/**
+ * Plain text with simple separators and no markup
+ */
+const plainFormat: OutputFormat = {
+  id: 'plain',
+  label: 'Plain Text',
+  fileExtension: 'txt',
+  renderTree: (context: OutputFormatContext) =>
+    `File tree:\n${formatTreeRoot(context)}\n${context.fileTree}`,
+  renderFiles: ({ files, roots }: OutputFormatContext) =>
+    files
+      .map((file: FileData) => `===== ${formatFilePath(file, roots)} =====\n${file.content}`)
+      .join('\n\n'),
+  renderBinaryFiles: ({ binaryFiles, roots }: OutputFormatContext) => {
+    const entries = binaryFiles.map(
+      (file: FileData) => `${formatFilePath(file, roots)} (${getBinaryFileType(file)})`
+    );
+    return `Binary files:\n${entries.join('\n')}`;
+  },
+  renderInstructions: (userInstructions: string) => `Instructions:\n${userInstructions}`,
+  assemble: joinTextSections,
+};
+
+/**
+ * Machine-readable JSON for scripts.
+ * Each section renders a JSON object and `assemble` merges them into one document.
+ */
+const jsonFormat: OutputFormat = {
+  id: 'json',
+  label: 'JSON',
+  fileExtension: 'json',
+  renderTree: ({ rootPath, roots, fileTree }: OutputFormatContext) =>
+    JSON.stringify({ root: rootPath, ...(roots.length > 0 && { roots }), fileTree }),
+  renderFiles: ({ rootPath, roots, files }: OutputFormatContext) =>
+    JSON.stringify({
+      root: rootPath,
+      files: files.map((file: FileData) => ({
+        ...getRootLabel(file, roots),
+        path: normalizePath(file.path),
+        language: getLanguageFromFilename(file.name),
+        tokenCount: file.tokenCount,
+        content: file.content,
+      })),
+    }),
+  renderBinaryFiles: ({ binaryFiles, roots }: OutputFormatContext) =>
+    JSON.stringify({
+      binaryFiles: binaryFiles.map((file: FileData) => ({
+        ...getRootLabel(file, roots),
+        path: normalizePath(file.path),
+        fileType: getBinaryFileType(file),
+      })),
+    }),
+  renderInstructions: (userInstructions: string) =>
+    JSON.stringify({ instructions: userInstructions }),
+  assemble: (sections: ContentSection[]) => {
+    if (sections.length === 0) return '';
+    const document = sections.reduce(
+      (merged: Record<string, unknown>, section: ContentSection) => ({
+        ...merged,
+        ...JSON.parse(section.content),
+      }),
+      {}
+    );
+    return JSON.stringify(document, null, 2);
+  },
+};
+
+/**
+ * All available output formats, in the order they appear in the picker
+ */
+export const OUTPUT_FORMATS: OutputFormat[] = [xmlFormat, markdownFormat, jsonFormat, plainFormat];
+
+/**
+ * Checks whether a value (e.g. read from localStorage) is a known format id
+ */
+export const isOutputFormatId = (value: unknown): value is OutputFormatId =>
+  OUTPUT_FORMATS.some((format) => format.id === value);
+
+/**
+ * Looks up a format by id, falling back to the default XML format
+ */
+export const getOutputFormat = (id: OutputFormatId | string | null | undefined): OutputFormat =>
+  OUTPUT_FORMATS.find((format) => format.id === id) ||
+  OUTPUT_FORMATS.find((format) => format.id === DEFAULT_OUTPUT_FORMAT)!;
@@ -4,6 +4,8 @@
  * operating systems (Windows, Mac, Linux) so you don't have to worry about it.
  */
 
+import { FileTreeOptions } from '../types/FileTypes';
+
 // Cache OS detection to avoid checking multiple times
 let cachedOS: 'windows' | 'mac' | 'linux' | 'unknown' | null = null;
 
@@ -111,6 +113,15 @@ export function arePathsEqual(
   return normalized1 === normalized2;
 }
 
+/**
+ * Key of a path for sets and maps: two paths have the same key when arePathsEqual
+ * considers them equal.
+ */
+export function getPathKey(filePath: string | null | undefined): string {
+  const normalized = normalizePath(filePath);
+  return isWSLPath(normalized) || isWindows() ? normalized.toLowerCase() : normalized;
+}
+
 /**
  * Checks if a path is absolute (starts from the root) rather than relative.
  * Handles both Windows paths (C:/, D:/) and Unix-style paths (/usr/local).
@@ -191,33 +202,77 @@ export function extname(path: string | null | undefined): string {
   return dotIndex === -1 || dotIndex === 0 ? '' : basenameValue.slice(dotIndex);
 }
 
+/**
+ * Replaces (or adds) the file extension. The extension is given without the dot.
+ * For example: replaceExtension('/out/context.md', 'xml') -> '/out/context.xml'
+ */
+export function replaceExtension(path: string, extension: string): string {
+  const currentExtension = extname(path);
+  const withoutExtension = currentExtension ? path.slice(0, -currentExtension.length) : path;
+  return `${withoutExtension}.${extension}`;
+}
+
+// Levels of fully unselected directories printed before they collapse into "N more files"
+const MAX_OMITTED_DEPTH = 1;
+// Omitted entries printed per directory before the rest are summarized
+const MAX_OMITTED_ENTRIES = 10;
+
 /**
  * Generate an ASCII representation of the file tree for the selected files
  * @param files Array of selected FileData objects
  * @param rootPath The root directory path
+ * @param options Token counts and omitted (unselected) files to include
  * @returns ASCII string representing the file tree
  */
-export function generateAsciiFileTree(files: { path: string }[], rootPath: string): string {
+export function generateAsciiFileTree(
+  files: { path: string; tokenCount?: number }[],
+  rootPath: string,
+  { showTokenCounts = false, omittedFiles = [], roots = [] }: FileTreeOptions = {}
+): string {
   if (!files.length) return 'No files selected.';
 
   // Normalize the root path for consistent path handling
   const normalizedRoot = rootPath.replace(/\\/g, '/').replace(/\/$/, '');
 
+  // Path of a file in the tree: relative to the root path, or with several root folders,
+  // relative to its root folder under the root's label
+  const getTreePath = (filePath: string): string => {
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    if (roots.length > 1) {
+      const fileRoot = roots.find((root) => isSubPath(root.path, normalizedPath));
+      if (!fileRoot) return '';
+      return `${fileRoot.label}/${normalizePath(normalizedPath).substring(fileRoot.path.length + 1)}`;
+    }
+    if (!normalizedPath.startsWith(normalizedRoot)) return '';
+    return normalizedPath.substring(normalizedRoot.length).replace(/^\//, '');
+  };
+
   // Create a tree structure from the file paths
   interface TreeNode {
     name: string;
     isFile: boolean;
+    isOmitted: boolean; // File is not selected, or directory contains no selected files
+    tokenCount: number; // File tokens, or the total of the selected files in a directory
+    fileCount: number; // Number of files in a directory, used when it is collapsed
     children: Record<string, TreeNode>;
   }
 
-  const root: TreeNode = { name: basename(normalizedRoot), isFile: false, children: {} };
+  const root: TreeNode = {
+    name: basename(normalizedRoot),
+    isFile: false,
+    isOmitted: false,
+    tokenCount: 0,
+    fileCount: 0,
+    children: {},
+  };
 
   // Insert a file path into the tree
-  const insertPath = (filePath: string, node: TreeNode) => {
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    if (!normalizedPath.startsWith(normalizedRoot)) return;
-
-    const relativePath = normalizedPath.substring(normalizedRoot.length).replace(/^\//, '');
+  const insertPath = (
+    file: { path: string; tokenCount?: number },
+    node: TreeNode,
+    isOmitted: boolean
+  ) => {
+    const relativePath = getTreePath(file.path);
     if (!relativePath) return;
 
     const pathParts = relativePath.split('/');
@@ -231,57 +286,90 @@ export function generateAsciiFileTree(files: { path: string }[], rootPath: strin
         currentNode.children[part] = {
           name: part,
           isFile,
+          isOmitted: true,
+          tokenCount: isFile ? file.tokenCount || 0 : 0,
+          fileCount: 0,
           children: {},
         };
+      } else if (isFile) {
+        return; // Already inserted, e.g. a selected file that is also in the omitted list
       }
 
       currentNode = currentNode.children[part];
+      currentNode.isOmitted = currentNode.isOmitted && isOmitted;
+      if (!isFile) {
+        currentNode.fileCount++;
+        if (!isOmitted) currentNode.tokenCount += file.tokenCount || 0;
+      }
+    }
+  };
+
+  // Insert all files into the tree, selected files first
+  files.forEach((file) => insertPath(file, root, false));
+  omittedFiles.forEach((file) => insertPath(file, root, true));
+
+  const formatTokens = (count: number) => `${count.toLocaleString()} tokens`;
+
+  // Name of a node with its token count and omitted marker
+  const formatLabel = (node: TreeNode): string => {
+    const details: string[] = [];
+    if (node.isOmitted) details.push('omitted');
+    if (showTokenCounts && (node.isFile || !node.isOmitted) && node.tokenCount > 0) {
+      details.push(formatTokens(node.tokenCount));
     }
+    return details.length > 0 ? `${node.name} (${details.join(', ')})` : node.name;
   };
 
-  // Insert all files into the tree
-  files.forEach((file) => insertPath(file.path, root));
-
-  // Generate ASCII representation
-  const generateAscii = (node: TreeNode, prefix = '', isLast = true, isRoot = true): string => {
-    if (!isRoot) {
-      let result = prefix;
-      result += isLast ? '└── ' : '├── ';
-      result += node.name;
-      result += '\n';
-      prefix += isLast ? '    ' : '│   ';
-
-      const children = Object.values(node.children).sort((a, b) => {
-        // Sort by type (directories first) then by name
-        if (a.isFile !== b.isFile) {
-          return a.isFile ? 1 : -1;
-        }
-        return a.name.localeCompare(b.name);
-      });
+  const getSortedChildren = (node: TreeNode) =>
+    Object.values(node.children).sort((a, b) => {
+      // Sort by type (directories first) then by name
+      if (a.isFile !== b.isFile) {
+        return a.isFile ? 1 : -1;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+  // Generate ASCII lines for the children of a directory.
+  // Omitted entries past the limit are summarized, and fully omitted directories
+  // nested deeper than MAX_OMITTED_DEPTH are collapsed into a file count.
+  const generateChildren = (node: TreeNode, prefix: string, omittedDepth: number): string => {
+    const children = getSortedChildren(node);
+    const visible: TreeNode[] = [];
+    let omittedCount = 0;
+    let hiddenFileCount = 0;
+    children.forEach((child) => {
+      if (!child.isOmitted || omittedCount++ < MAX_OMITTED_ENTRIES) {
+        visible.push(child);
+      } else {
+        hiddenFileCount += child.isFile ? 1 : child.fileCount;
+      }
+    });
+
+    const lines = visible.map((child, index) => {
+      const isLast = index === visible.length - 1 && hiddenFileCount === 0;
+      const line = `${prefix}${isLast ? '└── ' : '├── '}`;
+      if (child.isFile) {
+        return `${line}${formatLabel(child)}\n`;
+      }
 
+      const childDepth = child.isOmitted ? omittedDepth + 1 : 0;
+      if (childDepth > MAX_OMITTED_DEPTH) {
+        return `${line}${child.name} (${child.fileCount} more files)\n`;
+      }
       return (
-        result +
-        children
-          .map((child, index) => generateAscii(child, prefix, index === children.length - 1, false))
-          .join('')
+        `${line}${formatLabel(child)}\n` +
+        generateChildren(child, prefix + (isLast ? '    ' : '│   '), childDepth)
       );
-    } else {
-      // Root node special handling
-      const children = Object.values(node.children).sort((a, b) => {
-        // Sort by type (directories first) then by name
-        if (a.isFile !== b.isFile) {
-          return a.isFile ? 1 : -1;
-        }
-        return a.name.localeCompare(b.name);
-      });
-
-      return children
-        .map((child, index) => generateAscii(child, prefix, index === children.length - 1, false))
-        .join('');
+    });
+
+    if (hiddenFileCount > 0) {
+      lines.push(`${prefix}└── ... ${hiddenFileCount} more files\n`);
     }
+
+    return lines.join('');
   };
 
-  return generateAscii(root);
+  return generateChildren(root, '', 0);
 }
 
 /**
@@ -0,0 +1,275 @@
+/**
+ * Utility functions for finding and redacting secrets before content is copied.
+ * The scanner combines known secret formats, high-entropy strings and
+ * sensitive filenames such as `.env` files and SSH keys.
+ */
+
+import { FileData } from '../types/FileTypes';
+import { OutputFormatContext } from '../types/OutputFormatTypes';
+import { SecretFinding, SecretRule } from '../types/SecretTypes';
+import { basename } from './pathUtils';
+
+/**
+ * Known secret formats
+ */
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    label: 'Private key',
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+  },
+  { id: 'aws-access-key', label: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'github-token',
+    label: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { id: 'slack-token', label: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  {
+    id: 'stripe-key',
+    label: 'Stripe key',
+    pattern: /\b(?:sk|rk)_(?:live|test)_[0-9a-zA-Z]{16,}\b/g,
+  },
+  { id: 'google-api-key', label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    id: 'llm-api-key',
+    label: 'LLM API key',
+    pattern: /\bsk-(?:ant-|proj-|or-)?[A-Za-z0-9_-]{20,}\b/g,
+  },
+  {
+    id: 'jwt',
+    label: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g,
+  },
+  {
+    id: 'url-credentials',
+    label: 'Password in URL',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]+)@/gi,
+  },
+  {
+    id: 'secret-assignment',
+    label: 'Hardcoded secret',
+    pattern:
+      /\b(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?key|auth[_-]?token|client[_-]?secret)\b["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi,
+  },
+];
+
+// Filenames that usually hold secrets. Example and template env files are allowed.
+const SENSITIVE_FILENAME_PATTERNS: RegExp[] = [
+  /^\.env(?!\.(?:example|sample|template|defaults)$)(\..+)?$/i,
+  /^id_(?:rsa|dsa|ecdsa|ed25519)$/,
+  /\.(?:pem|key|p12|pfx|keystore|jks)$/i,
+  /^\.(?:npmrc|pypirc|netrc|pgpass)$/,
+  /^credentials(?:\.json)?$/i,
+];
+
+// Candidate tokens for the entropy check: long runs of base64/url-safe characters
+const ENTROPY_CANDIDATE_PATTERN = /[A-Za-z0-9+/_=-]{32,}/g;
+// Bits per character above which a candidate is treated as random. Hex strings
+// (hashes, commit ids) top out at 4 bits, so they stay below this threshold.
+const ENTROPY_THRESHOLD = 4.3;
+
+// Lines of `KEY=value` in env files
+const ENV_ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_.]*\s*=\s*(.+?)\s*$/gm;
+
+/**
+ * Calculates the Shannon entropy of a string in bits per character
+ */
+const calculateEntropy = (value: string): number => {
+  const frequencies: Record<string, number> = {};
+  for (const char of value) {
+    frequencies[char] = (frequencies[char] || 0) + 1;
+  }
+  return Object.values(frequencies).reduce((entropy: number, count: number) => {
+    const probability = count / value.length;
+    return entropy - probability * Math.log2(probability);
+  }, 0);
+};
+
+const createFinding = (
+  ruleId: string,
+  label: string,
+  value: string,
+  filePath: string | null
+): SecretFinding => ({
+  id: `${ruleId}:${filePath || ''}:${value}`,
+  ruleId,
+  label,
+  value,
+  filePath,
+});
+
+/**
+ * Checks whether a filename is commonly used for secrets (e.g. `.env`, `id_rsa`)
+ */
+export const isSensitiveFilename = (filePath: string): boolean => {
+  const name = basename(filePath);
+  return SENSITIVE_FILENAME_PATTERNS.some((pattern) => pattern.test(name));
+};
+
+/**
+ * Scans text for known secret formats and high-entropy strings
+ * @param content The text to scan
+ * @param filePath The file the text came from, if any
+ */
+export const scanContentForSecrets = (
+  content: string,
+  filePath: string | null = null
+): SecretFinding[] => {
+  const findings: SecretFinding[] = [];
+  const seenValues = new Set<string>();
+
+  const addFinding = (ruleId: string, label: string, value: string) => {
+    if (!value || seenValues.has(value)) return;
+    // Skip values already covered by a longer finding (e.g. a key inside a private key block)
+    if (findings.some((finding) => finding.value.includes(value))) return;
+    seenValues.add(value);
+    findings.push(createFinding(ruleId, label, value, filePath));
+  };
+
+  SECRET_RULES.forEach((rule) => {
+    for (const match of content.matchAll(rule.pattern)) {
+      addFinding(rule.id, rule.label, match[1] || match[0]);
+    }
+  });
+
+  for (const match of content.matchAll(ENTROPY_CANDIDATE_PATTERN)) {
+    const candidate = match[0];
+    const hasLetters = /[A-Za-z]/.test(candidate);
+    const hasDigits = /[0-9]/.test(candidate);
+    if (hasLetters && hasDigits && calculateEntropy(candidate) >= ENTROPY_THRESHOLD) {
+      addFinding('high-entropy', 'High-entropy string', candidate);
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Scans a single file: its name, its content and, for env files, every assigned value
+ */
+export const scanFileForSecrets = (file: FileData): SecretFinding[] => {
+  if (file.isBinary || file.isSkipped) {
+    return [];
+  }
+
+  const findings: SecretFinding[] = [];
+  const sensitiveName = isSensitiveFilename(file.path);
+
+  if (sensitiveName) {
+    findings.push(createFinding('sensitive-filename', 'Sensitive file', '', file.path));
+
+    if (/^\.env/i.test(basename(file.path))) {
+      for (const match of file.content.matchAll(ENV_ASSIGNMENT_PATTERN)) {
+        const value = match[1].replace(/^(["'])(.*)\1$/, '$2');
+        // Numbers and booleans (ports, feature flags) are configuration, not secrets
+        if (/^(?:\d+|true|false|yes|no|on|off)?$/i.test(value)) continue;
+        if (!findings.some((finding) => finding.value === value)) {
+          findings.push(createFinding('env-value', 'Environment variable value', value, file.path));
+        }
+      }
+    }
+  }
+
+  scanContentForSecrets(file.content, file.path).forEach((finding) => {
+    if (!findings.some((existing) => existing.value === finding.value)) {
+      findings.push(finding);
+    }
+  });
+
+  return findings;
+};
+
+/**
+ * Collects the findings for a copy: findings from each selected file plus anything
+ * else found in the copied file contents and the user instructions.
+ * Findings are only kept when their value actually appears in what is copied.
+ * The contents are scanned before the output format is applied, since formats such
+ * as JSON escape them.
+ * @param preparedFiles Files as they are copied, after line ranges, outlines and compression
+ * @param userInstructions Instructions copied with the files
+ * @param files Selected files with their full content
+ */
+export const scanCopyContent = (
+  preparedFiles: FileData[],
+  userInstructions: string,
+  files: FileData[]
+): SecretFinding[] => {
+  const content = [userInstructions, ...preparedFiles.map((file) => file.content)].join('\n');
+  const findings: SecretFinding[] = [];
+  const seenValues = new Set<string>();
+
+  files.forEach((file) => {
+    scanFileForSecrets(file).forEach((finding) => {
+      if (!finding.value) {
+        findings.push(finding);
+      } else if (!seenValues.has(finding.value) && content.includes(finding.value)) {
+        seenValues.add(finding.value);
+        findings.push(finding);
+      }
+    });
+  });
+
+  scanContentForSecrets(content).forEach((finding) => {
+    if (!seenValues.has(finding.value)) {
+      seenValues.add(finding.value);
+      findings.push(finding);
+    }
+  });
+
+  return findings;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces the given findings' values with a placeholder such as `[REDACTED:aws-access-key]`.
+ * Env values are only replaced where they are assigned, since short values like
+ * hostnames may also appear elsewhere; every other secret is replaced everywhere.
+ * Works on unformatted text, such as file contents and instructions.
+ */
+export const redactSecrets = (content: string, findings: SecretFinding[]): string => {
+  // Redact longer values first so a value contained in another is not split apart
+  return [...findings]
+    .filter((finding) => finding.value)
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce((redacted: string, finding: SecretFinding) => {
+      const placeholder = `[REDACTED:${finding.ruleId}]`;
+      if (finding.ruleId === 'env-value') {
+        // Allow for the "12 | " prefix added by line numbering
+        const assignment = new RegExp(
+          `(^\\s*(?:\\d+ \\| )?(?:export\\s+)?[A-Za-z_][A-Za-z0-9_.]*\\s*=\\s*["']?)${escapeRegExp(finding.value)}`,
+          'gm'
+        );
+        return redacted.replace(assignment, `$1${placeholder}`);
+      }
+      return redacted.split(finding.value).join(placeholder);
+    }, content);
+};
+
+/**
+ * Redacts the findings from prepared files, before the output format is applied,
+ * so values are matched as they appear in the files rather than as a format escapes them
+ */
+export const redactFormatContext = (
+  context: OutputFormatContext | null,
+  findings: SecretFinding[]
+): OutputFormatContext | null =>
+  context && findings.length > 0
+    ? {
+        ...context,
+        files: context.files.map((file: FileData) => ({
+          ...file,
+          content: redactSecrets(file.content, findings),
+        })),
+      }
+    : context;
+
+/**
+ * Masks a secret for display, keeping only a few characters at each end
+ */
+export const maskSecret = (value: string): string => {
+  if (value.length <= 8) return '*'.repeat(value.length);
+  return `${value.slice(0, 4)}${'*'.repeat(Math.min(value.length - 8, 16))}${value.slice(-4)}`;
+};
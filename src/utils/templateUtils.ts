@@ -0,0 +1,218 @@
+/**
+ * A small Mustache-like template language for the copied content.
+ *
+ * Supported tags:
+ * - {{name}} inserts a value
+ * - {{#name}}...{{/name}} repeats the block for each item of a list,
+ *   or renders it once when a value is not empty
+ *
+ * Section tags on a line of their own are removed together with their line break.
+ */
+
+import { TemplateNode, TemplateScope, TemplateValue } from '../types/TemplateTypes';
+
+/**
+ * A syntax or placeholder error, with the line it occurred on
+ */
+export class TemplateError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TemplateError';
+    this.line = line;
+  }
+}
+
+/**
+ * Placeholders available everywhere in a template
+ */
+export const TEMPLATE_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'tree', description: 'Root folder and ASCII file tree (empty when the tree is off)' },
+  { name: 'root', description: 'Selected folder path' },
+  { name: 'files', description: 'List of selected text files, use as {{#files}}...{{/files}}' },
+  { name: 'binaryFiles', description: 'Binary file paths, one per line (empty when off)' },
+  { name: 'instructions', description: 'User instructions' },
+  { name: 'date', description: 'Current date (YYYY-MM-DD)' },
+  { name: 'fileCount', description: 'Number of selected text files' },
+];
+
+/**
+ * Placeholders available inside a {{#files}} section
+ */
+export const TEMPLATE_FILE_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'path', description: 'File path' },
+  { name: 'name', description: 'File name' },
+  { name: 'language', description: 'Language used for code fences' },
+  { name: 'content', description: 'File content' },
+  { name: 'tokens', description: 'Token count of the file' },
+];
+
+const LIST_NAMES = ['files'];
+const TOP_LEVEL_NAMES = TEMPLATE_PLACEHOLDERS.map((placeholder) => placeholder.name);
+const FILE_NAMES = TEMPLATE_FILE_PLACEHOLDERS.map((placeholder) => placeholder.name);
+
+const TAG_PATTERN = /^([#/]?)\s*([A-Za-z][A-Za-z0-9]*)$/;
+
+const getLineNumber = (source: string, index: number): number =>
+  source.slice(0, index).split('\n').length;
+
+/**
+ * Checks that a placeholder is known where it is used
+ */
+const checkName = (name: string, kind: string, sections: string[], line: number) => {
+  const inFiles = sections.includes('files');
+  if (TOP_LEVEL_NAMES.includes(name) || (inFiles && FILE_NAMES.includes(name))) {
+    if (kind === '' && LIST_NAMES.includes(name)) {
+      throw new TemplateError(`{{${name}}} is a list, use {{#${name}}}...{{/${name}}}`, line);
+    }
+    return;
+  }
+  if (FILE_NAMES.includes(name)) {
+    throw new TemplateError(`{{${name}}} can only be used inside {{#files}}...{{/files}}`, line);
+  }
+  throw new TemplateError(`Unknown placeholder {{${name}}}`, line);
+};
+
+/**
+ * Parses a template into nodes, validating every placeholder
+ * @throws {TemplateError} When the template is malformed or uses an unknown placeholder
+ */
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; line: number; children: TemplateNode[] }[] = [];
+  let current = root;
+  let position = 0;
+
+  const pushText = (value: string) => {
+    if (value) current.push({ type: 'text', value });
+  };
+
+  while (position < source.length) {
+    const open = source.indexOf('{{', position);
+    if (open === -1) {
+      pushText(source.slice(position));
+      break;
+    }
+
+    const line = getLineNumber(source, open);
+    const close = source.indexOf('}}', open + 2);
+    if (close === -1) {
+      throw new TemplateError('Tag "{{" is never closed with "}}"', line);
+    }
+
+    const inner = source.slice(open + 2, close).trim();
+    const match = inner.match(TAG_PATTERN);
+    if (!match) {
+      throw new TemplateError(`Invalid tag {{${inner}}}`, line);
+    }
+    const [, kind, name] = match;
+
+    let text = source.slice(position, open);
+    let next = close + 2;
+
+    // Drop section tags that stand alone on their line, including the line break
+    if (kind) {
+      const lineStart = text.lastIndexOf('\n') + 1;
+      const lineEnd = source.indexOf('\n', next);
+      const before = text.slice(lineStart);
+      const after = source.slice(next, lineEnd === -1 ? source.length : lineEnd);
+      const atLineStart = lineStart > 0 || position === 0 || source[position - 1] === '\n';
+      if (atLineStart && !before.trim() && !after.trim()) {
+        text = text.slice(0, lineStart);
+        next = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+
+    pushText(text);
+    position = next;
+
+    if (kind === '#') {
+      checkName(
+        name,
+        kind,
+        stack.map((section) => section.name),
+        line
+      );
+      const section = { name, line, children: [] as TemplateNode[] };
+      current.push({ type: 'section', ...section });
+      stack.push(section);
+      current = section.children;
+    } else if (kind === '/') {
+      const section = stack.pop();
+      if (!section) {
+        throw new TemplateError(`{{/${name}}} has no matching {{#${name}}}`, line);
+      }
+      if (section.name !== name) {
+        throw new TemplateError(
+          `{{/${name}}} does not match {{#${section.name}}} opened on line ${section.line}`,
+          line
+        );
+      }
+      current = stack.length > 0 ? stack[stack.length - 1].children : root;
+    } else {
+      checkName(
+        name,
+        kind,
+        stack.map((section) => section.name),
+        line
+      );
+      current.push({ type: 'variable', name, line });
+    }
+  }
+
+  if (stack.length > 0) {
+    const section = stack[stack.length - 1];
+    throw new TemplateError(`{{#${section.name}}} is never closed`, section.line);
+  }
+
+  return root;
+};
+
+/**
+ * Returns the error message for a template, or null when it is valid
+ */
+export const getTemplateError = (source: string): string | null => {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Looks a name up from the innermost scope outwards
+ */
+const lookup = (scopes: TemplateScope[], name: string): TemplateValue | undefined => {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) return scopes[i][name];
+  }
+  return undefined;
+};
+
+const renderNodes = (nodes: TemplateNode[], scopes: TemplateScope[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === 'text') return node.value;
+
+      const value = lookup(scopes, node.name);
+      if (node.type === 'variable') {
+        return value === undefined || Array.isArray(value) ? '' : String(value);
+      }
+
+      if (Array.isArray(value)) {
+        return value.map((item) => renderNodes(node.children, [...scopes, item])).join('');
+      }
+      return value !== undefined && value !== '' && value !== 0
+        ? renderNodes(node.children, scopes)
+        : '';
+    })
+    .join('');
+
+/**
+ * Renders a template with the given values
+ * @throws {TemplateError} When the template is malformed or uses an unknown placeholder
+ */
+export const renderTemplate = (source: string, scope: TemplateScope): string =>
+  renderNodes(parseTemplate(source), [scope]);
@@ -0,0 +1,75 @@
+/**
+ * Maps models to the tokenizer strategy used for their token counts
+ */
+
+import { TokenizerStrategy } from '../types/TokenizerTypes';
+
+const o200k: TokenizerStrategy = {
+  id: 'o200k_base',
+  label: 'o200k_base',
+  encoding: 'o200k_base',
+  ratio: 1,
+  exact: true,
+};
+
+const cl100k: TokenizerStrategy = {
+  id: 'cl100k_base',
+  label: 'cl100k_base',
+  encoding: 'cl100k_base',
+  ratio: 1,
+  exact: true,
+};
+
+/**
+ * Estimate for a family without a tiktoken encoding.
+ * @param ratio Approximate ratio of the family's token count to the encoding's, on mixed code and prose
+ */
+const estimate = (
+  id: string,
+  label: string,
+  ratio: number,
+  encoding: TokenizerStrategy['encoding'] = 'o200k_base'
+): TokenizerStrategy => ({ id, label, encoding, ratio, exact: false });
+
+/**
+ * Used when no model is selected, matching the counts before models were taken into account
+ */
+export const DEFAULT_TOKENIZER = o200k;
+
+/**
+ * Model id patterns (OpenRouter ids, e.g. "anthropic/claude-3.5-sonnet") and their
+ * strategies. The first match wins, so more specific patterns come first.
+ */
+const TOKENIZER_RULES: { pattern: RegExp; strategy: TokenizerStrategy }[] = [
+  { pattern: /^openai\/(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt-4o|o\d)/, strategy: o200k },
+  { pattern: /^openai\/(gpt-4|gpt-3\.5)/, strategy: cl100k },
+  { pattern: /^anthropic\//, strategy: estimate('claude', 'Claude', 1.15) },
+  { pattern: /^google\//, strategy: estimate('gemini', 'Gemini', 1.05) },
+  // Llama 3 and later use a tiktoken-derived vocabulary close to cl100k_base
+  { pattern: /^meta-llama\//, strategy: estimate('llama', 'Llama', 1, 'cl100k_base') },
+  { pattern: /^mistralai\//, strategy: estimate('mistral', 'Mistral', 1.15) },
+  { pattern: /^deepseek\//, strategy: estimate('deepseek', 'DeepSeek', 1.05) },
+  { pattern: /^qwen\//, strategy: estimate('qwen', 'Qwen', 1.05) },
+  { pattern: /^x-ai\//, strategy: estimate('grok', 'Grok', 1.05) },
+];
+
+/**
+ * Finds the tokenizer strategy for a model. Unknown models are estimated with o200k_base.
+ */
+export const getTokenizerForModel = (modelId: string | null | undefined): TokenizerStrategy => {
+  if (!modelId) {
+    return DEFAULT_TOKENIZER;
+  }
+  const rule = TOKENIZER_RULES.find(({ pattern }) => pattern.test(modelId.toLowerCase()));
+  return rule ? rule.strategy : estimate('generic', 'o200k_base', 1);
+};
+
+/**
+ * Describes how a count was made, e.g. "Estimated for Claude" or "Exact (o200k_base)"
+ */
+export const describeTokenizer = (tokenizer: TokenizerStrategy): string =>
+  tokenizer.exact
+    ? `Exact (${tokenizer.label})`
+    : tokenizer.id === 'generic'
+      ? `Estimated with ${tokenizer.label}`
+      : `Estimated for ${tokenizer.label}`;
@@ -0,0 +1,171 @@
+import { TreeNode } from '../types/FileTypes';
+import { TreemapOverlays, TreemapRect } from '../types/TreemapTypes';
+
+const FOLDER_HEADER_HEIGHT = 16; // Room for a folder's name above its contents
+const FOLDER_PADDING = 2;
+const MIN_RECT_SIZE = 3; // Smaller rectangles are dropped instead of drawn as slivers
+const MIN_LABEL_WIDTH = 40;
+const MIN_LABEL_HEIGHT = 14;
+
+interface WeightedNode {
+  node: TreeNode;
+  weight: number; // Area the node claims; binary files have no tokens, so they use their size
+  tokens: number;
+  children?: WeightedNode[]; // Drawn entries of a folder
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Whether a file is drawn with the given overlays. Selectable text files always are.
+ */
+export const isFileShownInTreemap = (node: TreeNode, overlays: TreemapOverlays): boolean => {
+  const file = node.fileData;
+  if (!file) return false;
+  if (file.isSkipped || file.excludedByDefault) return overlays.showIgnored;
+  if (file.isBinary) return overlays.showBinary;
+  return true;
+};
+
+const weighNodes = (nodes: TreeNode[], overlays: TreemapOverlays): WeightedNode[] => {
+  const weighted: WeightedNode[] = [];
+
+  nodes.forEach((node) => {
+    if (node.type === 'directory') {
+      const children = weighNodes(node.children || [], overlays);
+      const weight = children.reduce((total, child) => total + child.weight, 0);
+      const tokens = children.reduce((total, child) => total + child.tokens, 0);
+      if (weight > 0) {
+        weighted.push({ node, weight, tokens, children });
+      }
+      return;
+    }
+
+    if (!isFileShownInTreemap(node, overlays)) return;
+    const tokens = node.fileData?.tokenCount || 0;
+    // Files without tokens (binary or skipped) are sized at roughly 4 bytes per token
+    const weight = tokens || Math.ceil((node.fileData?.size || 0) / 4);
+    if (weight > 0) {
+      weighted.push({ node, weight, tokens });
+    }
+  });
+
+  return weighted.sort((a, b) => b.weight - a.weight);
+};
+
+// Worst aspect ratio in a row of areas laid along a side of the given length
+const worstAspectRatio = (areas: number[], side: number): number => {
+  const rowArea = areas.reduce((total, area) => total + area, 0);
+  const maxArea = Math.max(...areas);
+  const minArea = Math.min(...areas);
+  const sideSquared = side * side;
+  const rowAreaSquared = rowArea * rowArea;
+  return Math.max(
+    (sideSquared * maxArea) / rowAreaSquared,
+    rowAreaSquared / (sideSquared * minArea)
+  );
+};
+
+/**
+ * Squarified treemap layout: fills the box with one rectangle per area, in rows along
+ * the shorter side, growing each row while that keeps the rectangles closer to squares.
+ * `areas` must be sorted from largest to smallest and sum to the box's area.
+ */
+const squarify = (areas: number[], box: Box): Box[] => {
+  const boxes: Box[] = [];
+  let { x, y, width, height } = box;
+  let start = 0;
+
+  while (start < areas.length && width > 0 && height > 0) {
+    const side = Math.min(width, height);
+    let end = start + 1;
+    while (
+      end < areas.length &&
+      worstAspectRatio(areas.slice(start, end + 1), side) <=
+        worstAspectRatio(areas.slice(start, end), side)
+    ) {
+      end++;
+    }
+
+    const row = areas.slice(start, end);
+    const thickness = row.reduce((total, area) => total + area, 0) / side;
+    let offset = 0;
+    row.forEach((area) => {
+      const length = area / thickness;
+      boxes.push(
+        width >= height
+          ? { x, y: y + offset, width: thickness, height: length }
+          : { x: x + offset, y, width: length, height: thickness }
+      );
+      offset += length;
+    });
+
+    if (width >= height) {
+      x += thickness;
+      width -= thickness;
+    } else {
+      y += thickness;
+      height -= thickness;
+    }
+    start = end;
+  }
+
+  return boxes;
+};
+
+const layoutNodes = (weighted: WeightedNode[], box: Box, rects: TreemapRect[]): void => {
+  const totalWeight = weighted.reduce((total, entry) => total + entry.weight, 0);
+  if (totalWeight === 0 || box.width < MIN_RECT_SIZE || box.height < MIN_RECT_SIZE) return;
+
+  const scale = (box.width * box.height) / totalWeight;
+  const boxes = squarify(
+    weighted.map((entry) => entry.weight * scale),
+    box
+  );
+
+  weighted.forEach((entry, index) => {
+    const rect = boxes[index];
+    if (!rect || rect.width < MIN_RECT_SIZE || rect.height < MIN_RECT_SIZE) return;
+
+    rects.push({
+      node: entry.node,
+      ...rect,
+      tokens: entry.tokens,
+      hasLabel: rect.width >= MIN_LABEL_WIDTH && rect.height >= MIN_LABEL_HEIGHT,
+    });
+
+    if (entry.children) {
+      layoutNodes(
+        entry.children,
+        {
+          x: rect.x + FOLDER_PADDING,
+          y: rect.y + FOLDER_HEADER_HEIGHT,
+          width: rect.width - FOLDER_PADDING * 2,
+          height: rect.height - FOLDER_HEADER_HEIGHT - FOLDER_PADDING,
+        },
+        rects
+      );
+    }
+  });
+};
+
+/**
+ * Lays out the file tree as a treemap of the given size, with files sized by token count.
+ * Folders come before their contents in the result, so drawing it in order keeps
+ * every file on top of its folder.
+ */
+export const layoutTreemap = (
+  tree: TreeNode[],
+  width: number,
+  height: number,
+  overlays: TreemapOverlays
+): TreemapRect[] => {
+  const rects: TreemapRect[] = [];
+  layoutNodes(weighNodes(tree, overlays), { x: 0, y: 0, width, height }, rects);
+  return rects;
+};
@@ -0,0 +1,57 @@
+import { WorkspaceRoot } from '../types/WorkspaceTypes';
+import { arePathsEqual, basename, dirname, isSubPath, normalizePath } from './pathUtils';
+
+/**
+ * Labels the root folders of a workspace by their names. Roots with the same name get
+ * their parent folder's name added, e.g. "app (client)" and "app (server)", and are
+ * numbered if that is not enough.
+ */
+export const getWorkspaceRoots = (rootPaths: string[]): WorkspaceRoot[] => {
+  const names = rootPaths.map((rootPath: string) => basename(rootPath) || 'root');
+  const labels = rootPaths.map((rootPath: string, index: number) => {
+    const name = names[index];
+    if (names.filter((other: string) => other === name).length === 1) return name;
+    const parentName = basename(dirname(rootPath));
+    return parentName ? `${name} (${parentName})` : name;
+  });
+
+  return rootPaths.map((rootPath: string, index: number) => {
+    const label = labels[index];
+    const sameLabelsBefore = labels
+      .slice(0, index)
+      .filter((other: string) => other === label).length;
+    return {
+      path: normalizePath(rootPath),
+      label: sameLabelsBefore > 0 ? `${label} (${sameLabelsBefore + 1})` : label,
+    };
+  });
+};
+
+/**
+ * Finds the root folder that contains a file or folder
+ */
+export const findWorkspaceRoot = (
+  filePath: string,
+  roots: WorkspaceRoot[]
+): WorkspaceRoot | undefined =>
+  roots.find(
+    (root: WorkspaceRoot) => arePathsEqual(root.path, filePath) || isSubPath(root.path, filePath)
+  );
+
+/**
+ * Gets the path of a file relative to its root folder
+ */
+export const getRootRelativePath = (filePath: string, root: WorkspaceRoot): string =>
+  normalizePath(filePath).substring(root.path.length).replace(/^\//, '');
+
+/**
+ * Checks whether a folder is one of the root folders, or inside or around one of them.
+ * Such a folder can't be added as another root, since its files would be listed twice.
+ */
+export const overlapsWorkspaceRoots = (folderPath: string, rootPaths: string[]): boolean =>
+  rootPaths.some(
+    (rootPath: string) =>
+      arePathsEqual(rootPath, folderPath) ||
+      isSubPath(rootPath, folderPath) ||
+      isSubPath(folderPath, rootPath)
+  );